@@ -6,14 +6,17 @@ import { Header } from './components/Header';
 import { StatusBar } from './components/StatusBar';
 
 import { PollutionInsights } from './components/PollutionInsights';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
 import { CaseStudies } from './components/CaseStudies';
 import { TourGuide } from './components/TourGuide';
 import { SimulationCommentary } from './components/SimulationCommentary';
 import { MobileNotice } from './components/MobileNotice';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useSimulationStore } from './stores/simulationStore';
 
 const SimulatorPage: React.FC = () => {
   useKeyboardShortcuts();
+  const scientistMode = useSimulationStore((state) => state.scientistMode);
 
   return (
     <>
@@ -22,6 +25,7 @@ const SimulatorPage: React.FC = () => {
       <aside className="sidebar">
         <ControlPanel />
         <PollutionInsights />
+        {scientistMode && <DiagnosticsPanel />}
       </aside>
       <main className="app-main">
 
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { useSimulationStore } from '../stores/simulationStore';
-import { POLLUTANT_TYPES, SimulationParameters } from '../types';
+import { DEFAULT_RESOLUTION, POLLUTANT_TYPES, EmissionSchedule, SimulationParameters, SourceKind } from '../types';
+import { createSchedule } from '../physics/emissionSchedule';
+import { rescaleCell } from '../physics/gridResampling';
 import { useNavigate } from 'react-router-dom';
 
 interface CaseStudy {
@@ -10,10 +12,14 @@ interface CaseStudy {
   severity: 'good' | 'moderate' | 'bad' | 'severe';
   scenario: string;
   parameters: SimulationParameters;
-  sourceConfig: {
+  sourceConfig: { // Cell positions on the default 80 × 80 grid
     x: number;
     y: number;
     type: keyof typeof POLLUTANT_TYPES;
+    schedule?: EmissionSchedule;
+    kind?: SourceKind;
+    puffMass?: number;
+    puffRadius?: number;
   }[];
   expectedOutcome: string;
   realWorldExample: string;
@@ -57,8 +63,9 @@ const CASE_STUDIES: CaseStudy[] = [
       simulationSpeed: 1.0
     },
     sourceConfig: [
-      { x: 30, y: 40, type: 'NO2' },
-      { x: 50, y: 40, type: 'PM25' }
+      // Traffic follows the weekday profile, peaking at 8:00 and 17:00 on the simulation clock
+      { x: 30, y: 40, type: 'NO2', schedule: createSchedule('diurnal') },
+      { x: 50, y: 40, type: 'PM25', schedule: createSchedule('diurnal') }
     ],
     expectedOutcome: 'Brown haze (NO2) forms downwind. AQI rises to Moderate/Unhealthy levels.',
     realWorldExample: 'Los Angeles or London during peak traffic hours.'
@@ -79,9 +86,9 @@ const CASE_STUDIES: CaseStudy[] = [
       simulationSpeed: 1.0
     },
     sourceConfig: [
-      { x: 40, y: 20, type: 'SO2' }
+      { x: 40, y: 20, type: 'SO2', kind: 'puff', puffMass: 8000, puffRadius: 4 }
     ],
-    expectedOutcome: 'Dense, pungent cloud moves slowly along ground. Hazardous near source.',
+    expectedOutcome: 'Dense, pungent cloud moves slowly along ground. Hazardous near source, then passes and thins out downwind.',
     realWorldExample: 'Industrial accidents involving acid gas releases.'
   },
   {
@@ -133,7 +140,7 @@ const CASE_STUDIES: CaseStudy[] = [
     title: '🌫️ Scenario: Winter Smog (Inversion)',
     description: 'Pollutants trapped by atmospheric inversion layer.',
     severity: 'severe',
-    scenario: 'Zero wind and very low diffusion trapping multiple urban pollutants.',
+    scenario: 'Near-calm air under an inversion lid at 150 m: urban pollutants cannot mix upwards and build up at street level.',
     parameters: {
       windDirection: 0,
       windSpeed: 0.05,
@@ -141,7 +148,9 @@ const CASE_STUDIES: CaseStudy[] = [
       releaseRate: 25,
       viscosity: 1.5,
       decayFactor: 0.999,
-      simulationSpeed: 1.0
+      simulationSpeed: 1.0,
+      verticalLayers: 5,
+      mixingHeight: 150
     },
     sourceConfig: [
       { x: 30, y: 30, type: 'NO2' },
@@ -185,11 +194,16 @@ export const CaseStudies: React.FC = () => {
       // Add new sources
       // We need to ensure we're adding valid sources. 
       // actions.addSource adds a single source to the array.
+      // Sources are authored on the default grid; move them to the same spot on the current one
+      const { resolution } = useSimulationStore.getState();
       caseStudy.sourceConfig.forEach(source => {
         actions.addSource({
-          x: source.x,
-          y: source.y,
-          type: source.type
+          ...rescaleCell(source.x, source.y, DEFAULT_RESOLUTION, resolution),
+          type: source.type,
+          schedule: source.schedule,
+          kind: source.kind,
+          puffMass: source.puffMass,
+          puffRadius: source.puffRadius
         });
       });
 
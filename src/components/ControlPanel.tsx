@@ -1,12 +1,148 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { useSimulationStore } from '../stores/simulationStore';
 import { useShareableURL } from '../hooks/useShareableURL';
-import { POLLUTANT_TYPES, GRID_SIZE } from '../types';
-import { Wind, Waves, Droplets, Plus, Trash2, Download, Upload, FileJson, CheckCircle, AlertCircle, X, Info, Keyboard, Share2, Zap, Microscope, PenTool, CloudLightning, MapPin, Activity } from 'lucide-react';
+import {
+  POLLUTANT_TYPES, SPECIES_IDS, MIN_GRID_DIMENSION, MAX_GRID_DIMENSION, BOUNDARY_EDGES,
+  DEFAULT_ADVECTION_SCHEME, DEFAULT_CLOUD_COVER, DEFAULT_DISPERSION_MODEL, DEFAULT_STABILITY_CLASS, DEFAULT_TIME_OF_DAY,
+  STABILITY_CLASSES, AdvectionScheme,
+  BoundaryConditions, BoundaryEdge, BoundaryType, DispersionModel, GridResolution, SpeciesGrids, SpeciesId, StabilityClass,
+  DEFAULT_TURBULENCE_MODEL, TurbulenceModel, EmissionSchedule, EmissionScheduleKind, GridPoint,
+  PollutionSource, RouteMode, SourceDrawing, SourceTrail, DEFAULT_MEDIUM, DEFAULT_RIVER_PROFILE, RiverProfile, WaterPresetId
+} from '../types';
+import { resolveBoundaries } from '../physics/boundaryConditions';
+import { MAX_PUFF_RADIUS, createPuffSource, isPuff } from '../physics/puffRelease';
+import { DEFAULT_SOURCE_SPEED, MAX_SOURCE_SPEED, MIN_ROUTE_WAYPOINTS, getRouteLength, getRoutePosition, isMovingSource } from '../physics/movingSource';
+import {
+  MIN_AREA_VERTICES, MIN_DRAWING_VERTICES, MIN_LINE_VERTICES, getPathAnchor, getPathLength, getPolygonArea, isAreaSource,
+  isExtendedSource, isLineSource, rescaleSource
+} from '../physics/sourceGeometry';
+import { HOURS_PER_DAY, createSchedule, formatClock, getScheduleFactor, parseScheduleCSV } from '../physics/emissionSchedule';
+import { createGrid, resampleField, resampleMask } from '../physics/gridResampling';
+import { WIND_SPEED_SCALE, resolveStabilityClass } from '../physics/stability';
+import {
+  DEFAULT_EXIT_VELOCITY, DEFAULT_STACK_DIAMETER, MAX_EXIT_VELOCITY, MAX_STACK_DIAMETER, getEffectiveStackHeight
+} from '../physics/plumeRise';
+import {
+  DEFAULT_TIDAL_PERIOD, MAX_TIDAL_AMPLITUDE, WATER_PRESETS, getMediumSpecies, getTidalCurrent, isWaterDomain
+} from '../physics/waterBody';
+import { heightmapFromImage } from '../physics/terrain';
+import { DEFAULT_SMAGORINSKY_CONSTANT, DEFAULT_VORTICITY_CONFINEMENT, MAX_VORTICITY_CONFINEMENT } from '../physics/turbulence';
+import { DEFAULT_MIXING_HEIGHT, MAX_VERTICAL_LAYERS, MODEL_TOP_HEIGHT, getLayerCount } from '../physics/verticalLayers';
+import { Wind, Waves, Droplets, Plus, Trash2, Download, Upload, FileJson, CheckCircle, AlertCircle, X, Info, Keyboard, Share2, Zap, Microscope, PenTool, CloudLightning, MapPin, Activity, Sun, Thermometer, Grid3x3, Frame, Spline, Mountain, Layers, ArrowUpToLine, Factory, GitCompare, CloudSun, CloudRain, ArrowDownToLine, Tornado, Clock, Bomb, Crosshair, Route, Hexagon, Check, Ship } from 'lucide-react';
+
+const RESOLUTION_PRESETS = [
+  { label: '40 × 40 (classroom)', width: 40, height: 40 },
+  { label: '80 × 80 (default)', width: 80, height: 80 },
+  { label: '128 × 128', width: 128, height: 128 },
+  { label: '256 × 256 (study)', width: 256, height: 256 },
+  { label: '160 × 80 (wide)', width: 160, height: 80 },
+  { label: '80 × 160 (tall)', width: 80, height: 160 }
+];
+
+const BOUNDARY_EDGE_LABELS: Record<BoundaryEdge, string> = {
+  left: 'Left (x = 0)',
+  right: 'Right',
+  top: 'Top (y = 0)',
+  bottom: 'Bottom'
+};
+
+const BOUNDARY_TYPE_LABELS: Record<BoundaryType, string> = {
+  wall: 'Wall',
+  outflow: 'Open outflow',
+  periodic: 'Periodic',
+  inflow: 'Wind inflow'
+};
+
+const DISPERSION_MODEL_LABELS: Record<DispersionModel, string> = {
+  navierStokes: 'Navier-Stokes (grid CFD)',
+  gaussianPlume: 'Gaussian plume (steady state)',
+  lagrangianParticles: 'Lagrangian particles (random walk)'
+};
+
+const STABILITY_CLASS_LABELS: Record<StabilityClass, string> = {
+  A: 'A · Very unstable',
+  B: 'B · Unstable',
+  C: 'C · Slightly unstable',
+  D: 'D · Neutral',
+  E: 'E · Slightly stable',
+  F: 'F · Stable'
+};
+
+const ADVECTION_SCHEME_LABELS: Record<AdvectionScheme, string> = {
+  semiLagrangian: 'Semi-Lagrangian (fast, smooth)',
+  maccormack: 'MacCormack (sharper)',
+  bfecc: 'BFECC (sharpest)'
+};
+
+const SCHEDULE_KIND_LABELS: Record<EmissionScheduleKind, string> = {
+  constant: 'Constant',
+  onOff: 'On/off cycle',
+  diurnal: '24-hour profile',
+  ramp: 'Linear ramp',
+  piecewise: 'Table (CSV)'
+};
+
+const ROUTE_MODE_LABELS: Record<RouteMode, string> = {
+  loop: 'Loop',
+  oneWay: 'One way'
+};
+
+const DRAWING_LABELS: Record<SourceDrawing['kind'], string> = {
+  line: 'Line',
+  area: 'Area',
+  route: 'Route'
+};
+
+// The points a line, area or moving source is edited through: its vertices, or its route's waypoints
+const getOutline = (source: PollutionSource): GridPoint[] => (isMovingSource(source) ? source.waypoints : source.path) ?? [];
+
+const getMinOutline = (source: PollutionSource): number =>
+  isMovingSource(source) ? MIN_ROUTE_WAYPOINTS : isLineSource(source) ? MIN_LINE_VERTICES : MIN_AREA_VERTICES;
+
+// Where a moving source is at a time on the clock, or why it is not emitting
+const formatRoutePosition = (source: PollutionSource, hour: number): string => {
+  const position = getRoutePosition(source, hour);
+  if (position) return `${position.x.toFixed(1)}, ${position.y.toFixed(1)}`;
+  return hour < (source.departureTime ?? 0) ? 'Waiting' : 'Arrived';
+};
+
+const RIVER_PROFILE_LABELS: Record<RiverProfile, string> = {
+  parabolic: 'Fastest mid-stream',
+  uniform: 'Uniform'
+};
+
+// Tidal current now: flooding runs with the mean current, ebbing against it
+const formatTide = (current: number): string => {
+  if (Math.abs(current) < 0.05) return 'slack';
+  return `${current > 0 ? 'flood' : 'ebb'} ${Math.abs(current).toFixed(2)}`;
+};
+
+const TURBULENCE_MODEL_LABELS: Record<TurbulenceModel, string> = {
+  laminar: 'Constant viscosity',
+  smagorinsky: 'Smagorinsky eddy viscosity'
+};
+
+// Sets one edge; leaving a periodic pair turns the partner edge into an open outflow
+const pairBoundary = (boundaries: BoundaryConditions, edge: BoundaryEdge, type: BoundaryType): BoundaryConditions => {
+  const opposite: Record<BoundaryEdge, BoundaryEdge> = { left: 'right', right: 'left', top: 'bottom', bottom: 'top' };
+  const next = { ...boundaries, [edge]: type };
+  if (type !== 'periodic' && boundaries[edge] === 'periodic') {
+    next[opposite[edge]] = 'outflow';
+  }
+  return next;
+};
 
 export const ControlPanel: React.FC = () => {
-  const { parameters, sources, gpuEnabled, scientistMode, isDrawingObstacles, actions } = useSimulationStore();
+  const {
+    parameters, sources, gpuEnabled, scientistMode, isDrawingObstacles, terrainBrush, isPlacingPuff, sourceDrawing, resolution,
+    showDeposition, depositionSpecies, simulationTime, sourceTrails, actions
+  } = useSimulationStore();
+  const water = isWaterDomain(parameters);
+  const mediumSpecies = getMediumSpecies(parameters.medium ?? DEFAULT_MEDIUM);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const heightmapInputRef = useRef<HTMLInputElement>(null);
+  const scheduleInputRef = useRef<HTMLInputElement>(null);
+  const [scheduleTarget, setScheduleTarget] = useState<number | null>(null);
   const [showExportModal, setShowExportModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
   const [importedConfig, setImportedConfig] = useState<any>(null);
@@ -15,21 +151,33 @@ export const ControlPanel: React.FC = () => {
   const [showShareTooltip, setShowShareTooltip] = useState(false);
   const { generateShareURL } = useShareableURL();
 
-  const handleExportCSV = () => {
-    const { grid } = useSimulationStore.getState();
-    // Rotate grid to match visual orientation if needed, but raw dump is usually row-major (y)
-    // Grid is number[][], representing density
-    const rows = grid.map(row => row.map(val => val.toFixed(2)).join(','));
+  // One row per cell (row-major, y then x) with the total and each species' value
+  const downloadSpeciesCSV = (speciesGrids: SpeciesGrids, name: string) => {
+    const rows = [['y', 'x', 'total', ...SPECIES_IDS].join(',')];
+    speciesGrids[SPECIES_IDS[0]].forEach((row, y) => {
+      row.forEach((_, x) => {
+        const perSpecies = SPECIES_IDS.map(species => speciesGrids[species][y][x]);
+        const total = perSpecies.reduce((sum, value) => sum + value, 0);
+        rows.push([y, x, total.toFixed(2), ...perSpecies.map(value => value.toFixed(2))].join(','));
+      });
+    });
     const csvContent = "data:text/csv;charset=utf-8," + rows.join("\n");
     const encodedUri = encodeURI(csvContent);
     const link = document.createElement("a");
     link.setAttribute("href", encodedUri);
-    link.setAttribute("download", `pollution_data_${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.csv`);
+    link.setAttribute("download", `${name}_${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.csv`);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
+  const handleExportCSV = () => downloadSpeciesCSV(useSimulationStore.getState().speciesGrids, 'pollution_data');
+
+  const handleExportDepositionCSV = () => {
+    const { deposition } = useSimulationStore.getState();
+    if (deposition) downloadSpeciesCSV(deposition, 'deposition_data');
+  };
+
   useEffect(() => {
     const handleKeyboardSave = () => setShowExportModal(true);
     const handleShowShortcuts = () => setShowShortcutsHelp(true);
@@ -43,15 +191,34 @@ export const ControlPanel: React.FC = () => {
     };
   }, []);
 
+  const boundaries = resolveBoundaries(parameters.boundaries);
+
   const tooltips = {
     windDirection: 'Direction from which wind blows (0°=North, 90°=East, 180°=South, 270°=West). Determines primary dispersion path.',
     windSpeed: 'How fast air moves. Higher speeds spread pollution faster but dilute it more quickly. Range: 0-2 m/s.',
+    currentDirection: 'Direction the river or tidal current flows towards (0°=along the map to the right). Banks turn it along the channel.',
+    currentSpeed: 'Mean speed of the river current. With the parabolic profile it runs half as fast again mid-stream and slows to nothing at the banks.',
+    waterDomain: 'Switch the domain from air to water: a river, lake, estuary or stretch of coast seen from above. The same solver runs with water presets: slower mixing, the current in place of the wind, banks drawn with the obstacle brush, and water pollutants such as sewage, farm runoff, cooling water, silt and spilled oil. A river feeds in through its inflow edge fastest mid-stream; a tide adds a current that floods and ebbs over its period, reversing the flow in an estuary. Switching clears the domain.',
     diffusionRate: 'How quickly pollution spreads from high to low concentration areas. Think of it like dye in water - higher values = faster mixing.',
     releaseRate: 'Amount of pollution emitted per time step. Higher values create more intense pollution clouds.',
     viscosity: 'Fluid "thickness" that resists flow. Higher viscosity = slower, more stable dispersion patterns.',
     decayFactor: 'Natural breakdown rate of pollutants over time. Values closer to 1 = slower decay. Simulates chemical breakdown or settling.',
     pollutantType: 'Different pollutants behave differently: oils float, chemicals sink, thermal pollution rises. Each has unique dispersion physics.',
-    simulationSpeed: 'Controls how fast time passes in the simulation. Higher values = faster movement and spread.'
+    simulationSpeed: 'Controls how fast time passes in the simulation. Higher values = faster movement and spread.',
+    resolution: 'Number of grid cells across the domain. Coarse grids run fast for demos; fine or non-square grids resolve streets and long valleys. Existing walls and pollution are resampled.',
+    boundaries: 'What happens at each edge of the domain. Walls reflect air and trap pollution, open outflow lets it leave (the amount is reported in scientist mode), periodic edges wrap around to the opposite side, and inflow edges feed in clean air at the ambient wind speed.',
+    terrain: 'Ground elevation under the air. Wind is steered around hills rather than over them, and heavy gases such as radon and CO2 drain downhill and pool in valleys and basins. Sculpt with the brushes (click & drag on the map) or import a grayscale PNG where white is high ground.',
+    verticalLayers: 'How many air layers are stacked above each cell, from the ground to 1 km. Pollution released at the ground mixes upwards into them, diluting what you breathe; the map and AQI show the ground layer. One layer treats the whole column as perfectly mixed.',
+    mixingHeight: 'Top of the turbulent mixed layer. On a sunny afternoon it reaches a kilometre or more; during a winter inversion warm air sits on top of cold air and the lid can drop to 100-200 m, trapping everything emitted below it.',
+    dispersionModel: 'The Navier-Stokes solver moves pollution cell by cell through a computed wind field, with buildings, terrain, chemistry and build-up over time. The Gaussian plume is the classic regulatory screening formula: an instant steady-state plume in a uniform wind over flat ground, with its spread set by the stability class. The Lagrangian model releases thousands of mass-carrying particles that ride the computed wind and take random turbulent steps; counting them per cell gives the concentration and shows which source each puff came from. Switch between them to compare on the same sources and wind.',
+    stabilityClass: 'Pasquill-Gifford stability of the atmosphere. A (strong sun, light wind) churns the air so plumes spread fast and loop down to the ground near the stack; D is neutral (overcast or windy); F (clear night, light wind) keeps plumes thin, so they travel far with little dilution. The class scales the turbulent mixing in every engine, sideways and (most strongly) upwards. Auto picks the class from the wind, cloud cover and time of day with the Pasquill-Turner key.',
+    rainIntensity: 'Rain washes soluble gases and particles out of the whole air column: SO2 and sulfate most readily (acid rain), then PM2.5, while CO2 and radon barely dissolve. What the drops collect lands on the ground and builds up in the blue deposition map. Dynamic weather adds passing showers.',
+    deposition: 'Pollution that settles out of the ground layer (heavy gases and particles fastest) or is washed down by rain builds up on the surface, shown as a blue sheet over the ground. It keeps a running total until cleared, independently of the air above. Export it as CSV to map acid rain or fallout.',
+    turbulence: 'Eddies too small for the grid still mix the air. The Smagorinsky model adds an eddy viscosity wherever the wind shears, as in the wake behind a wall, scaled by its constant Cs (0.1-0.2 is typical). Vorticity confinement works the other way: it spins up the eddies the grid does resolve so that wakes keep swirling instead of being smoothed into a steady stream.',
+    extendedSources: 'Line sources model roads and area sources model fields, burn areas or a whole neighbourhood. Click the map to place each vertex, then double-click or press Enter to finish (Esc cancels). Their release rate is per cell of length or area, so a longer road or a bigger fire emits more in total; a hot release temperature heats every cell they cover. A route makes a moving source such as a ship or a truck convoy: it travels along the waypoints at its speed on the simulation clock, round and round or once, leaving a trail of where it emitted.',
+    puff: 'A puff releases a fixed mass all at once, as from a tank rupture or an explosion, at a chosen time on the simulation clock and spread over a chosen radius. Add one at the centre or place it on the map, then follow it downwind: scientist mode reports when it first reaches cells 5 to 40 cells down the wind and how high the concentration peaks there.',
+    advectionScheme: 'How the wind carries pollution and momentum between grid cells. The first-order scheme is fast but smears sharp plumes as if diffusion were higher. MacCormack and BFECC correct that error for narrow, crisp plumes, with a limiter that stops them overshooting. GPU-accelerated pollution transport stays first order.',
+    sunIntensity: 'Strength of sunlight driving photochemistry. Sun splits NO2 into NO and ozone and speeds up SO2 conversion to sulfate particles.'
   };
 
   const handleShare = () => {
@@ -74,9 +241,11 @@ export const ControlPanel: React.FC = () => {
         timestamp: new Date().toISOString(),
         version: '1.0'
       },
+      resolution,
       parameters,
       sources,
       obstacles: useSimulationStore.getState().obstacles,
+      terrain: useSimulationStore.getState().terrain,
       settings: {
         gpuEnabled,
         scientistMode
@@ -117,16 +286,123 @@ export const ControlPanel: React.FC = () => {
     event.target.value = '';
   };
 
+  const handleHeightmapImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width;
+      canvas.height = image.height;
+      const context = canvas.getContext('2d');
+      if (context) {
+        context.drawImage(image, 0, 0);
+        actions.setTerrain(heightmapFromImage(context.getImageData(0, 0, image.width, image.height), resolution));
+      }
+      URL.revokeObjectURL(url);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      alert('Invalid heightmap: Unable to read the image');
+    };
+    image.src = url;
+    event.target.value = '';
+  };
+
+  const setSchedule = (index: number, schedule: EmissionSchedule) => {
+    const newSources = [...sources];
+    newSources[index] = { ...newSources[index], schedule };
+    actions.setSources(newSources);
+  };
+
+  // Piecewise emission table for the source whose Import button was pressed
+  const handleScheduleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const index = scheduleTarget;
+    if (!file || index === null) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        setSchedule(index, parseScheduleCSV(e.target?.result as string));
+      } catch (error) {
+        console.error('Failed to import emission schedule:', error);
+        alert(`Invalid emission schedule: ${(error as Error).message}`);
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  // Replaces a line or area's vertices, or a moving source's waypoints; lines and areas stay listed at the
+  // middle of their outline, moving sources at the start of their route
+  const setPath = (index: number, points: GridPoint[]) => {
+    const newSources = [...sources];
+    newSources[index] = isMovingSource(newSources[index])
+      ? { ...newSources[index], ...points[0], waypoints: points }
+      : { ...newSources[index], ...getPathAnchor(points), path: points };
+    actions.setSources(newSources);
+  };
+
+  const setVertex = (index: number, vertex: number, point: GridPoint) =>
+    setPath(index, getOutline(sources[index]).map((current, n) => (n === vertex ? point : current)));
+
+  const updateSource = (index: number, changes: Partial<PollutionSource>) => {
+    const newSources = [...sources];
+    newSources[index] = { ...newSources[index], ...changes };
+    actions.setSources(newSources);
+  };
+
+  // Time, x and y of every point a moving source has emitted from since the reset
+  const downloadTrailCSV = (trail: SourceTrail) => {
+    const rows = ['hour,x,y', ...trail.points.map(point => [point.time.toFixed(4), point.x.toFixed(2), point.y.toFixed(2)].join(','))];
+    const link = document.createElement("a");
+    link.setAttribute("href", encodeURI("data:text/csv;charset=utf-8," + rows.join("\n")));
+    link.setAttribute("download", `trail_source${trail.source + 1}_${trail.species}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  // Small labelled number box for one numeric field (schedules, stacks, puffs, routes and tides)
+  const numberInput = (label: string, value: number, onChange: (value: number) => void, max?: number, step = 1) => (
+    <label key={label} style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '10px', color: 'var(--text-secondary)' }}>
+      {label}
+      <input
+        type="number"
+        className="select-input"
+        min={0}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Math.max(0, Number(e.target.value)))}
+        style={{ width: '100%', padding: '2px 4px', fontSize: '11px' }}
+      />
+    </label>
+  );
+
   const confirmImport = () => {
     if (!importedConfig) return;
 
     actions.reset();
     setTimeout(() => {
+      // Files saved before the grid was configurable are 80 × 80
+      const saved: GridResolution | undefined = importedConfig.resolution ?? (importedConfig.obstacles
+        ? { width: importedConfig.obstacles[0].length, height: importedConfig.obstacles.length }
+        : undefined);
+      if (saved) actions.setResolution(saved);
+      // The store clamps the grid to the supported range, so the geometry is mapped onto the grid it ended up with
+      const grid = useSimulationStore.getState().resolution;
       actions.updateParameters(importedConfig.parameters);
       actions.removeSource(0);
-      importedConfig.sources.forEach((source: any) => actions.addSource(source));
+      importedConfig.sources.forEach((source: any) => actions.addSource(saved ? rescaleSource(source, saved, grid) : source));
       if (importedConfig.obstacles) {
-        actions.setObstacles(importedConfig.obstacles);
+        actions.setObstacles(resampleMask(importedConfig.obstacles, grid));
+      }
+      if (importedConfig.terrain) {
+        actions.setTerrain(resampleField(importedConfig.terrain, grid));
       }
       if (importedConfig.settings) {
         if (importedConfig.settings.gpuEnabled !== gpuEnabled) actions.toggleGPU();
@@ -431,6 +707,8 @@ export const ControlPanel: React.FC = () => {
                 { key: 'V', action: 'Toggle Scientist Mode (vectors)' },
                 { key: 'D', action: 'Toggle Draw Obstacles mode' },
                 { key: 'W', action: 'Toggle Dynamic Weather' },
+                { key: 'Enter', action: 'Finish drawing a line or area source' },
+                { key: 'Esc', action: 'Cancel drawing a line or area source' },
                 { key: '?', action: 'Show this help' }
               ].map((shortcut, idx) => (
                 <div key={idx} style={{
@@ -529,13 +807,13 @@ export const ControlPanel: React.FC = () => {
           <button
             className={`setting-card ${isDrawingObstacles ? 'active' : ''}`}
             onClick={actions.toggleDrawingObstacles}
-            title="Click & Drag to build/erase walls"
+            title={water ? 'Click & Drag to draw/erase banks and shoreline' : 'Click & Drag to build/erase walls'}
           >
             <div className="setting-icon-wrapper">
               <PenTool size={20} />
             </div>
             <div className="setting-content">
-              <div className="setting-title">Build Walls</div>
+              <div className="setting-title">{water ? 'Draw Banks' : 'Build Walls'}</div>
               <div className="setting-status">{isDrawingObstacles ? 'Edit Mode' : 'View Mode'}</div>
             </div>
           </button>
@@ -599,6 +877,346 @@ export const ControlPanel: React.FC = () => {
             />
           </div>
         </div>
+
+        {/* Dispersion Model */}
+        <div className="control-group">
+          <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <GitCompare style={{ width: '14px', height: '14px' }} />
+            <span>Dispersion Model</span>
+            <button
+              onClick={() => setActiveTooltip(activeTooltip === 'dispersionModel' ? null : 'dispersionModel')}
+              style={{ background: 'transparent', border: 'none', cursor: 'pointer', padding: '2px', display: 'flex' }}
+              title="Learn more"
+            >
+              <Info size={14} color="#8b5cf6" />
+            </button>
+          </label>
+          {activeTooltip === 'dispersionModel' && (
+            <div style={{
+              fontSize: '11px',
+              background: 'rgba(139, 92, 246, 0.1)',
+              border: '1px solid rgba(139, 92, 246, 0.3)',
+              borderRadius: '6px',
+              padding: '8px',
+              marginBottom: '8px',
+              color: 'var(--text-primary)',
+              lineHeight: 1.4
+            }}>
+              {tooltips.dispersionModel}
+            </div>
+          )}
+          <div className="select-container">
+            <select
+              className="select-input"
+              value={parameters.dispersionModel ?? DEFAULT_DISPERSION_MODEL}
+              onChange={(e) => actions.updateParameters({ dispersionModel: e.target.value as DispersionModel })}
+            >
+              {(Object.keys(DISPERSION_MODEL_LABELS) as DispersionModel[]).map(model => (
+                // The plume formula assumes open air over flat ground, so it has no place on a river
+                <option key={model} value={model} disabled={water && model === 'gaussianPlume'}>{DISPERSION_MODEL_LABELS[model]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Grid Resolution */}
+        <div className="control-group">
+          <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <Grid3x3 style={{ width: '14px', height: '14px' }} />
+            <span>Grid: {resolution.width} × {resolution.height}</span>
+            <button
+              onClick={() => setActiveTooltip(activeTooltip === 'resolution' ? null : 'resolution')}
+              style={{ background: 'transparent', border: 'none', cursor: 'pointer', padding: '2px', display: 'flex' }}
+              title="Learn more"
+            >
+              <Info size={14} color="#8b5cf6" />
+            </button>
+          </label>
+          {activeTooltip === 'resolution' && (
+            <div style={{
+              fontSize: '11px',
+              background: 'rgba(139, 92, 246, 0.1)',
+              border: '1px solid rgba(139, 92, 246, 0.3)',
+              borderRadius: '6px',
+              padding: '8px',
+              marginBottom: '8px',
+              color: 'var(--text-primary)',
+              lineHeight: 1.4
+            }}>
+              {tooltips.resolution}
+            </div>
+          )}
+          <div className="select-container" style={{ marginBottom: '8px' }}>
+            <select
+              className="select-input"
+              value={RESOLUTION_PRESETS.findIndex(p => p.width === resolution.width && p.height === resolution.height)}
+              onChange={(e) => {
+                const preset = RESOLUTION_PRESETS[Number(e.target.value)];
+                if (preset) actions.setResolution({ width: preset.width, height: preset.height });
+              }}
+            >
+              <option value={-1} disabled>Custom</option>
+              {RESOLUTION_PRESETS.map((preset, index) => (
+                <option key={preset.label} value={index}>{preset.label}</option>
+              ))}
+            </select>
+          </div>
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center', fontSize: '12px', color: 'var(--text-secondary)' }}>
+            <span>W</span>
+            <input
+              key={`w-${resolution.width}`}
+              type="number"
+              className="select-input"
+              min={MIN_GRID_DIMENSION}
+              max={MAX_GRID_DIMENSION}
+              defaultValue={resolution.width}
+              onBlur={(e) => actions.setResolution({ width: Number(e.target.value), height: resolution.height })}
+              style={{ width: '70px' }}
+            />
+            <span>H</span>
+            <input
+              key={`h-${resolution.height}`}
+              type="number"
+              className="select-input"
+              min={MIN_GRID_DIMENSION}
+              max={MAX_GRID_DIMENSION}
+              defaultValue={resolution.height}
+              onBlur={(e) => actions.setResolution({ width: resolution.width, height: Number(e.target.value) })}
+              style={{ width: '70px' }}
+            />
+          </div>
+        </div>
+
+        {/* Domain Boundaries */}
+        <div className="control-group">
+          <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <Frame style={{ width: '14px', height: '14px' }} />
+            <span>Boundaries</span>
+            <button
+              onClick={() => setActiveTooltip(activeTooltip === 'boundaries' ? null : 'boundaries')}
+              style={{ background: 'transparent', border: 'none', cursor: 'pointer', padding: '2px', display: 'flex' }}
+              title="Learn more"
+            >
+              <Info size={14} color="#8b5cf6" />
+            </button>
+          </label>
+          {activeTooltip === 'boundaries' && (
+            <div style={{
+              fontSize: '11px',
+              background: 'rgba(139, 92, 246, 0.1)',
+              border: '1px solid rgba(139, 92, 246, 0.3)',
+              borderRadius: '6px',
+              padding: '8px',
+              marginBottom: '8px',
+              color: 'var(--text-primary)',
+              lineHeight: 1.4
+            }}>
+              {tooltips.boundaries}
+            </div>
+          )}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            {BOUNDARY_EDGES.map(edge => (
+              <div key={edge} style={{ fontSize: '11px', color: 'var(--text-secondary)' }}>
+                <div style={{ marginBottom: '2px' }}>{BOUNDARY_EDGE_LABELS[edge]}</div>
+                <select
+                  className="select-input"
+                  value={boundaries[edge]}
+                  onChange={(e) => actions.updateParameters({
+                    boundaries: resolveBoundaries(pairBoundary(boundaries, edge, e.target.value as BoundaryType))
+                  })}
+                >
+                  {(Object.keys(BOUNDARY_TYPE_LABELS) as BoundaryType[]).map(type => (
+                    <option key={type} value={type}>{BOUNDARY_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Terrain */}
+        <div className="control-group">
+          <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <Mountain style={{ width: '14px', height: '14px' }} />
+            <span>Terrain</span>
+            <button
+              onClick={() => setActiveTooltip(activeTooltip === 'terrain' ? null : 'terrain')}
+              style={{ background: 'transparent', border: 'none', cursor: 'pointer', padding: '2px', display: 'flex' }}
+              title="Learn more"
+            >
+              <Info size={14} color="#8b5cf6" />
+            </button>
+          </label>
+          {activeTooltip === 'terrain' && (
+            <div style={{
+              fontSize: '11px',
+              background: 'rgba(139, 92, 246, 0.1)',
+              border: '1px solid rgba(139, 92, 246, 0.3)',
+              borderRadius: '6px',
+              padding: '8px',
+              marginBottom: '8px',
+              color: 'var(--text-primary)',
+              lineHeight: 1.4
+            }}>
+              {tooltips.terrain}
+            </div>
+          )}
+          <div className="btn-group">
+            <button
+              className={`btn ${terrainBrush === 'raise' ? 'btn-primary' : 'btn-secondary'}`}
+              onClick={() => actions.setTerrainBrush(terrainBrush === 'raise' ? null : 'raise')}
+              title="Click & drag to raise the ground"
+            >
+              Raise
+            </button>
+            <button
+              className={`btn ${terrainBrush === 'lower' ? 'btn-primary' : 'btn-secondary'}`}
+              onClick={() => actions.setTerrainBrush(terrainBrush === 'lower' ? null : 'lower')}
+              title="Click & drag to lower the ground"
+            >
+              Lower
+            </button>
+            <button
+              className="btn btn-secondary"
+              onClick={() => heightmapInputRef.current?.click()}
+              title="Load a grayscale heightmap (white = high)"
+            >
+              PNG
+            </button>
+            <button
+              className="btn btn-secondary"
+              onClick={() => actions.setTerrain(createGrid(resolution))}
+              title="Flatten the terrain"
+            >
+              Flatten
+            </button>
+          </div>
+          <input
+            type="file"
+            ref={heightmapInputRef}
+            style={{ display: 'none' }}
+            accept="image/png"
+            onChange={handleHeightmapImport}
+          />
+        </div>
+
+        {/* Advection Scheme */}
+        <div className="control-group">
+          <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <Spline style={{ width: '14px', height: '14px' }} />
+            <span>Advection Scheme</span>
+            <button
+              onClick={() => setActiveTooltip(activeTooltip === 'advectionScheme' ? null : 'advectionScheme')}
+              style={{ background: 'transparent', border: 'none', cursor: 'pointer', padding: '2px', display: 'flex' }}
+              title="Learn more"
+            >
+              <Info size={14} color="#8b5cf6" />
+            </button>
+          </label>
+          {activeTooltip === 'advectionScheme' && (
+            <div style={{
+              fontSize: '11px',
+              background: 'rgba(139, 92, 246, 0.1)',
+              border: '1px solid rgba(139, 92, 246, 0.3)',
+              borderRadius: '6px',
+              padding: '8px',
+              marginBottom: '8px',
+              color: 'var(--text-primary)',
+              lineHeight: 1.4
+            }}>
+              {tooltips.advectionScheme}
+            </div>
+          )}
+          <div className="select-container">
+            <select
+              className="select-input"
+              value={parameters.advectionScheme ?? DEFAULT_ADVECTION_SCHEME}
+              onChange={(e) => actions.updateParameters({ advectionScheme: e.target.value as AdvectionScheme })}
+            >
+              {(Object.keys(ADVECTION_SCHEME_LABELS) as AdvectionScheme[]).map(scheme => (
+                <option key={scheme} value={scheme}>{ADVECTION_SCHEME_LABELS[scheme]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Turbulence */}
+        <div className="control-group">
+          <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <Tornado style={{ width: '14px', height: '14px' }} />
+            <span>Turbulence</span>
+            <button
+              onClick={() => setActiveTooltip(activeTooltip === 'turbulence' ? null : 'turbulence')}
+              style={{ background: 'transparent', border: 'none', cursor: 'pointer', padding: '2px', display: 'flex' }}
+              title="Learn more"
+            >
+              <Info size={14} color="#8b5cf6" />
+            </button>
+          </label>
+          {activeTooltip === 'turbulence' && (
+            <div style={{
+              fontSize: '11px',
+              background: 'rgba(139, 92, 246, 0.1)',
+              border: '1px solid rgba(139, 92, 246, 0.3)',
+              borderRadius: '6px',
+              padding: '8px',
+              marginBottom: '8px',
+              color: 'var(--text-primary)',
+              lineHeight: 1.4
+            }}>
+              {tooltips.turbulence}
+            </div>
+          )}
+          <div className="select-container">
+            <select
+              className="select-input"
+              value={parameters.turbulenceModel ?? DEFAULT_TURBULENCE_MODEL}
+              onChange={(e) => actions.updateParameters({ turbulenceModel: e.target.value as TurbulenceModel })}
+            >
+              {(Object.keys(TURBULENCE_MODEL_LABELS) as TurbulenceModel[]).map(model => (
+                <option key={model} value={model}>{TURBULENCE_MODEL_LABELS[model]}</option>
+              ))}
+            </select>
+          </div>
+          {(parameters.turbulenceModel ?? DEFAULT_TURBULENCE_MODEL) === 'smagorinsky' && (
+            <>
+              <label className="control-label" style={{ marginTop: '8px' }}>
+                Smagorinsky Constant
+                <span className="control-value">{(parameters.smagorinskyConstant ?? DEFAULT_SMAGORINSKY_CONSTANT).toFixed(2)}</span>
+              </label>
+              <div className="range-container">
+                <input
+                  type="range"
+                  className="range-input"
+                  min="0.05"
+                  max="0.3"
+                  step="0.01"
+                  value={parameters.smagorinskyConstant ?? DEFAULT_SMAGORINSKY_CONSTANT}
+                  onChange={(e) => actions.updateParameters({ smagorinskyConstant: Number(e.target.value) })}
+                />
+              </div>
+            </>
+          )}
+          <label className="control-label" style={{ marginTop: '8px' }}>
+            Vorticity Confinement
+            <span className="control-value">
+              {(parameters.vorticityConfinement ?? DEFAULT_VORTICITY_CONFINEMENT) > 0
+                ? (parameters.vorticityConfinement ?? DEFAULT_VORTICITY_CONFINEMENT).toFixed(1)
+                : 'Off'}
+            </span>
+          </label>
+          <div className="range-container">
+            <input
+              type="range"
+              className="range-input"
+              min="0"
+              max={MAX_VORTICITY_CONFINEMENT}
+              step="0.5"
+              value={parameters.vorticityConfinement ?? DEFAULT_VORTICITY_CONFINEMENT}
+              onChange={(e) => actions.updateParameters({ vorticityConfinement: Number(e.target.value) })}
+            />
+          </div>
+        </div>
       </div>
 
       {/* Pollution Type */}
@@ -630,20 +1248,21 @@ export const ControlPanel: React.FC = () => {
         <div className="select-container">
           <select
             className="select-input"
-            value={sources[0]?.type || 'CO2'}
+            value={sources[0]?.type || mediumSpecies[0]}
             onChange={(e) => {
               // Update first source type
               const newType = e.target.value as keyof typeof POLLUTANT_TYPES;
               actions.removeSource(0);
               actions.addSource({
-                x: sources[0]?.x || GRID_SIZE / 2,
-                y: sources[0]?.y || GRID_SIZE / 2,
+                ...sources[0],
+                x: sources[0]?.x || Math.floor(resolution.width / 2),
+                y: sources[0]?.y || Math.floor(resolution.height / 2),
                 type: newType
               });
             }}
           >
-            {Object.entries(POLLUTANT_TYPES).map(([key, type]) => (
-              <option key={key} value={key}>{type.name}</option>
+            {mediumSpecies.map(key => (
+              <option key={key} value={key}>{POLLUTANT_TYPES[key].name}</option>
             ))}
           </select>
         </div>
@@ -651,21 +1270,134 @@ export const ControlPanel: React.FC = () => {
 
       {/* Pollution Sources */}
       <div className="control-group boxed-control" data-tour="pollution-sources">
-        <label className="control-label">
-          Pollution Sources ({sources.length})
+        <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <div style={{ flex: 1 }}>Pollution Sources ({sources.length})</div>
+          <button
+            onClick={() => setActiveTooltip(activeTooltip === 'puff' ? null : 'puff')}
+            style={{ background: 'transparent', border: 'none', cursor: 'pointer', padding: '2px', display: 'flex' }}
+            title="Learn more"
+          >
+            <Info size={14} color="#8b5cf6" />
+          </button>
         </label>
-        <button
-          className="btn btn-secondary ripple scale-hover"
-          onClick={() => actions.addSource({
-            x: Math.floor(GRID_SIZE / 2),
-            y: Math.floor(GRID_SIZE / 2),
-            type: 'CO2'
-          })}
-          style={{ width: '100%', marginBottom: '8px' }}
-        >
-          <Plus style={{ width: '14px', height: '14px', marginRight: '4px' }} />
-          Add Source
+        {activeTooltip === 'puff' && (
+          <div style={{
+            background: 'rgba(139, 92, 246, 0.1)',
+            border: '1px solid rgba(139, 92, 246, 0.3)',
+            borderRadius: '6px',
+            padding: '8px',
+            fontSize: '12px',
+            marginBottom: '8px',
+            color: '#a78bfa'
+          }}>
+            {tooltips.puff}
+          </div>
+        )}
+        <button
+          className="btn btn-secondary ripple scale-hover"
+          onClick={() => actions.addSource({
+            x: Math.floor(resolution.width / 2),
+            y: Math.floor(resolution.height / 2),
+            type: mediumSpecies[0]
+          })}
+          style={{ width: '100%', marginBottom: '8px' }}
+        >
+          <Plus style={{ width: '14px', height: '14px', marginRight: '4px' }} />
+          Add Source
         </button>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', marginBottom: '8px' }}>
+          <button
+            className="btn btn-secondary ripple scale-hover"
+            onClick={() => actions.addSource(createPuffSource(
+              Math.floor(resolution.width / 2), Math.floor(resolution.height / 2), sources[0]?.type || mediumSpecies[0], simulationTime
+            ))}
+            title="Release a puff of the selected pollutant at the centre, now"
+          >
+            <Bomb style={{ width: '14px', height: '14px', marginRight: '4px' }} />
+            Add Puff
+          </button>
+          <button
+            className={`btn ${isPlacingPuff ? 'btn-primary' : 'btn-secondary'} ripple scale-hover`}
+            onClick={actions.togglePuffPlacement}
+            title="Click the map to release a puff of the selected pollutant there, now"
+          >
+            <Crosshair style={{ width: '14px', height: '14px', marginRight: '4px' }} />
+            {isPlacingPuff ? 'Click map…' : 'Place Puff'}
+          </button>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '8px' }}>
+          {sourceDrawing ? (
+            <>
+              <button
+                className="btn btn-primary ripple scale-hover"
+                onClick={actions.finishSourceDrawing}
+                disabled={sourceDrawing.path.length < MIN_DRAWING_VERTICES[sourceDrawing.kind]}
+                title="Finish drawing (Enter, or double-click the map)"
+                style={{ flex: 1 }}
+              >
+                <Check style={{ width: '14px', height: '14px', marginRight: '4px' }} />
+                Finish {DRAWING_LABELS[sourceDrawing.kind]} ({sourceDrawing.path.length} pts)
+              </button>
+              <button
+                className="btn btn-secondary ripple scale-hover"
+                onClick={actions.cancelSourceDrawing}
+                title="Cancel drawing (Esc)"
+              >
+                <X style={{ width: '14px', height: '14px' }} />
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                className="btn btn-secondary ripple scale-hover"
+                onClick={() => actions.startSourceDrawing('line')}
+                title="Draw a road or other line source of the selected pollutant on the map"
+                style={{ flex: 1 }}
+              >
+                <Route style={{ width: '14px', height: '14px', marginRight: '4px' }} />
+                Line
+              </button>
+              <button
+                className="btn btn-secondary ripple scale-hover"
+                onClick={() => actions.startSourceDrawing('area')}
+                title="Draw a field, burn area or other area source of the selected pollutant on the map"
+                style={{ flex: 1 }}
+              >
+                <Hexagon style={{ width: '14px', height: '14px', marginRight: '4px' }} />
+                Area
+              </button>
+              <button
+                className="btn btn-secondary ripple scale-hover"
+                onClick={() => actions.startSourceDrawing('route')}
+                title="Draw the route of a ship, convoy or other moving source of the selected pollutant on the map"
+                style={{ flex: 1 }}
+              >
+                <Ship style={{ width: '14px', height: '14px', marginRight: '4px' }} />
+                Route
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => setActiveTooltip(activeTooltip === 'extendedSources' ? null : 'extendedSources')}
+            style={{ background: 'transparent', border: 'none', cursor: 'pointer', padding: '2px', display: 'flex' }}
+            title="Learn more"
+          >
+            <Info size={14} color="#8b5cf6" />
+          </button>
+        </div>
+        {activeTooltip === 'extendedSources' && (
+          <div style={{
+            background: 'rgba(139, 92, 246, 0.1)',
+            border: '1px solid rgba(139, 92, 246, 0.3)',
+            borderRadius: '6px',
+            padding: '8px',
+            fontSize: '12px',
+            marginBottom: '8px',
+            color: '#a78bfa'
+          }}>
+            {tooltips.extendedSources}
+          </div>
+        )}
         {sources.map((source, index) => (
           <div key={index} className="source-item" style={{
             background: 'var(--bg-secondary)',
@@ -729,16 +1461,24 @@ export const ControlPanel: React.FC = () => {
                 alignItems: 'center',
                 gap: '6px'
               }}>
-                <MapPin size={12} color="var(--text-secondary)" />
+                {isLineSource(source) ? <Route size={12} color="var(--text-secondary)" />
+                  : isAreaSource(source) ? <Hexagon size={12} color="var(--text-secondary)" />
+                    : isMovingSource(source) ? <Ship size={12} color="var(--text-secondary)" />
+                      : <MapPin size={12} color="var(--text-secondary)" />}
                 <div style={{ display: 'flex', flexDirection: 'column' }}>
-                  <span style={{ fontSize: '10px', color: 'var(--text-secondary)', lineHeight: 1 }}>Position</span>
+                  <span style={{ fontSize: '10px', color: 'var(--text-secondary)', lineHeight: 1 }}>
+                    {isLineSource(source) ? 'Length' : isAreaSource(source) ? 'Area' : 'Position'}
+                  </span>
                   <span style={{ fontSize: '11px', fontWeight: 600, color: 'var(--text-primary)' }}>
-                    {source.x}, {source.y}
+                    {isLineSource(source) ? `${getPathLength(source.path!).toFixed(1)} cells`
+                      : isAreaSource(source) ? `${getPolygonArea(source.path!).toFixed(0)} cells²`
+                        : isMovingSource(source) ? formatRoutePosition(source, simulationTime)
+                          : `${source.x}, ${source.y}`}
                   </span>
                 </div>
               </div>
 
-              {/* Emission Metric */}
+              {/* Emission Metric (total mass for a puff) */}
               <div style={{
                 background: 'var(--bg-tertiary)',
                 padding: '6px 8px',
@@ -747,34 +1487,323 @@ export const ControlPanel: React.FC = () => {
                 alignItems: 'center',
                 gap: '6px'
               }}>
-                <Activity size={12} color="var(--text-secondary)" />
+                {isPuff(source) ? <Bomb size={12} color="var(--text-secondary)" /> : <Activity size={12} color="var(--text-secondary)" />}
                 <div style={{ display: 'flex', flexDirection: 'column' }}>
-                  <span style={{ fontSize: '10px', color: 'var(--text-secondary)', lineHeight: 1 }}>Emission</span>
+                  <span style={{ fontSize: '10px', color: 'var(--text-secondary)', lineHeight: 1 }}>{isPuff(source) ? 'Puff' : 'Emission'}</span>
                   <span style={{ fontSize: '11px', fontWeight: 600, color: 'var(--text-primary)' }}>
-                    {source.releaseRate !== undefined ? source.releaseRate : parameters.releaseRate}%
+                    {isPuff(source)
+                      ? (source.puffTime ?? 0) > simulationTime ? `at ${formatClock(source.puffTime ?? 0)}` : 'Released'
+                      : `${source.releaseRate !== undefined ? source.releaseRate : parameters.releaseRate}%${isExtendedSource(source) ? ' /cell' : ''}`}
                   </span>
                 </div>
               </div>
             </div>
 
-            {/* Slider */}
+            {isPuff(source) && (
+              <>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr auto', gap: '6px', alignItems: 'end' }}>
+                  {numberInput('Mass', source.puffMass ?? 0, puffMass => {
+                    const newSources = [...sources];
+                    newSources[index] = { ...newSources[index], puffMass };
+                    actions.setSources(newSources);
+                  }, undefined, 100)}
+                  {numberInput('Time (h)', source.puffTime ?? 0, puffTime => {
+                    const newSources = [...sources];
+                    newSources[index] = { ...newSources[index], puffTime };
+                    actions.setSources(newSources);
+                  }, undefined, 0.05)}
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => {
+                      const newSources = [...sources];
+                      newSources[index] = { ...newSources[index], puffTime: simulationTime };
+                      actions.setSources(newSources);
+                    }}
+                    title="Release it again at the current simulation time"
+                    style={{ padding: '2px 8px', minHeight: 'unset', fontSize: '11px' }}
+                  >
+                    Now
+                  </button>
+                </div>
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '10px', color: 'var(--text-secondary)', marginTop: '8px' }}>
+                  <span>Spread Radius</span>
+                  <span style={{ fontWeight: 600, color: 'var(--text-primary)' }}>{source.puffRadius ?? 0} cells</span>
+                </div>
+                <input
+                  type="range"
+                  min="1"
+                  max={MAX_PUFF_RADIUS}
+                  step="1"
+                  className="range-input"
+                  value={source.puffRadius ?? 1}
+                  onChange={(e) => {
+                    const newSources = [...sources];
+                    newSources[index] = { ...newSources[index], puffRadius: Number(e.target.value) };
+                    actions.setSources(newSources);
+                  }}
+                  title="Radius the mass is spread over when it is released"
+                  style={{ width: '100%', cursor: 'grab' }}
+                />
+              </>
+            )}
+
+            {isMovingSource(source) && (() => {
+              const trail = sourceTrails.find(candidate => candidate.source === index && candidate.species === source.type);
+              return (
+                <div style={{ marginBottom: '8px' }}>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '10px', color: 'var(--text-secondary)' }}>
+                    <span style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                      <Ship size={12} />
+                      Speed
+                    </span>
+                    <span style={{ fontWeight: 600, color: 'var(--text-primary)' }}>
+                      {source.speed ?? DEFAULT_SOURCE_SPEED} cells/h · {getRouteLength(source).toFixed(0)} cells per {source.routeMode === 'loop' ? 'lap' : 'trip'}
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max={MAX_SOURCE_SPEED}
+                    step="10"
+                    className="range-input"
+                    value={source.speed ?? DEFAULT_SOURCE_SPEED}
+                    onChange={(e) => updateSource(index, { speed: Number(e.target.value) })}
+                    title="How fast the source travels along its route (60 cells/h is one cell per simulated minute)"
+                    style={{ width: '100%', cursor: 'grab' }}
+                  />
+                  <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr auto', gap: '6px', alignItems: 'end', marginTop: '6px' }}>
+                    <label style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '10px', color: 'var(--text-secondary)' }}>
+                      Route
+                      <select
+                        className="select-input"
+                        value={source.routeMode ?? 'oneWay'}
+                        onChange={(e) => updateSource(index, { routeMode: e.target.value as RouteMode })}
+                        style={{ width: '100%', padding: '2px 4px', fontSize: '11px' }}
+                      >
+                        {(Object.keys(ROUTE_MODE_LABELS) as RouteMode[]).map(mode => (
+                          <option key={mode} value={mode}>{ROUTE_MODE_LABELS[mode]}</option>
+                        ))}
+                      </select>
+                    </label>
+                    {numberInput('Departs (h)', source.departureTime ?? 0, departureTime => updateSource(index, { departureTime }), undefined, 0.05)}
+                    <button
+                      className="btn btn-secondary"
+                      onClick={() => updateSource(index, { departureTime: simulationTime })}
+                      title="Set off from the first waypoint at the current simulation time"
+                      style={{ padding: '2px 8px', minHeight: 'unset', fontSize: '11px' }}
+                    >
+                      Now
+                    </button>
+                  </div>
+                  {trail && trail.points.length > 1 && (
+                    <button
+                      className="btn btn-secondary"
+                      onClick={() => downloadTrailCSV(trail)}
+                      title="Download where the source has emitted from since the reset"
+                      style={{ width: '100%', marginTop: '6px', padding: '2px 8px', minHeight: 'unset', fontSize: '11px' }}
+                    >
+                      <Download size={12} style={{ marginRight: '4px' }} />
+                      Trail CSV ({trail.points.length} points)
+                    </button>
+                  )}
+                </div>
+              );
+            })()}
+
+            {(isExtendedSource(source) || isMovingSource(source)) && (
+              <div style={{ marginBottom: '8px' }}>
+                <div style={{ fontSize: '10px', color: 'var(--text-secondary)', marginBottom: '4px' }}>
+                  {isMovingSource(source) ? 'Waypoints' : isLineSource(source) ? 'Vertices' : 'Corners'}
+                </div>
+                {getOutline(source).map((point, vertex) => (
+                  <div key={vertex} style={{ display: 'grid', gridTemplateColumns: '1fr 1fr auto', gap: '6px', alignItems: 'end', marginBottom: '4px' }}>
+                    {numberInput(`x${vertex + 1}`, point.x, x => setVertex(index, vertex, { ...point, x: Math.min(resolution.width - 1, Math.round(x)) }), resolution.width - 1)}
+                    {numberInput(`y${vertex + 1}`, point.y, y => setVertex(index, vertex, { ...point, y: Math.min(resolution.height - 1, Math.round(y)) }), resolution.height - 1)}
+                    <button
+                      className="btn btn-secondary"
+                      onClick={() => setPath(index, getOutline(source).filter((_, n) => n !== vertex))}
+                      disabled={getOutline(source).length <= getMinOutline(source)}
+                      title="Remove this vertex"
+                      style={{ padding: '2px 6px', minHeight: 'unset' }}
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {!isPuff(source) && (
+              <>
+                {/* Slider */}
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  step="1"
+                  className="range-input"
+                  value={source.releaseRate !== undefined ? source.releaseRate : parameters.releaseRate}
+                  onChange={(e) => {
+                    const newSources = [...sources];
+                    newSources[index] = { ...newSources[index], releaseRate: Number(e.target.value) };
+                    actions.setSources(newSources);
+                  }}
+                  title={isExtendedSource(source) ? 'Drag to adjust emission per cell of length or area' : 'Drag to adjust emission intensity'}
+                  style={{ width: '100%', cursor: 'grab' }}
+                />
+
+                {/* Release Temperature */}
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '10px', color: 'var(--text-secondary)', marginTop: '8px' }}>
+                  <span style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    <Thermometer size={12} />
+                    Release Temp
+                  </span>
+                  <span style={{ fontWeight: 600, color: 'var(--text-primary)' }}>
+                    {(source.releaseTemperature ?? 0) > 0 ? '+' : ''}{source.releaseTemperature ?? 0} K
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min="-20"
+                  max="200"
+                  step="5"
+                  className="range-input"
+                  value={source.releaseTemperature ?? 0}
+                  onChange={(e) => {
+                    const newSources = [...sources];
+                    newSources[index] = { ...newSources[index], releaseTemperature: Number(e.target.value) };
+                    actions.setSources(newSources);
+                  }}
+                  title="Exit temperature above ambient: hot plumes rise, cold releases pool"
+                  style={{ width: '100%', cursor: 'grab' }}
+                />
+              </>
+            )}
+
+            {/* Stack Height */}
+            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '10px', color: 'var(--text-secondary)', marginTop: '8px' }}>
+              <span style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                <Factory size={12} />
+                Stack Height
+              </span>
+              <span
+                style={{ fontWeight: 600, color: 'var(--text-primary)' }}
+                title="Stack height plus the Briggs rise of the plume at the current wind and stability"
+              >
+                {source.stackHeight ?? 0} m · {getEffectiveStackHeight(source, parameters.windSpeed * WIND_SPEED_SCALE, resolveStabilityClass(parameters)).toFixed(0)} m effective
+              </span>
+            </div>
             <input
               type="range"
               min="0"
-              max="100"
-              step="1"
+              max="300"
+              step="10"
               className="range-input"
-              value={source.releaseRate !== undefined ? source.releaseRate : parameters.releaseRate}
+              value={source.stackHeight ?? 0}
               onChange={(e) => {
                 const newSources = [...sources];
-                newSources[index] = { ...newSources[index], releaseRate: Number(e.target.value) };
+                newSources[index] = { ...newSources[index], stackHeight: Number(e.target.value) };
                 actions.setSources(newSources);
               }}
-              title="Drag to adjust emission intensity"
+              title="Height of the release above the ground (0 for ground-level sources)"
               style={{ width: '100%', cursor: 'grab' }}
             />
+
+            {/* Stack exit: the jet and, with the release temperature, the buoyancy that lift the plume */}
+            {(source.stackHeight ?? 0) > 0 && (
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px', marginTop: '6px' }}>
+                {numberInput('Exit velocity (m/s)', source.exitVelocity ?? DEFAULT_EXIT_VELOCITY,
+                  exitVelocity => updateSource(index, { exitVelocity }), MAX_EXIT_VELOCITY, 1)}
+                {numberInput('Diameter (m)', source.stackDiameter ?? DEFAULT_STACK_DIAMETER,
+                  stackDiameter => updateSource(index, { stackDiameter }), MAX_STACK_DIAMETER, 0.5)}
+              </div>
+            )}
+
+            {/* Emission Schedule */}
+            {!isPuff(source) && (
+              <>
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '10px', color: 'var(--text-secondary)', marginTop: '8px' }}>
+                  <span style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    <Clock size={12} />
+                    Schedule
+                  </span>
+                  <span style={{ fontWeight: 600, color: 'var(--text-primary)' }} title="Release rate multiplier at the current simulation time">
+                    ×{getScheduleFactor(source.schedule, simulationTime).toFixed(2)} at {formatClock(simulationTime)}
+                  </span>
+                </div>
+                <select
+                  className="select-input"
+                  value={source.schedule?.kind ?? 'constant'}
+                  onChange={(e) => setSchedule(index, createSchedule(e.target.value as EmissionScheduleKind))}
+                  style={{ width: '100%', marginTop: '4px', fontSize: '11px' }}
+                >
+                  {(Object.keys(SCHEDULE_KIND_LABELS) as EmissionScheduleKind[]).map(kind => (
+                    <option key={kind} value={kind}>{SCHEDULE_KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+                {source.schedule?.kind === 'onOff' && (() => {
+                  const schedule = source.schedule;
+                  return (
+                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '6px', marginTop: '6px' }}>
+                      {numberInput('On (h)', schedule.onHours, onHours => setSchedule(index, { ...schedule, onHours }))}
+                      {numberInput('Off (h)', schedule.offHours, offHours => setSchedule(index, { ...schedule, offHours }))}
+                      {numberInput('From (h)', schedule.startHour ?? 0, startHour => setSchedule(index, { ...schedule, startHour }), HOURS_PER_DAY)}
+                    </div>
+                  );
+                })()}
+                {source.schedule?.kind === 'diurnal' && (() => {
+                  const schedule = source.schedule;
+                  return (
+                    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(6, 1fr)', gap: '4px', marginTop: '6px' }}>
+                      {schedule.profile.map((factor, hour) => numberInput(`${String(hour).padStart(2, '0')}h`, factor, value => {
+                        const profile = [...schedule.profile];
+                        profile[hour] = value;
+                        setSchedule(index, { ...schedule, profile });
+                      }, undefined, 0.1))}
+                    </div>
+                  );
+                })()}
+                {source.schedule?.kind === 'ramp' && (() => {
+                  const schedule = source.schedule;
+                  return (
+                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1fr', gap: '6px', marginTop: '6px' }}>
+                      {numberInput('From ×', schedule.from, from => setSchedule(index, { ...schedule, from }), undefined, 0.1)}
+                      {numberInput('To ×', schedule.to, to => setSchedule(index, { ...schedule, to }), undefined, 0.1)}
+                      {numberInput('Start (h)', schedule.startHour, startHour => setSchedule(index, { ...schedule, startHour }))}
+                      {numberInput('End (h)', schedule.endHour, endHour => setSchedule(index, { ...schedule, endHour }))}
+                    </div>
+                  );
+                })()}
+                {source.schedule?.kind === 'piecewise' && (
+                  <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '6px', marginTop: '6px', fontSize: '10px', color: 'var(--text-secondary)' }}>
+                    <span>
+                      {source.schedule.points.length} points, {source.schedule.points[0]?.hour ?? 0}–{source.schedule.points[source.schedule.points.length - 1]?.hour ?? 0} h
+                    </span>
+                    <button
+                      className="btn btn-secondary"
+                      onClick={() => {
+                        setScheduleTarget(index);
+                        scheduleInputRef.current?.click();
+                      }}
+                      title='Load a CSV with one "hour,factor" row per line'
+                      style={{ padding: '2px 8px', minHeight: 'unset', fontSize: '11px' }}
+                    >
+                      <Upload size={12} style={{ marginRight: '4px' }} />
+                      CSV
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
           </div>
         ))}
+        <input
+          type="file"
+          ref={scheduleInputRef}
+          style={{ display: 'none' }}
+          accept=".csv,text/csv"
+          onChange={handleScheduleImport}
+        />
       </div>
 
 
@@ -782,12 +1811,112 @@ export const ControlPanel: React.FC = () => {
       <div className="control-section">
         <h3 className="section-title">Environment</h3>
 
+        {/* Air or Water Domain */}
+        <div className="control-group">
+          <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
+            <div style={{ display: 'flex', alignItems: 'center', flex: 1 }}>
+              <Droplets style={{ width: '14px', height: '14px', marginRight: '4px' }} />
+              Domain
+            </div>
+            <button
+              onClick={() => setActiveTooltip(activeTooltip === 'waterDomain' ? null : 'waterDomain')}
+              style={{ background: 'transparent', border: 'none', cursor: 'pointer', padding: '2px', display: 'flex' }}
+              title="Learn more"
+            >
+              <Info size={14} color="#8b5cf6" />
+            </button>
+          </label>
+          {activeTooltip === 'waterDomain' && (
+            <div style={{
+              fontSize: '11px',
+              background: 'rgba(139, 92, 246, 0.1)',
+              border: '1px solid rgba(139, 92, 246, 0.3)',
+              borderRadius: '6px',
+              padding: '8px',
+              marginBottom: '8px',
+              color: 'var(--text-primary)',
+              lineHeight: 1.4
+            }}>
+              {tooltips.waterDomain}
+            </div>
+          )}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', marginBottom: '8px' }}>
+            <button
+              className={`btn ${water ? 'btn-secondary' : 'btn-primary'}`}
+              onClick={() => water && actions.setMedium('air')}
+              title="Air over the ground; restores the default settings and clears the domain"
+            >
+              <Wind style={{ width: '14px', height: '14px', marginRight: '4px' }} />
+              Air
+            </button>
+            <button
+              className={`btn ${water ? 'btn-primary' : 'btn-secondary'}`}
+              onClick={() => !water && actions.setMedium('water', 'river')}
+              title="A river, lake or coast seen from above; loads the river preset and clears the domain"
+            >
+              <Waves style={{ width: '14px', height: '14px', marginRight: '4px' }} />
+              Water
+            </button>
+          </div>
+          {water && (
+            <>
+              <div className="select-container">
+                <select
+                  className="select-input"
+                  value=""
+                  onChange={(e) => e.target.value && actions.setMedium('water', e.target.value as WaterPresetId)}
+                  title="Replace the banks, current and tide with a preset (clears the domain)"
+                >
+                  <option value="" disabled>Load a preset…</option>
+                  {(Object.keys(WATER_PRESETS) as WaterPresetId[]).map(preset => (
+                    <option key={preset} value={preset}>{WATER_PRESETS[preset].name} – {WATER_PRESETS[preset].description}</option>
+                  ))}
+                </select>
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px', marginTop: '8px' }}>
+                <label style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '10px', color: 'var(--text-secondary)' }}>
+                  Current profile
+                  <select
+                    className="select-input"
+                    value={parameters.riverProfile ?? DEFAULT_RIVER_PROFILE}
+                    onChange={(e) => actions.updateParameters({ riverProfile: e.target.value as RiverProfile })}
+                    style={{ width: '100%', padding: '2px 4px', fontSize: '11px' }}
+                  >
+                    {(Object.keys(RIVER_PROFILE_LABELS) as RiverProfile[]).map(profile => (
+                      <option key={profile} value={profile}>{RIVER_PROFILE_LABELS[profile]}</option>
+                    ))}
+                  </select>
+                </label>
+                {numberInput('Tidal period (h)', parameters.tidalPeriod ?? DEFAULT_TIDAL_PERIOD,
+                  tidalPeriod => actions.updateParameters({ tidalPeriod }), undefined, 0.5)}
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '10px', color: 'var(--text-secondary)', marginTop: '8px' }}>
+                <span>Tidal current</span>
+                <span style={{ fontWeight: 600, color: 'var(--text-primary)' }} title="Tidal part of the current at the current simulation time">
+                  ±{(parameters.tidalAmplitude ?? 0).toFixed(1)} · now {formatTide(getTidalCurrent(parameters, simulationTime))}
+                </span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max={MAX_TIDAL_AMPLITUDE}
+                step="0.1"
+                className="range-input"
+                value={parameters.tidalAmplitude ?? 0}
+                onChange={(e) => actions.updateParameters({ tidalAmplitude: Number(e.target.value) })}
+                title="Peak tidal current, in the same units as the current speed (0 for no tide)"
+                style={{ width: '100%', cursor: 'grab' }}
+              />
+            </>
+          )}
+        </div>
+
         {/* Wind Direction */}
         <div className="control-group">
           <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
             <div style={{ display: 'flex', alignItems: 'center', flex: 1 }}>
               <Wind style={{ width: '14px', height: '14px', marginRight: '4px' }} />
-              Wind Direction
+              {water ? 'Current Direction' : 'Wind Direction'}
             </div>
             <button
               onClick={() => setActiveTooltip(activeTooltip === 'windDirection' ? null : 'windDirection')}
@@ -809,7 +1938,7 @@ export const ControlPanel: React.FC = () => {
               color: 'var(--text-primary)',
               lineHeight: 1.4
             }}>
-              {tooltips.windDirection}
+              {water ? tooltips.currentDirection : tooltips.windDirection}
             </div>
           )}
           <div className="range-container">
@@ -830,7 +1959,7 @@ export const ControlPanel: React.FC = () => {
           <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
             <div style={{ display: 'flex', alignItems: 'center', flex: 1 }}>
               <Wind style={{ width: '14px', height: '14px', marginRight: '4px' }} />
-              Wind Speed
+              {water ? 'Current Speed' : 'Wind Speed'}
             </div>
             <button
               onClick={() => setActiveTooltip(activeTooltip === 'windSpeed' ? null : 'windSpeed')}
@@ -852,7 +1981,7 @@ export const ControlPanel: React.FC = () => {
               color: 'var(--text-primary)',
               lineHeight: 1.4
             }}>
-              {tooltips.windSpeed}
+              {water ? tooltips.currentSpeed : tooltips.windSpeed}
             </div>
           )}
           <div className="range-container">
@@ -953,6 +2082,326 @@ export const ControlPanel: React.FC = () => {
             />
           </div>
         </div>
+
+        {/* Sunlight */}
+        <div className="control-group">
+          <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
+            <div style={{ display: 'flex', alignItems: 'center', flex: 1 }}>
+              <Sun style={{ width: '14px', height: '14px', marginRight: '4px' }} />
+              Sunlight
+            </div>
+            <button
+              onClick={() => setActiveTooltip(activeTooltip === 'sunIntensity' ? null : 'sunIntensity')}
+              style={{ background: 'transparent', border: 'none', cursor: 'pointer', padding: '2px', display: 'flex' }}
+              title="Learn more"
+            >
+              <Info size={14} color="#8b5cf6" />
+            </button>
+            <span className="control-value">{Math.round((parameters.sunIntensity ?? 0) * 100)}%</span>
+          </label>
+          {activeTooltip === 'sunIntensity' && (
+            <div style={{
+              fontSize: '11px',
+              background: 'rgba(139, 92, 246, 0.1)',
+              border: '1px solid rgba(139, 92, 246, 0.3)',
+              borderRadius: '6px',
+              padding: '8px',
+              marginBottom: '8px',
+              color: 'var(--text-primary)',
+              lineHeight: 1.4
+            }}>
+              {tooltips.sunIntensity}
+            </div>
+          )}
+          <div className="range-container">
+            <input
+              type="range"
+              className="range-input"
+              min="0"
+              max="1"
+              step="0.05"
+              value={parameters.sunIntensity ?? 0}
+              onChange={(e) => actions.updateParameters({ sunIntensity: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        {/* Vertical Layers */}
+        <div className="control-group">
+          <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
+            <div style={{ display: 'flex', alignItems: 'center', flex: 1 }}>
+              <Layers style={{ width: '14px', height: '14px', marginRight: '4px' }} />
+              Vertical Layers
+            </div>
+            <button
+              onClick={() => setActiveTooltip(activeTooltip === 'verticalLayers' ? null : 'verticalLayers')}
+              style={{ background: 'transparent', border: 'none', cursor: 'pointer', padding: '2px', display: 'flex' }}
+              title="Learn more"
+            >
+              <Info size={14} color="#8b5cf6" />
+            </button>
+            <span className="control-value">{getLayerCount(parameters.verticalLayers)}</span>
+          </label>
+          {activeTooltip === 'verticalLayers' && (
+            <div style={{
+              fontSize: '11px',
+              background: 'rgba(139, 92, 246, 0.1)',
+              border: '1px solid rgba(139, 92, 246, 0.3)',
+              borderRadius: '6px',
+              padding: '8px',
+              marginBottom: '8px',
+              color: 'var(--text-primary)',
+              lineHeight: 1.4
+            }}>
+              {tooltips.verticalLayers}
+            </div>
+          )}
+          <div className="range-container">
+            <input
+              type="range"
+              className="range-input"
+              min="1"
+              max={MAX_VERTICAL_LAYERS}
+              step="1"
+              value={getLayerCount(parameters.verticalLayers)}
+              onChange={(e) => actions.updateParameters({ verticalLayers: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        {/* Mixing Height */}
+        <div className="control-group">
+          <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
+            <div style={{ display: 'flex', alignItems: 'center', flex: 1 }}>
+              <ArrowUpToLine style={{ width: '14px', height: '14px', marginRight: '4px' }} />
+              Mixing Height
+            </div>
+            <button
+              onClick={() => setActiveTooltip(activeTooltip === 'mixingHeight' ? null : 'mixingHeight')}
+              style={{ background: 'transparent', border: 'none', cursor: 'pointer', padding: '2px', display: 'flex' }}
+              title="Learn more"
+            >
+              <Info size={14} color="#8b5cf6" />
+            </button>
+            <span className="control-value">
+              {(parameters.mixingHeight ?? DEFAULT_MIXING_HEIGHT) >= MODEL_TOP_HEIGHT
+                ? 'No lid'
+                : `${parameters.mixingHeight} m`}
+            </span>
+          </label>
+          {activeTooltip === 'mixingHeight' && (
+            <div style={{
+              fontSize: '11px',
+              background: 'rgba(139, 92, 246, 0.1)',
+              border: '1px solid rgba(139, 92, 246, 0.3)',
+              borderRadius: '6px',
+              padding: '8px',
+              marginBottom: '8px',
+              color: 'var(--text-primary)',
+              lineHeight: 1.4
+            }}>
+              {tooltips.mixingHeight}
+            </div>
+          )}
+          <div className="range-container">
+            <input
+              type="range"
+              className="range-input"
+              min="50"
+              max={MODEL_TOP_HEIGHT}
+              step="25"
+              value={parameters.mixingHeight ?? DEFAULT_MIXING_HEIGHT}
+              disabled={getLayerCount(parameters.verticalLayers) === 1}
+              onChange={(e) => actions.updateParameters({ mixingHeight: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        {/* Stability Class */}
+        <div className="control-group">
+          <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <CloudSun style={{ width: '14px', height: '14px' }} />
+            <span>Stability Class</span>
+            <button
+              onClick={() => setActiveTooltip(activeTooltip === 'stabilityClass' ? null : 'stabilityClass')}
+              style={{ background: 'transparent', border: 'none', cursor: 'pointer', padding: '2px', display: 'flex' }}
+              title="Learn more"
+            >
+              <Info size={14} color="#8b5cf6" />
+            </button>
+          </label>
+          {activeTooltip === 'stabilityClass' && (
+            <div style={{
+              fontSize: '11px',
+              background: 'rgba(139, 92, 246, 0.1)',
+              border: '1px solid rgba(139, 92, 246, 0.3)',
+              borderRadius: '6px',
+              padding: '8px',
+              marginBottom: '8px',
+              color: 'var(--text-primary)',
+              lineHeight: 1.4
+            }}>
+              {tooltips.stabilityClass}
+            </div>
+          )}
+          <div className="select-container">
+            <select
+              className="select-input"
+              value={parameters.autoStability ? 'auto' : parameters.stabilityClass ?? DEFAULT_STABILITY_CLASS}
+              onChange={(e) => actions.updateParameters(e.target.value === 'auto'
+                ? { autoStability: true }
+                : { autoStability: false, stabilityClass: e.target.value as StabilityClass })}
+            >
+              <option value="auto">Auto · from weather ({resolveStabilityClass({ ...parameters, autoStability: true })})</option>
+              {STABILITY_CLASSES.map(stabilityClass => (
+                <option key={stabilityClass} value={stabilityClass}>{STABILITY_CLASS_LABELS[stabilityClass]}</option>
+              ))}
+            </select>
+          </div>
+          {parameters.autoStability && (
+            <>
+              <label className="control-label" style={{ marginTop: '8px' }}>
+                Cloud Cover
+                <span className="control-value">{Math.round((parameters.cloudCover ?? DEFAULT_CLOUD_COVER) * 8)}/8</span>
+              </label>
+              <div className="range-container">
+                <input
+                  type="range"
+                  className="range-input"
+                  min="0"
+                  max="1"
+                  step="0.125"
+                  value={parameters.cloudCover ?? DEFAULT_CLOUD_COVER}
+                  onChange={(e) => actions.updateParameters({ cloudCover: Number(e.target.value) })}
+                />
+              </div>
+              <label className="control-label">
+                Time of Day
+                <span className="control-value">{String(parameters.timeOfDay ?? DEFAULT_TIME_OF_DAY).padStart(2, '0')}:00</span>
+              </label>
+              <div className="range-container">
+                <input
+                  type="range"
+                  className="range-input"
+                  min="0"
+                  max="23"
+                  step="1"
+                  value={parameters.timeOfDay ?? DEFAULT_TIME_OF_DAY}
+                  onChange={(e) => actions.updateParameters({ timeOfDay: Number(e.target.value) })}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Rain */}
+        <div className="control-group">
+          <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
+            <div style={{ display: 'flex', alignItems: 'center', flex: 1 }}>
+              <CloudRain style={{ width: '14px', height: '14px', marginRight: '4px' }} />
+              Rain
+            </div>
+            <button
+              onClick={() => setActiveTooltip(activeTooltip === 'rainIntensity' ? null : 'rainIntensity')}
+              style={{ background: 'transparent', border: 'none', cursor: 'pointer', padding: '2px', display: 'flex' }}
+              title="Learn more"
+            >
+              <Info size={14} color="#8b5cf6" />
+            </button>
+            <span className="control-value">
+              {(parameters.rainIntensity ?? 0) > 0 ? `${parameters.rainIntensity} mm/h` : 'Dry'}
+            </span>
+          </label>
+          {activeTooltip === 'rainIntensity' && (
+            <div style={{
+              fontSize: '11px',
+              background: 'rgba(139, 92, 246, 0.1)',
+              border: '1px solid rgba(139, 92, 246, 0.3)',
+              borderRadius: '6px',
+              padding: '8px',
+              marginBottom: '8px',
+              color: 'var(--text-primary)',
+              lineHeight: 1.4
+            }}>
+              {tooltips.rainIntensity}
+            </div>
+          )}
+          <div className="range-container">
+            <input
+              type="range"
+              className="range-input"
+              min="0"
+              max="50"
+              step="1"
+              value={parameters.rainIntensity ?? 0}
+              onChange={(e) => actions.updateParameters({ rainIntensity: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        {/* Ground Deposition */}
+        <div className="control-group">
+          <label className="control-label" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <ArrowDownToLine style={{ width: '14px', height: '14px' }} />
+            <span>Ground Deposition</span>
+            <button
+              onClick={() => setActiveTooltip(activeTooltip === 'deposition' ? null : 'deposition')}
+              style={{ background: 'transparent', border: 'none', cursor: 'pointer', padding: '2px', display: 'flex' }}
+              title="Learn more"
+            >
+              <Info size={14} color="#8b5cf6" />
+            </button>
+          </label>
+          {activeTooltip === 'deposition' && (
+            <div style={{
+              fontSize: '11px',
+              background: 'rgba(139, 92, 246, 0.1)',
+              border: '1px solid rgba(139, 92, 246, 0.3)',
+              borderRadius: '6px',
+              padding: '8px',
+              marginBottom: '8px',
+              color: 'var(--text-primary)',
+              lineHeight: 1.4
+            }}>
+              {tooltips.deposition}
+            </div>
+          )}
+          <div className="select-container">
+            <select
+              className="select-input"
+              value={depositionSpecies ?? 'all'}
+              onChange={(e) => actions.setDepositionSpecies(e.target.value === 'all' ? null : e.target.value as SpeciesId)}
+            >
+              <option value="all">All species</option>
+              {SPECIES_IDS.map(species => (
+                <option key={species} value={species}>{POLLUTANT_TYPES[species].name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="btn-group">
+            <button
+              className={`btn ${showDeposition ? 'btn-primary' : 'btn-secondary'}`}
+              onClick={actions.toggleDepositionLayer}
+              title="Show or hide the deposit on the ground"
+            >
+              {showDeposition ? 'Shown' : 'Hidden'}
+            </button>
+            <button
+              className="btn btn-secondary"
+              onClick={handleExportDepositionCSV}
+              title="Export the deposit per cell and species as CSV"
+            >
+              CSV
+            </button>
+            <button
+              className="btn btn-secondary"
+              onClick={actions.clearDeposition}
+              title="Clear the deposit, keeping the pollution in the air"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
       </div>
     </div >
   );
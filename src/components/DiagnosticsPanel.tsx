@@ -0,0 +1,271 @@
+import React from 'react';
+import { useSimulationStore } from '../stores/simulationStore';
+import { SPECIES_IDS, LayerConcentration, MassBalance, PuffReceptor, SolverReport } from '../types';
+import { DEFAULT_SOLVER_MAX_ITERATIONS, DEFAULT_SOLVER_TOLERANCE } from '../physics/FluidDynamics';
+import { formatClock } from '../physics/emissionSchedule';
+import { PUFF_ARRIVAL_CONCENTRATION } from '../physics/puffRelease';
+import { Activity } from 'lucide-react';
+
+const SolverRow: React.FC<{ label: string; report: SolverReport }> = ({ label, report }) => (
+  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '12px', marginBottom: '4px' }}>
+    <span style={{ display: 'flex', alignItems: 'center', gap: '6px', color: '#e2e8f0' }}>
+      <span style={{ width: '8px', height: '8px', borderRadius: '50%', background: report.converged ? '#10b981' : '#f97316' }} />
+      {label}
+    </span>
+    <span style={{ color: report.converged ? '#94a3b8' : '#f97316', fontWeight: 600, fontFamily: 'monospace' }}>
+      {report.iterations} it · {report.residual.toExponential(1)}
+    </span>
+  </div>
+);
+
+const BudgetRow: React.FC<{ label: string; lastStep: number; cumulative: number; color?: string }> = ({
+  label, lastStep, cumulative, color = '#e2e8f0'
+}) => (
+  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', marginBottom: '4px' }}>
+    <span style={{ color }}>{label}</span>
+    <span style={{ color: '#94a3b8', fontWeight: 600, fontFamily: 'monospace' }}>
+      {lastStep.toFixed(1)} · {cumulative.toFixed(0)}
+    </span>
+  </div>
+);
+
+const LayerRow: React.FC<{ layer: LayerConcentration; scale: number }> = ({ layer, scale }) => (
+  <div style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', marginBottom: '4px' }}>
+    <span style={{ width: '74px', color: layer.capped ? '#64748b' : '#e2e8f0', fontFamily: 'monospace' }}>
+      {layer.base.toFixed(0)}–{layer.top.toFixed(0)} m
+    </span>
+    <span style={{ flex: 1, height: '6px', background: 'rgba(255,255,255,0.06)', borderRadius: '3px', overflow: 'hidden' }}>
+      <span style={{
+        display: 'block',
+        height: '100%',
+        width: `${scale > 0 ? (100 * layer.mean) / scale : 0}%`,
+        background: layer.capped ? '#64748b' : '#60a5fa'
+      }} />
+    </span>
+    <span style={{ color: '#94a3b8', fontWeight: 600, fontFamily: 'monospace' }}>
+      {layer.mean.toFixed(2)} · {layer.peak.toFixed(0)}
+    </span>
+  </div>
+);
+
+// Minutes after the release, from hours on the clock
+const formatMinutes = (hours: number | null): string => (hours === null ? '–' : `${(hours * 60).toFixed(1)} min`);
+
+const ReceptorRow: React.FC<{ receptor: PuffReceptor }> = ({ receptor }) => (
+  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', marginBottom: '4px' }}>
+    <span style={{ color: receptor.arrivalTime === null ? '#64748b' : '#e2e8f0' }}>{receptor.distance} cells</span>
+    <span style={{ color: '#94a3b8', fontWeight: 600, fontFamily: 'monospace' }}>
+      {formatMinutes(receptor.arrivalTime)} · {receptor.peak.toFixed(1)} @ {formatMinutes(receptor.peakTime)}
+    </span>
+  </div>
+);
+
+// Mass and its share of all the oil released so far
+const WeatheringRow: React.FC<{ label: string; mass: number; released: number }> = ({ label, mass, released }) => (
+  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', marginBottom: '4px' }}>
+    <span style={{ color: '#e2e8f0' }}>{label}</span>
+    <span style={{ color: '#94a3b8', fontWeight: 600, fontFamily: 'monospace' }}>
+      {mass.toFixed(0)} · {released > 0 ? ((100 * mass) / released).toFixed(0) : 0}%
+    </span>
+  </div>
+);
+
+// Loss terms of the budget in display order
+const BUDGET_LOSSES: { key: keyof Omit<MassBalance, 'emitted' | 'total'>; label: string }[] = [
+  { key: 'decay', label: 'Decay' },
+  { key: 'deposition', label: 'Deposition' },
+  { key: 'washout', label: 'Rain washout' },
+  { key: 'outflow', label: 'Boundary outflow' },
+  { key: 'clampLoss', label: 'Clamp loss' }
+];
+
+// Numerical health of the solver, shown in scientist mode
+export const DiagnosticsPanel: React.FC = () => {
+  const {
+    solverDiagnostics, boundaryOutflow, massBudget, verticalProfile, puffReport, slickWeathering, sources, parameters, actions
+  } = useSimulationStore();
+  const tolerance = parameters.solverTolerance ?? DEFAULT_SOLVER_TOLERANCE;
+  const slickReleased = slickWeathering ? slickWeathering.afloat + slickWeathering.evaporated + slickWeathering.stranded : 0;
+  const maxIterations = parameters.solverMaxIterations ?? DEFAULT_SOLVER_MAX_ITERATIONS;
+
+  return (
+    <div className="diagnostics-panel">
+      <div className="insights-header" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+        <Activity style={{ width: '16px', height: '16px', color: '#60a5fa' }} />
+        <h3 className="insights-title">Solver Diagnostics</h3>
+      </div>
+
+      <div style={{ background: 'rgba(255,255,255,0.05)', padding: '10px', borderRadius: '8px', border: '1px solid rgba(255,255,255,0.05)', marginBottom: '12px' }}>
+        <div style={{ fontSize: '10px', color: '#94a3b8', marginBottom: '6px' }}>LINEAR SOLVES (LAST STEP)</div>
+        {solverDiagnostics ? (
+          <>
+            <SolverRow label="Pressure projection" report={solverDiagnostics.pressure} />
+            <SolverRow label="Diffusion" report={solverDiagnostics.diffusion} />
+          </>
+        ) : (
+          <div style={{ fontSize: '12px', color: '#64748b' }}>Run the simulation to collect residuals</div>
+        )}
+        <div style={{ fontSize: '10px', color: '#64748b' }}>
+          Preconditioned conjugate gradient · residual relative to the right-hand side
+        </div>
+      </div>
+
+      <div style={{ background: 'rgba(255,255,255,0.05)', padding: '10px', borderRadius: '8px', border: '1px solid rgba(255,255,255,0.05)', marginBottom: '12px' }}>
+        <div style={{ fontSize: '10px', color: '#94a3b8', marginBottom: '6px' }}>BOUNDARY OUTFLOW (LAST STEP · TOTAL)</div>
+        {boundaryOutflow && SPECIES_IDS.some(species => boundaryOutflow.cumulative[species] > 0) ? (
+          SPECIES_IDS.filter(species => boundaryOutflow.cumulative[species] > 0).map(species => (
+            <div key={species} style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', marginBottom: '4px' }}>
+              <span style={{ color: '#e2e8f0' }}>{species}</span>
+              <span style={{ color: '#94a3b8', fontWeight: 600, fontFamily: 'monospace' }}>
+                {boundaryOutflow.lastStep[species].toFixed(1)} · {boundaryOutflow.cumulative[species].toFixed(0)}
+              </span>
+            </div>
+          ))
+        ) : (
+          <div style={{ fontSize: '12px', color: '#64748b' }}>Nothing has left through the open edges</div>
+        )}
+        <div style={{ fontSize: '10px', color: '#64748b' }}>
+          Concentration × cells carried out through outflow and inflow edges
+        </div>
+      </div>
+
+      <div style={{ background: 'rgba(255,255,255,0.05)', padding: '10px', borderRadius: '8px', border: '1px solid rgba(255,255,255,0.05)', marginBottom: '12px' }}>
+        <div style={{ fontSize: '10px', color: '#94a3b8', marginBottom: '6px' }}>MASS BUDGET (LAST STEP · SINCE RESET)</div>
+        {massBudget ? (
+          <>
+            {massBudget.lastStep.emitted.map((amount, index) => sources[index] && (
+              <BudgetRow
+                key={index}
+                label={`+ Source ${index + 1} (${sources[index].type})`}
+                lastStep={amount}
+                cumulative={massBudget.cumulative.emitted[index] ?? 0}
+                color="#10b981"
+              />
+            ))}
+            <BudgetRow
+              label="± Chemistry"
+              lastStep={massBudget.lastStep.chemistry}
+              cumulative={massBudget.cumulative.chemistry}
+            />
+            {BUDGET_LOSSES.map(({ key, label }) => (
+              <BudgetRow
+                key={key}
+                label={`− ${label}`}
+                lastStep={massBudget.lastStep[key]}
+                cumulative={massBudget.cumulative[key]}
+                color="#f97316"
+              />
+            ))}
+            <BudgetRow
+              label="Numerical imbalance"
+              lastStep={massBudget.lastStep.imbalance}
+              cumulative={massBudget.cumulative.imbalance}
+              color="#94a3b8"
+            />
+            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', margin: '6px 0 4px', paddingTop: '6px', borderTop: '1px solid rgba(255,255,255,0.08)' }}>
+              <span style={{ color: '#e2e8f0', fontWeight: 600 }}>In domain now</span>
+              <span style={{ color: '#e2e8f0', fontWeight: 600, fontFamily: 'monospace' }}>{massBudget.lastStep.total.toFixed(0)}</span>
+            </div>
+          </>
+        ) : (
+          <div style={{ fontSize: '12px', color: '#64748b' }}>Run the simulation to track where the pollution goes</div>
+        )}
+        <div style={{ fontSize: '10px', color: '#64748b' }}>
+          Concentration × cells over all species and layers · imbalance is what transport failed to conserve
+        </div>
+      </div>
+
+      <div style={{ background: 'rgba(255,255,255,0.05)', padding: '10px', borderRadius: '8px', border: '1px solid rgba(255,255,255,0.05)', marginBottom: '12px' }}>
+        <div style={{ fontSize: '10px', color: '#94a3b8', marginBottom: '6px' }}>VERTICAL PROFILE (MEAN · PEAK)</div>
+        {verticalProfile && verticalProfile.length > 1 ? (
+          [...verticalProfile].reverse().map((layer, index, layers) => (
+            <React.Fragment key={layer.base}>
+              <LayerRow layer={layer} scale={Math.max(...verticalProfile.map(({ mean }) => mean))} />
+              {layer.capped && !layers[index + 1]?.capped && (
+                <div style={{ fontSize: '10px', color: '#f97316', borderTop: '1px dashed #f97316', margin: '2px 0 6px', paddingTop: '2px' }}>
+                  Inversion lid at {parameters.mixingHeight} m
+                </div>
+              )}
+            </React.Fragment>
+          ))
+        ) : (
+          <div style={{ fontSize: '12px', color: '#64748b' }}>Add vertical layers to see how pollution is spread with height</div>
+        )}
+        <div style={{ fontSize: '10px', color: '#64748b' }}>
+          Total concentration per layer, top of the column first · the map shows the ground layer
+        </div>
+      </div>
+
+      <div style={{ background: 'rgba(255,255,255,0.05)', padding: '10px', borderRadius: '8px', border: '1px solid rgba(255,255,255,0.05)', marginBottom: '12px' }}>
+        <div style={{ fontSize: '10px', color: '#94a3b8', marginBottom: '6px' }}>PUFF ARRIVAL (FIRST ARRIVAL · PEAK @ TIME)</div>
+        {puffReport && puffReport.receptors.length > 0 ? (
+          <>
+            <div style={{ fontSize: '12px', color: '#e2e8f0', marginBottom: '6px' }}>
+              Source {puffReport.source + 1} ({puffReport.species}) at {formatClock(puffReport.releaseTime)}
+            </div>
+            {puffReport.receptors.map(receptor => <ReceptorRow key={receptor.distance} receptor={receptor} />)}
+          </>
+        ) : (
+          <div style={{ fontSize: '12px', color: '#64748b' }}>Release a puff to time its arrival downwind</div>
+        )}
+        <div style={{ fontSize: '10px', color: '#64748b' }}>
+          Ground-level concentration in cells along the wind from the latest puff · arrival when it first reaches {PUFF_ARRIVAL_CONCENTRATION}
+        </div>
+      </div>
+
+      {slickWeathering && (
+        <div style={{ background: 'rgba(255,255,255,0.05)', padding: '10px', borderRadius: '8px', border: '1px solid rgba(255,255,255,0.05)', marginBottom: '12px' }}>
+          <div style={{ fontSize: '10px', color: '#94a3b8', marginBottom: '6px' }}>OIL WEATHERING (MASS · SHARE)</div>
+          <WeatheringRow label="Afloat" mass={slickWeathering.afloat} released={slickReleased} />
+          <WeatheringRow label="Evaporated" mass={slickWeathering.evaporated} released={slickReleased} />
+          <WeatheringRow label="Stranded on shore" mass={slickWeathering.stranded} released={slickReleased} />
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', marginBottom: '4px' }}>
+            <span style={{ color: '#e2e8f0' }}>Water in mousse</span>
+            <span style={{ color: '#94a3b8', fontWeight: 600, fontFamily: 'monospace' }}>
+              {(100 * slickWeathering.waterContent).toFixed(0)}%
+            </span>
+          </div>
+          <div style={{ fontSize: '10px', color: '#64748b' }}>
+            Since the last reset · oil carried off the map or lost to the decay factor is left out of the shares
+          </div>
+        </div>
+      )}
+
+      <div className="control-group">
+        <label className="control-label">
+          Tolerance
+          <span className="control-value">{tolerance.toExponential(0)}</span>
+        </label>
+        <div className="range-container">
+          <input
+            type="range"
+            className="range-input"
+            min="-6"
+            max="-1"
+            step="1"
+            value={Math.round(Math.log10(tolerance))}
+            onChange={(e) => actions.updateParameters({ solverTolerance: Math.pow(10, Number(e.target.value)) })}
+          />
+        </div>
+      </div>
+
+      <div className="control-group">
+        <label className="control-label">
+          Max Iterations
+          <span className="control-value">{maxIterations}</span>
+        </label>
+        <div className="range-container">
+          <input
+            type="range"
+            className="range-input"
+            min="10"
+            max="500"
+            step="10"
+            value={maxIterations}
+            onChange={(e) => actions.updateParameters({ solverMaxIterations: Number(e.target.value) })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
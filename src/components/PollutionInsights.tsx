@@ -1,10 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useSimulationStore } from '../stores/simulationStore';
-import { POLLUTANT_TYPES } from '../types';
+import { POLLUTANT_TYPES, SECONDARY_SPECIES } from '../types';
 import { FileText, Download, CheckCircle, X, BarChart3, FileSpreadsheet } from 'lucide-react';
 
 export const PollutionInsights: React.FC = () => {
-  const { sources, grid, parameters } = useSimulationStore();
+  const { sources, grid, speciesGrids, parameters } = useSimulationStore();
   const [aqiHistory, setAqiHistory] = useState<number[]>(new Array(60).fill(0));
   const [showReportModal, setShowReportModal] = useState(false);
   const [activeTab, setActiveTab] = useState<'health' | 'visual' | 'realworld'>('health');
@@ -38,6 +38,12 @@ export const PollutionInsights: React.FC = () => {
     Math.max(max, ...row), 0
   );
 
+  // Peak concentration of each pollutant formed by chemistry rather than emitted
+  const secondaryPeaks = SECONDARY_SPECIES.map(species => ({
+    species,
+    peak: speciesGrids[species].reduce((max, row) => Math.max(max, ...row), 0)
+  }));
+
   // Calculate air quality index (0-500) based on peak pollution
   // Multiplier of 5 ensures that release rates of ~50 result in "Very Unhealthy" to "Hazardous" levels
   const aqi = Math.min(500, Math.floor(maxPollution * 5));
@@ -96,6 +102,62 @@ export const PollutionInsights: React.FC = () => {
         healthImpact: '#1 cause of lung cancer among non-smokers. Silent killer.',
         visualCue: 'Invisible (displayed as red warning zones)',
         realWorld: 'Seeping from ground into basements.'
+      },
+      NO: {
+        cleanState: 'Clean Air',
+        pollutedState: 'Fresh Exhaust',
+        healthImpact: 'Converts to NO2 within minutes; contributes to airway inflammation.',
+        visualCue: 'Colorless (displayed as pale tan)',
+        realWorld: 'Tailpipes and power plant stacks, close to the source.'
+      },
+      O3: {
+        cleanState: 'Background Ozone',
+        pollutedState: 'Photochemical Smog',
+        healthImpact: 'Chest pain, coughing, reduced lung function; damages crops.',
+        visualCue: 'Invisible (displayed as blue haze downwind of traffic)',
+        realWorld: 'Sunny afternoons downwind of cities.'
+      },
+      SULFATE: {
+        cleanState: 'Clear Sky',
+        pollutedState: 'Sulfate Haze',
+        healthImpact: 'Fine particles reach deep lungs; linked to heart and lung disease.',
+        visualCue: 'Milky white haze reducing visibility',
+        realWorld: 'Regional haze downwind of coal power plants and smelters.'
+      },
+      ORGANIC: {
+        cleanState: 'Well-oxygenated Water',
+        pollutedState: 'Oxygen Sag',
+        healthImpact: 'Bacteria feeding on the waste strip the oxygen from the water; fish suffocate downstream.',
+        visualCue: 'Green, foul-smelling plume below the outfall',
+        realWorld: 'Sewage overflows, dairy and food-processing discharges.'
+      },
+      NUTRIENT: {
+        cleanState: 'Clear Water',
+        pollutedState: 'Eutrophic Water',
+        healthImpact: 'Fuels algal blooms, some toxic; their decay leaves dead zones.',
+        visualCue: 'Teal plume spreading far downstream',
+        realWorld: 'Fertiliser runoff from farmland, treated sewage.'
+      },
+      THERMAL: {
+        cleanState: 'Natural Temperature',
+        pollutedState: 'Heated Water',
+        healthImpact: 'Warm water holds less oxygen and stresses fish and invertebrates.',
+        visualCue: 'Orange surface plume that fades as it cools',
+        realWorld: 'Power station and factory cooling-water outfalls.'
+      },
+      SEDIMENT: {
+        cleanState: 'Clear Water',
+        pollutedState: 'Turbid Water',
+        healthImpact: 'Blocks light, smothers spawning gravel and carries attached contaminants.',
+        visualCue: 'Muddy brown cloud settling onto the bed',
+        realWorld: 'Dredging, construction sites and eroding banks after storms.'
+      },
+      OIL: {
+        cleanState: 'Clean Surface',
+        pollutedState: 'Oil Slick',
+        healthImpact: 'Coats seabirds and mammals, smothers shoreline life; its fumes irritate eyes and lungs.',
+        visualCue: 'Rainbow sheen thickening to dark brown mousse, tar along the shore',
+        realWorld: 'Tanker groundings, pipeline ruptures and ship bunkering spills.'
       }
     }[type];
   };
@@ -279,6 +341,28 @@ export const PollutionInsights: React.FC = () => {
         </div>
       </div>
 
+      {/* Secondary Pollutants formed by chemistry */}
+      <div style={{ background: 'rgba(255,255,255,0.05)', padding: '10px', borderRadius: '8px', border: '1px solid rgba(255,255,255,0.05)', marginBottom: '12px' }}>
+        <div style={{ fontSize: '10px', color: '#94a3b8', marginBottom: '6px' }}>SECONDARY POLLUTANTS</div>
+        {secondaryPeaks.map(({ species, peak }) => {
+          const color = POLLUTANT_TYPES[species].baseColor;
+          return (
+            <div key={species} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '12px', marginBottom: '4px' }}>
+              <span style={{ display: 'flex', alignItems: 'center', gap: '6px', color: '#e2e8f0' }}>
+                <span style={{ width: '8px', height: '8px', borderRadius: '50%', background: `rgb(${color.r}, ${color.g}, ${color.b})` }} />
+                {POLLUTANT_TYPES[species].name}
+              </span>
+              <span style={{ color: peak > 50 ? '#f97316' : '#94a3b8', fontWeight: 600 }}>
+                {peak.toFixed(1)}
+              </span>
+            </div>
+          );
+        })}
+        <div style={{ fontSize: '10px', color: '#64748b' }}>
+          Formed from NO2 and SO2 — more sunlight, more conversion
+        </div>
+      </div>
+
       {/* Tabs: Analysis Details */}
       <div className="analysis-card" style={{ background: '#0f172a', borderRadius: '12px', border: '1px solid #1e293b', overflow: 'hidden', marginBottom: '12px' }}>
         <div style={{ borderBottom: '1px solid #1e293b', padding: '8px 12px', background: '#1e293b' }}>
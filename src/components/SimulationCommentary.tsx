@@ -1,7 +1,9 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { useSimulationStore } from '../stores/simulationStore';
-import { POLLUTANT_TYPES } from '../types';
-import { Info, AlertTriangle, Wind, Zap } from 'lucide-react';
+import { POLLUTANT_TYPES, DEFAULT_ADVECTION_SCHEME, PollutantType } from '../types';
+import { DEFAULT_MIXING_HEIGHT, MODEL_TOP_HEIGHT, getLayerCount } from '../physics/verticalLayers';
+import { resolveStabilityClass } from '../physics/stability';
+import { Info, AlertTriangle, Wind, Zap, CloudRain } from 'lucide-react';
 
 export const SimulationCommentary: React.FC = () => {
   const { grid, parameters, sources, obstacles, isRunning } = useSimulationStore();
@@ -46,6 +48,9 @@ export const SimulationCommentary: React.FC = () => {
       // Logic Rule Engine
       const activeType = sources.length > 0 ? sources[0].type : 'CO2';
       const pollutantName = POLLUTANT_TYPES[activeType].name;
+      const pollutant: PollutantType = POLLUTANT_TYPES[activeType];
+      const raining = (parameters.rainIntensity ?? 0) > 0;
+      const stability = resolveStabilityClass(parameters);
 
       if (sources.length === 0) {
         newMessage = {
@@ -56,7 +61,19 @@ export const SimulationCommentary: React.FC = () => {
       }
       else if (maxConcentration > 200) {
         // High Pollution
-        if (parameters.windSpeed < 0.5) {
+        if (getLayerCount(parameters.verticalLayers) > 1 && (parameters.mixingHeight ?? DEFAULT_MIXING_HEIGHT) < MODEL_TOP_HEIGHT) {
+          newMessage = {
+            text: `⚠️ Inversion! A lid at ${parameters.mixingHeight} m stops pollution mixing upwards, so it builds up at ground level. Scientist mode shows the vertical profile.`,
+            type: 'warning' as const,
+            icon: <AlertTriangle size={16} />
+          };
+        } else if (stability === 'E' || stability === 'F') {
+          newMessage = {
+            text: `⚠️ Stable air (class ${stability}): cool air near the ground resists rising, so turbulence dies away and the plume stays thin and concentrated as it drifts.`,
+            type: 'warning' as const,
+            icon: <AlertTriangle size={16} />
+          };
+        } else if (parameters.windSpeed < 0.5) {
           newMessage = {
             text: "⚠️ Critical pollution buildup! Low wind speed is preventing dispersion, trapping pollutants locally.",
             type: 'warning' as const,
@@ -64,7 +81,9 @@ export const SimulationCommentary: React.FC = () => {
           };
         } else if (parameters.diffusionRate < 0.1) {
           newMessage = {
-            text: "Using low diffusion? Notice how the plume stays narrow and concentrated.",
+            text: (parameters.advectionScheme ?? DEFAULT_ADVECTION_SCHEME) === 'semiLagrangian'
+              ? "Using low diffusion? First-order advection still smears the plume numerically. Switch the advection scheme to BFECC to keep it narrow."
+              : "Using low diffusion? Notice how the plume stays narrow and concentrated.",
             type: 'info' as const,
             icon: <Info size={16} />
           };
@@ -83,6 +102,29 @@ export const SimulationCommentary: React.FC = () => {
           icon: <Wind size={16} />
         };
       }
+      else if (stability === 'A' || stability === 'B') {
+        newMessage = {
+          text: `Unstable air (class ${stability}): sun-warmed air rises in strong thermals that stir the plume up and sideways, diluting it quickly near the source.`,
+          type: 'info' as const,
+          icon: <Wind size={16} />
+        };
+      }
+      else if (raining && (pollutant.behavior.scavenging ?? 0) >= 0.5) {
+        newMessage = {
+          text: pollutant.effects.includes('acidRain')
+            ? `Rain is dissolving ${pollutantName} and bringing it down as acid rain. The blue map on the ground shows where it lands.`
+            : `Rain is washing ${pollutantName} out of the air. The blue map on the ground shows where it lands.`,
+          type: 'info' as const,
+          icon: <CloudRain size={16} />
+        };
+      }
+      else if (raining && (pollutant.behavior.scavenging ?? 0) === 0) {
+        newMessage = {
+          text: `${pollutantName} barely dissolves, so rain does little to clear it. Try an SO2 source to see acid rain.`,
+          type: 'tip' as const,
+          icon: <CloudRain size={16} />
+        };
+      }
       else if (activeType === 'PM25' && parameters.windSpeed > 2.0) {
         newMessage = {
           text: "Strong winds are carrying Particulate Matter far downwind. Regions distant from the source are now at risk.",
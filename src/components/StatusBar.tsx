@@ -3,7 +3,7 @@ import { useSimulationStore } from '../stores/simulationStore';
 import { WebGLSimulationEngine } from '../physics/WebGLSimulationEngine';
 
 export const StatusBar: React.FC = () => {
-  const { fps, gpuEnabled, isRunning } = useSimulationStore();
+  const { fps, gpuEnabled, isRunning, resolution } = useSimulationStore();
   const [webglSupported, setWebglSupported] = useState<boolean | null>(null);
 
   useEffect(() => {
@@ -35,7 +35,7 @@ export const StatusBar: React.FC = () => {
 
       <div className="status-section">
         <span style={{ fontSize: 'var(--font-size-xs)' }}>
-          Grid: 80×80 | Navier-Stokes Physics | v3.0.0
+          Grid: {resolution.width}×{resolution.height} | Navier-Stokes Physics | v3.0.0
         </span>
       </div>
     </footer>
@@ -1,7 +1,18 @@
-import React, { useRef, useEffect, useCallback, useState } from 'react';
+import React, { useRef, useEffect, useCallback, useMemo, useState } from 'react';
 import { useSimulationStore } from '../stores/simulationStore';
-import { GRID_SIZE, POLLUTANT_TYPES } from '../types';
+import { DEFAULT_DISPERSION_MODEL, GridPoint, GridResolution, POLLUTANT_TYPES, SLICK_SPECIES, SPECIES_IDS, SpeciesId } from '../types';
 import { FluidDynamics } from '../physics/FluidDynamics';
+import { DispersionEngine } from '../physics/DispersionEngine';
+import { GaussianPlumeModel } from '../physics/GaussianPlumeModel';
+import { LagrangianParticleModel, ParticleView } from '../physics/LagrangianParticleModel';
+import { isPuff } from '../physics/puffRelease';
+import { isMovingSource } from '../physics/movingSource';
+import { getEmissionFootprint, isAreaSource, isExtendedSource } from '../physics/sourceGeometry';
+import { hasRelief } from '../physics/terrain';
+import { getEffectiveStackHeight } from '../physics/plumeRise';
+import { WIND_SPEED_SCALE, resolveStabilityClass } from '../physics/stability';
+import { isWaterDomain } from '../physics/waterBody';
+import { getSlickAppearance, getSlickThickness } from '../physics/oilSlick';
 import * as THREE from 'three';
 // @ts-ignore
 import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer';
@@ -14,6 +25,213 @@ import { SimulationCommentary } from './SimulationCommentary';
 
 const PARTICLE_COUNT = 15000; // Increased for better volume
 const PARTICLE_SIZE = 4.0; // Much larger for smoke effect
+const WORLD_SIZE = 80; // Scene units spanned by the longer side of the domain
+const TERRAIN_RELIEF = 8; // Scene units between the lowest (0) and highest (1) terrain
+const PARTICLE_HEIGHT_SCALE = 0.03; // Scene units per metre of particle-model height
+const SHOWER_PEAK_RAIN = 15; // mm/h at the height of a passing shower (dynamic weather)
+const DEPOSITION_DISPLAY_FLOOR = 5; // Deposit shown at full strength until the map's peak exceeds it
+const AIR_BACKGROUND = 0x0a0a1a;
+const WATER_BACKGROUND = 0x06182a; // Deep blue, so a water domain reads as water at a glance
+
+// Placement of the simulation grid in the scene, centred on the origin with square cells
+interface GridLayout extends GridResolution {
+  cellSize: number;
+  halfWidth: number;
+  halfDepth: number;
+}
+
+const getGridLayout = (resolution: GridResolution): GridLayout => {
+  const cellSize = WORLD_SIZE / Math.max(resolution.width, resolution.height);
+  return {
+    ...resolution,
+    cellSize,
+    halfWidth: (resolution.width * cellSize) / 2,
+    halfDepth: (resolution.height * cellSize) / 2
+  };
+};
+
+// Cell outlines for scientist mode (GridHelper only draws square grids)
+const createGridLines = (layout: GridLayout) => {
+  const points: number[] = [];
+  for (let x = 0; x <= layout.width; x++) {
+    const wx = x * layout.cellSize - layout.halfWidth;
+    points.push(wx, 0, -layout.halfDepth, wx, 0, layout.halfDepth);
+  }
+  for (let z = 0; z <= layout.height; z++) {
+    const wz = z * layout.cellSize - layout.halfDepth;
+    points.push(-layout.halfWidth, 0, wz, layout.halfWidth, 0, wz);
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(points, 3));
+  return new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ color: 0x333333 }));
+};
+
+// Ground mesh with one vertex per cell centre, lifted to the cell's elevation
+const createTerrainMesh = (layout: GridLayout) => {
+  const geometry = new THREE.PlaneGeometry(
+    (layout.width - 1) * layout.cellSize,
+    (layout.height - 1) * layout.cellSize,
+    layout.width - 1,
+    layout.height - 1
+  );
+  // Lay the plane flat; its first vertex row ends up at -z, matching grid row 0
+  geometry.rotateX(-Math.PI / 2);
+  const material = new THREE.MeshStandardMaterial({ color: 0x4d5b3a, roughness: 0.95, flatShading: false });
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.userData.resolution = { width: layout.width, height: layout.height };
+  return mesh;
+};
+
+const updateTerrainMesh = (mesh: THREE.Mesh, terrain: number[][]) => {
+  const { width, height } = mesh.userData.resolution as GridResolution;
+  const position = mesh.geometry.attributes.position as THREE.BufferAttribute;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      position.setY(y * width + x, (terrain[y]?.[x] ?? 0) * TERRAIN_RELIEF);
+    }
+  }
+  position.needsUpdate = true;
+  mesh.geometry.computeVertexNormals();
+  mesh.geometry.computeBoundingSphere();
+};
+
+// Translucent sheet just above the ground, one texel per cell, showing what has been deposited or what floats
+const createCellOverlay = (layout: GridLayout) => {
+  const geometry = new THREE.PlaneGeometry(
+    (layout.width - 1) * layout.cellSize,
+    (layout.height - 1) * layout.cellSize,
+    layout.width - 1,
+    layout.height - 1
+  );
+  geometry.rotateX(-Math.PI / 2);
+  const texture = new THREE.DataTexture(new Uint8Array(layout.width * layout.height * 4), layout.width, layout.height);
+  texture.magFilter = THREE.LinearFilter;
+  const material = new THREE.MeshBasicMaterial({ map: texture, transparent: true, depthWrite: false });
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.userData.resolution = { width: layout.width, height: layout.height };
+  mesh.visible = false;
+  return mesh;
+};
+
+// Shades each cell from clear to deep blue by its share of the largest deposit, and drapes the sheet over the terrain
+const updateDepositionOverlay = (mesh: THREE.Mesh, deposition: number[][], terrain: number[][]) => {
+  const { width, height } = mesh.userData.resolution as GridResolution;
+  const position = mesh.geometry.attributes.position as THREE.BufferAttribute;
+  const texture = (mesh.material as THREE.MeshBasicMaterial).map as THREE.DataTexture;
+  const pixels = texture.image.data;
+  let peak = 0;
+  deposition.forEach(row => row.forEach(value => { peak = Math.max(peak, value); }));
+  const scale = Math.max(peak, DEPOSITION_DISPLAY_FLOOR);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      position.setY(y * width + x, groundHeight(terrain, x, y) + 0.05);
+      // Texture rows run bottom-up, the plane's vertex rows top-down
+      const p = ((height - 1 - y) * width + x) * 4;
+      const share = Math.min(1, (deposition[y]?.[x] ?? 0) / scale);
+      pixels[p] = 56 - 26 * share;
+      pixels[p + 1] = 189 - 125 * share;
+      pixels[p + 2] = 248 - 73 * share;
+      pixels[p + 3] = Math.sqrt(share) * 180;
+    }
+  }
+  position.needsUpdate = true;
+  texture.needsUpdate = true;
+  mesh.visible = peak > 0;
+};
+
+// Colour and opacity of each slick appearance code; rainbow runs through the hues as the film thickens
+const SLICK_COLORS: Record<number, { r: number; g: number; b: number; a: number }> = {
+  1: { r: 200, g: 205, b: 215, a: 70 },
+  3: { r: 140, g: 145, b: 155, a: 170 },
+  4: { r: 95, g: 70, b: 45, a: 210 },
+  5: { r: 45, g: 32, b: 20, a: 240 }
+};
+const RAINBOW = { from: 0.3, to: 5, alpha: 130 };
+const rainbowColor = new THREE.Color();
+
+// Colours each cell by how thick its slick is (Bonn Agreement appearance codes), floating just above the water
+const updateSlickOverlay = (mesh: THREE.Mesh, oil: number[][], waterContent: number, terrain: number[][]) => {
+  const { width, height } = mesh.userData.resolution as GridResolution;
+  const position = mesh.geometry.attributes.position as THREE.BufferAttribute;
+  const texture = (mesh.material as THREE.MeshBasicMaterial).map as THREE.DataTexture;
+  const pixels = texture.image.data;
+  let visible = false;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      position.setY(y * width + x, groundHeight(terrain, x, y) + 0.1);
+      const p = ((height - 1 - y) * width + x) * 4;
+      const thickness = getSlickThickness(oil[y]?.[x] ?? 0, waterContent);
+      const appearance = getSlickAppearance(thickness);
+      if (!appearance) {
+        pixels[p + 3] = 0;
+        continue;
+      }
+      visible = true;
+      let color = SLICK_COLORS[appearance.code];
+      if (!color) {
+        const share = Math.log(thickness / RAINBOW.from) / Math.log(RAINBOW.to / RAINBOW.from);
+        rainbowColor.setHSL(0.8 * Math.min(1, Math.max(0, share)), 0.8, 0.55);
+        color = { r: rainbowColor.r * 255, g: rainbowColor.g * 255, b: rainbowColor.b * 255, a: RAINBOW.alpha };
+      }
+      pixels[p] = color.r;
+      pixels[p + 1] = color.g;
+      pixels[p + 2] = color.b;
+      pixels[p + 3] = color.a;
+    }
+  }
+  position.needsUpdate = true;
+  texture.needsUpdate = true;
+  mesh.visible = visible;
+};
+
+const fitsLayout = (overlay: THREE.Mesh, layout: GridLayout) => {
+  const built = overlay.userData.resolution as GridResolution;
+  return built.width === layout.width && built.height === layout.height;
+};
+
+// Swaps an overlay built for another resolution for a fresh one
+const replaceOverlay = (scene: THREE.Scene, overlay: THREE.Mesh, layout: GridLayout) => {
+  scene.remove(overlay);
+  overlay.geometry.dispose();
+  const material = overlay.material as THREE.MeshBasicMaterial;
+  material.map?.dispose();
+  material.dispose();
+  const replacement = createCellOverlay(layout);
+  scene.add(replacement);
+  return replacement;
+};
+
+// Scene height of the ground in a cell (0 outside the grid)
+const groundHeight = (terrain: number[][], x: number, y: number) => (terrain[y]?.[x] ?? 0) * TERRAIN_RELIEF;
+
+// Draws an evenly spaced sample of the particle model's particles on the smoke points, tinted by species;
+// points left over are parked out of sight below the ground
+const showModelParticles = (
+  particles: ParticleView, layout: GridLayout, terrain: number[][], positions: Float32Array, colors: Float32Array
+) => {
+  const { cellSize, halfWidth, halfDepth } = layout;
+  const shown = Math.min(PARTICLE_COUNT, particles.count);
+  for (let i = 0; i < PARTICLE_COUNT; i++) {
+    const i3 = i * 3;
+    if (i >= shown) {
+      positions[i3 + 1] = -1000;
+      continue;
+    }
+    const p = Math.floor((i * particles.count) / shown);
+    const x = particles.x[p];
+    const y = particles.y[p];
+    positions[i3] = (x + 0.5) * cellSize - halfWidth;
+    positions[i3 + 1] = groundHeight(terrain, Math.round(x), Math.round(y)) + 0.1 + particles.z[p] * PARTICLE_HEIGHT_SCALE;
+    positions[i3 + 2] = (y + 0.5) * cellSize - halfDepth;
+
+    const base = POLLUTANT_TYPES[SPECIES_IDS[particles.species[p]]].baseColor;
+    colors[i3] = base.r / 255;
+    colors[i3 + 1] = base.g / 255;
+    colors[i3 + 2] = base.b / 255;
+  }
+};
 
 // Helper to create a soft smoke-like texture
 const createSmokeTexture = () => {
@@ -53,19 +271,57 @@ export const ThreeDSimulationCanvas: React.FC = () => {
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const composerRef = useRef<EffectComposer | null>(null);
   const particlesRef = useRef<THREE.Points | null>(null);
-  const gridHelperRef = useRef<THREE.GridHelper | null>(null);
+  const gridHelperRef = useRef<THREE.LineSegments | null>(null);
   const vectorGroupRef = useRef<THREE.Group | null>(null);
   const obstaclesGroupRef = useRef<THREE.Group | null>(null);
+  const sourceOutlinesGroupRef = useRef<THREE.Group | null>(null);
+  const terrainMeshRef = useRef<THREE.Mesh | null>(null);
+  const depositionOverlayRef = useRef<THREE.Mesh | null>(null);
+  const slickOverlayRef = useRef<THREE.Mesh | null>(null);
   const fluidDynamicsRef = useRef<FluidDynamics | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const raycasterRef = useRef<THREE.Raycaster>(new THREE.Raycaster());
   const mouseRef = useRef<THREE.Vector2>(new THREE.Vector2());
   const planeRef = useRef<THREE.Mesh | null>(null);
+  // Species each particle was emitted as (drives its settling)
+  const particleSpeciesRef = useRef<SpeciesId[]>(new Array(PARTICLE_COUNT).fill('CO2'));
 
   // Throttle store updates
   const frameCounterRef = useRef<number>(0);
 
-  const { sources, parameters, isRunning, gpuEnabled, scientistMode, isDrawingObstacles, obstacles, dynamicWeather, actions } = useSimulationStore();
+  const {
+    sources, parameters, isRunning, gpuEnabled, scientistMode, isDrawingObstacles, obstacles, terrain, terrainBrush, dynamicWeather,
+    isPlacingPuff, sourceDrawing, sourceTrails, resolution, deposition, showDeposition, depositionSpecies, depositionResetTrigger,
+    speciesGrids, slickWeathering, actions
+  } = useSimulationStore();
+  const drawingSource = sourceDrawing !== null;
+  const water = isWaterDomain(parameters);
+  const terrainRef = useRef(terrain);
+  const obstaclesRef = useRef(obstacles);
+  const plumeModelRef = useRef<GaussianPlumeModel | null>(null);
+  const particleModelRef = useRef<LagrangianParticleModel | null>(null);
+  const dispersionModelRef = useRef(parameters.dispersionModel ?? DEFAULT_DISPERSION_MODEL);
+  dispersionModelRef.current = parameters.dispersionModel ?? DEFAULT_DISPERSION_MODEL;
+
+  // Engine whose concentrations are shown; the analytic plume and the particle model are created on first
+  // use, the latter riding the grid solver's wind
+  const getEngine = useCallback((): DispersionEngine | null => {
+    if (dispersionModelRef.current === 'lagrangianParticles') {
+      if (!particleModelRef.current && fluidDynamicsRef.current) {
+        particleModelRef.current = new LagrangianParticleModel(fluidDynamicsRef.current);
+      }
+      return particleModelRef.current;
+    }
+    if (dispersionModelRef.current !== 'gaussianPlume') return fluidDynamicsRef.current;
+    if (!plumeModelRef.current) {
+      const { width, height } = layoutRef.current;
+      plumeModelRef.current = new GaussianPlumeModel(width, height);
+      plumeModelRef.current.setObstacles(obstaclesRef.current);
+    }
+    return plumeModelRef.current;
+  }, []);
+  // Read from callbacks that must not be recreated when the grid is resized
+  const layoutRef = useRef<GridLayout>(getGridLayout(resolution));
   const [currentAQI, setCurrentAQI] = useState(0);
 
   const captureScreenshot = useCallback(() => {
@@ -92,8 +348,8 @@ export const ThreeDSimulationCanvas: React.FC = () => {
 
     // Scene
     const scene = new THREE.Scene();
-    scene.background = new THREE.Color(0x0a0a1a);
-    scene.fog = new THREE.Fog(0x0a0a1a, 10, 60);
+    scene.background = new THREE.Color(AIR_BACKGROUND);
+    scene.fog = new THREE.Fog(AIR_BACKGROUND, 10, 60);
     sceneRef.current = scene;
 
     // Camera
@@ -134,7 +390,8 @@ export const ThreeDSimulationCanvas: React.FC = () => {
     composerRef.current = composer;
 
     // Grid helper
-    const gridHelper = new THREE.GridHelper(GRID_SIZE, GRID_SIZE, 0x444444, 0x222222);
+    const layout = layoutRef.current;
+    const gridHelper = createGridLines(layout);
     gridHelper.visible = scientistMode;
     scene.add(gridHelper);
     gridHelperRef.current = gridHelper;
@@ -150,8 +407,28 @@ export const ThreeDSimulationCanvas: React.FC = () => {
     scene.add(obstaclesGroup);
     obstaclesGroupRef.current = obstaclesGroup;
 
+    // Outlines of line and area sources, and of the one being drawn
+    const sourceOutlinesGroup = new THREE.Group();
+    scene.add(sourceOutlinesGroup);
+    sourceOutlinesGroupRef.current = sourceOutlinesGroup;
+
+    // Terrain (hidden while the ground is flat)
+    const terrainMesh = createTerrainMesh(layout);
+    terrainMesh.visible = false;
+    scene.add(terrainMesh);
+    terrainMeshRef.current = terrainMesh;
+
+    // Wet deposition (hidden until rain has washed something out)
+    const depositionOverlay = createCellOverlay(layout);
+    scene.add(depositionOverlay);
+    depositionOverlayRef.current = depositionOverlay;
+
+    const slickOverlay = createCellOverlay(layout);
+    scene.add(slickOverlay);
+    slickOverlayRef.current = slickOverlay;
+
     // Interaction plane (invisible)
-    const planeGeometry = new THREE.PlaneGeometry(GRID_SIZE, GRID_SIZE);
+    const planeGeometry = new THREE.PlaneGeometry(WORLD_SIZE, WORLD_SIZE);
     const planeMaterial = new THREE.MeshBasicMaterial({ visible: false });
     const plane = new THREE.Mesh(planeGeometry, planeMaterial);
     plane.rotation.x = -Math.PI / 2;
@@ -178,9 +455,9 @@ export const ThreeDSimulationCanvas: React.FC = () => {
     for (let i = 0; i < PARTICLE_COUNT; i++) {
       const i3 = i * 3;
       // Random initial positions
-      positions[i3] = (Math.random() - 0.5) * GRID_SIZE;
+      positions[i3] = (Math.random() - 0.5) * 2 * layout.halfWidth;
       positions[i3 + 1] = Math.random() * 5;
-      positions[i3 + 2] = (Math.random() - 0.5) * GRID_SIZE;
+      positions[i3 + 2] = (Math.random() - 0.5) * 2 * layout.halfDepth;
 
       // Initial colors (light blue)
       colors[i3] = 0.1;
@@ -226,7 +503,7 @@ export const ThreeDSimulationCanvas: React.FC = () => {
     particlesRef.current = particles;
 
     // Initialize fluid dynamics
-    fluidDynamicsRef.current = new FluidDynamics(GRID_SIZE);
+    fluidDynamicsRef.current = new FluidDynamics(layout.width, layout.height);
     fluidDynamicsRef.current.setGPUEnabled(gpuEnabled);
 
     console.log('Three.js scene initialized with', PARTICLE_COUNT, 'smoke particles');
@@ -243,8 +520,15 @@ export const ThreeDSimulationCanvas: React.FC = () => {
     }
   }, [scientistMode]);
 
+  // Cells the smoke streams from: a point source's own cell, every cell under a line or area. Puffs are a
+  // one-off release, so they get no smoke; moving sources are placed on the clock every frame
+  const smokeEmitters = useMemo(() => sources
+    .filter(source => !isPuff(source))
+    .map(source => ({ source, cells: getEmissionFootprint(source, resolution, () => true) })), [sources, resolution]);
+
   const updateParticles = useCallback((currentWindDir: number, currentWindSpeed: number) => {
-    if (!particlesRef.current || !fluidDynamicsRef.current) return;
+    const engine = getEngine();
+    if (!particlesRef.current || !engine) return;
 
     const positions = particlesRef.current.geometry.attributes.position.array as Float32Array;
     const colors = particlesRef.current.geometry.attributes.color.array as Float32Array;
@@ -252,16 +536,44 @@ export const ThreeDSimulationCanvas: React.FC = () => {
     const lifetimes = particlesRef.current.geometry.attributes.lifetime.array as Float32Array;
     // We aren't using pSize attribute with standard material, but we update positions/colors.
 
-    const grid = fluidDynamicsRef.current.getDensity();
-    const gridU = fluidDynamicsRef.current.getVelocityX();
-    const gridV = fluidDynamicsRef.current.getVelocityY();
-    const halfGrid = GRID_SIZE / 2;
+    // Live views of the solver fields (no per-frame copies)
+    const fluid = engine;
+    const grid = fluid.getDensityView().data;
+    const speciesFields = SPECIES_IDS.map(species => ({ species, data: fluid.getDensityView(species).data }));
+    const particleSpecies = particleSpeciesRef.current;
+    const gridU = fluid.getVelocityXView().data;
+    const gridV = fluid.getVelocityYView().data;
+    const gridW = fluid.getVerticalVelocityView().data;
+    const { width, height, cellSize, halfWidth, halfDepth } = layoutRef.current;
+    const ground = terrainRef.current;
+
+    // The particle model's own particles are drawn instead of the decorative smoke
+    if (engine instanceof LagrangianParticleModel) {
+      showModelParticles(engine.getParticles(), layoutRef.current, ground, positions, colors);
+      particlesRef.current.geometry.attributes.position.needsUpdate = true;
+      particlesRef.current.geometry.attributes.color.needsUpdate = true;
+      return;
+    }
 
     // Wind direction in radians (used for initial velocity)
     const windAngle = (currentWindDir * Math.PI) / 180;
     const windVelX = currentWindSpeed * Math.cos(windAngle) * 0.05;
     const windVelZ = currentWindSpeed * Math.sin(windAngle) * 0.05;
 
+    // Smoke leaves each source where its plume levels off: the stack plus its rise in this wind, scaled like the
+    // particle model's heights
+    const clock = engine.getSimulationTime();
+    const stabilityClass = resolveStabilityClass({ ...parameters, windSpeed: currentWindSpeed });
+    const emitters = smokeEmitters
+      .map(emitter => (isMovingSource(emitter.source)
+        ? { ...emitter, cells: getEmissionFootprint(emitter.source, resolution, () => true, clock) }
+        : emitter))
+      .filter(({ cells }) => cells.length > 0)
+      .map(emitter => ({
+        ...emitter,
+        height: getEffectiveStackHeight(emitter.source, currentWindSpeed * WIND_SPEED_SCALE, stabilityClass) * PARTICLE_HEIGHT_SCALE
+      }));
+
     for (let i = 0; i < PARTICLE_COUNT; i++) {
       const i3 = i * 3;
 
@@ -270,16 +582,18 @@ export const ThreeDSimulationCanvas: React.FC = () => {
 
       // Improve respawn logic to create continuous flow
       if (lifetimes[i] > 1.0 || positions[i3 + 1] < 0) {
-        if (sources.length > 0) {
-          const source = sources[Math.floor(Math.random() * sources.length)];
+        if (emitters.length > 0) {
+          const { source, cells, height: releaseHeight } = emitters[Math.floor(Math.random() * emitters.length)];
+          const cell = cells[Math.floor(Math.random() * cells.length)];
           // Spawn in a small radius around source
           const angle = Math.random() * Math.PI * 2;
           const r = Math.random() * 1.5;
-          positions[i3] = source.x - halfGrid + Math.cos(angle) * r;
-          positions[i3 + 1] = 1.0 + Math.random(); // Start slighty above ground
-          positions[i3 + 2] = source.y - halfGrid + Math.sin(angle) * r;
+          positions[i3] = cell.x * cellSize - halfWidth + Math.cos(angle) * r;
+          positions[i3 + 1] = groundHeight(ground, cell.x, cell.y) + releaseHeight + 1.0 + Math.random(); // Start slighty above the release
+          positions[i3 + 2] = cell.y * cellSize - halfDepth + Math.sin(angle) * r;
 
           lifetimes[i] = 0;
+          particleSpecies[i] = source.type;
 
           // Initial velocity matches wind + upward thermal
           velocities[i3] = windVelX + (Math.random() - 0.5) * 0.02;
@@ -287,43 +601,56 @@ export const ThreeDSimulationCanvas: React.FC = () => {
           velocities[i3 + 2] = windVelZ + (Math.random() - 0.5) * 0.02;
         } else {
           // Ambient background dust if no sources
-          positions[i3] = (Math.random() - 0.5) * GRID_SIZE;
+          positions[i3] = (Math.random() - 0.5) * 2 * halfWidth;
           positions[i3 + 1] = Math.random() * 10;
-          positions[i3 + 2] = (Math.random() - 0.5) * GRID_SIZE;
+          positions[i3 + 2] = (Math.random() - 0.5) * 2 * halfDepth;
           lifetimes[i] = 0;
         }
       }
 
       // Get grid position
-      const gridX = Math.floor(positions[i3] + halfGrid);
-      const gridZ = Math.floor(positions[i3 + 2] + halfGrid);
+      const gridX = Math.floor((positions[i3] + halfWidth) / cellSize);
+      const gridZ = Math.floor((positions[i3 + 2] + halfDepth) / cellSize);
 
       // Fluid dynamics advection
-      let fluidU = 0, fluidV = 0, density = 0;
-      if (gridX >= 0 && gridX < GRID_SIZE && gridZ >= 0 && gridZ < GRID_SIZE) {
-        fluidU = gridU[gridZ][gridX];
-        fluidV = gridV[gridZ][gridX];
-        density = grid[gridZ][gridX];
+      let fluidU = 0, fluidV = 0, fluidW = 0, density = 0;
+      let cellSpecies: SpeciesId = particleSpecies[i];
+      if (gridX >= 0 && gridX < width && gridZ >= 0 && gridZ < height) {
+        const cell = gridZ * width + gridX;
+        fluidU = gridU[cell];
+        fluidV = gridV[cell];
+        fluidW = gridW[cell];
+        density = grid[cell];
+
+        // Tint by whichever species dominates this cell
+        let dominant = 0;
+        for (const { species, data } of speciesFields) {
+          const val = data[cell];
+          if (val > dominant) {
+            dominant = val;
+            cellSpecies = species;
+          }
+        }
       }
 
       // Advection: Particles follow flow
       velocities[i3] += (fluidU * 0.15 - velocities[i3] * 0.02);
       velocities[i3 + 2] += (fluidV * 0.15 - velocities[i3 + 2] * 0.02);
+      // Thermal updrafts loft hot plumes, cold air keeps them low
+      velocities[i3 + 1] += fluidW * 0.1;
 
       // Movement
       positions[i3] += velocities[i3];
       positions[i3 + 1] += velocities[i3 + 1];
       positions[i3 + 2] += velocities[i3 + 2];
 
-      // Buoyancy/Gravity based on pollutant type
-      let dominantType = sources.length > 0 ? sources[0].type : 'CO2';
-      // (Simplified source finding for perf)
-      const pollutantDef = POLLUTANT_TYPES[dominantType];
-      velocities[i3 + 1] -= pollutantDef.behavior.sinkRate * 0.003;
+      // Buoyancy/Gravity based on the particle's own pollutant type
+      velocities[i3 + 1] -= POLLUTANT_TYPES[particleSpecies[i]].behavior.sinkRate * 0.003;
 
-      // Floor interaction
-      if (positions[i3 + 1] < 0.1) {
-        positions[i3 + 1] = 0.1;
+      // Floor interaction (the ground follows the terrain)
+      const floor = groundHeight(ground, gridX, gridZ) + 0.1;
+      if (positions[i3 + 1] < floor) {
+        positions[i3 + 1] = floor;
         velocities[i3 + 1] *= -0.2; // Damping bounce
       }
 
@@ -332,7 +659,7 @@ export const ThreeDSimulationCanvas: React.FC = () => {
       const normalizedDensity = Math.min(density / 150, 1.0);
 
       if (normalizedDensity > 0.01) {
-        const base = pollutantDef.baseColor;
+        const base = POLLUTANT_TYPES[cellSpecies].baseColor;
         // Tint based on density: White (low) -> Color (high)
         // Actually usually Smoke is Thin (Alpha low) -> Thick (Alpha high)
         // With additive blending, we want Bright colors.
@@ -355,7 +682,7 @@ export const ThreeDSimulationCanvas: React.FC = () => {
 
     particlesRef.current.geometry.attributes.position.needsUpdate = true;
     particlesRef.current.geometry.attributes.color.needsUpdate = true;
-  }, [sources]);
+  }, [smokeEmitters, resolution, parameters, getEngine]);
 
   // Update scientist mode visuals
   useEffect(() => {
@@ -372,38 +699,37 @@ export const ThreeDSimulationCanvas: React.FC = () => {
           vectorGroupRef.current.remove(vectorGroupRef.current.children[0]);
         }
 
-        const step = 8; // Every 8th cell
-        const halfGrid = GRID_SIZE / 2;
+        const { width, height, cellSize, halfWidth, halfDepth } = getGridLayout(resolution);
+        const step = Math.max(1, Math.round(8 / cellSize)); // An arrow every ~8 scene units
         const windAngle = (parameters.windDirection * Math.PI) / 180;
         // Direction vector
         const dir = new THREE.Vector3(Math.cos(windAngle), 0, Math.sin(windAngle)).normalize();
         const length = Math.max(2, parameters.windSpeed * 3);
         const hex = 0xffff00; // Yellow arrows
 
-        for (let x = 0; x < GRID_SIZE; x += step) {
-          for (let z = 0; z < GRID_SIZE; z += step) {
-            const origin = new THREE.Vector3(x - halfGrid, 2, z - halfGrid);
+        for (let x = 0; x < width; x += step) {
+          for (let z = 0; z < height; z += step) {
+            const origin = new THREE.Vector3(x * cellSize - halfWidth, 2, z * cellSize - halfDepth);
             const arrowHelper = new THREE.ArrowHelper(dir, origin, length, hex, length * 0.3, length * 0.15);
             vectorGroupRef.current.add(arrowHelper);
           }
         }
       }
     }
-  }, [scientistMode, parameters.windDirection, parameters.windSpeed]);
-
-  const obstaclesRef = useRef(obstacles);
+  }, [scientistMode, parameters.windDirection, parameters.windSpeed, resolution]);
 
   // Keep obstaclesRef in sync
   useEffect(() => {
     obstaclesRef.current = obstacles;
   }, [obstacles]);
 
-  // Handle mouse interaction for drawing obstacles
+  // Handle mouse interaction for drawing obstacles and sculpting terrain
   useEffect(() => {
     if (!containerRef.current || !cameraRef.current || !planeRef.current) return;
 
     let isDragging = false;
     let dragMode: 'add' | 'remove' | null = null;
+    let lastSculpted: { x: number; y: number } | null = null;
 
     const getGridPos = (event: MouseEvent) => {
       const rect = containerRef.current!.getBoundingClientRect();
@@ -412,24 +738,52 @@ export const ThreeDSimulationCanvas: React.FC = () => {
 
       mouseRef.current.set(x, y);
       raycasterRef.current.setFromCamera(mouseRef.current, cameraRef.current!);
-      const intersects = raycasterRef.current.intersectObject(planeRef.current!);
+      // Pick against the ground surface once it has relief, so the brush lands where the cursor points
+      const terrainMesh = terrainMeshRef.current;
+      const target = terrainMesh && terrainMesh.visible ? terrainMesh : planeRef.current!;
+      const intersects = raycasterRef.current.intersectObject(target);
 
       if (intersects.length > 0) {
         const point = intersects[0].point;
-        const halfGrid = GRID_SIZE / 2;
-        const gridX = Math.floor(point.x + halfGrid);
-        const gridY = Math.floor(point.z + halfGrid);
+        const { cellSize, halfWidth, halfDepth } = layoutRef.current;
+        const gridX = Math.floor((point.x + halfWidth) / cellSize);
+        const gridY = Math.floor((point.z + halfDepth) / cellSize);
         return { x: gridX, y: gridY };
       }
       return null;
     };
 
+    const inGrid = (pos: { x: number; y: number }) =>
+      pos.x >= 0 && pos.x < layoutRef.current.width && pos.y >= 0 && pos.y < layoutRef.current.height;
+
+    const sculpt = (pos: { x: number; y: number }) => {
+      if (lastSculpted && lastSculpted.x === pos.x && lastSculpted.y === pos.y) return;
+      lastSculpted = pos;
+      actions.sculptTerrain(pos.x, pos.y);
+    };
+
     const handleMouseDown = (event: MouseEvent) => {
+      if (drawingSource) {
+        const pos = getGridPos(event);
+        if (pos && inGrid(pos)) actions.addDrawingVertex(pos.x, pos.y);
+        return;
+      }
+      if (isPlacingPuff) {
+        const pos = getGridPos(event);
+        if (pos && inGrid(pos)) actions.placePuff(pos.x, pos.y);
+        return;
+      }
+      if (terrainBrush) {
+        isDragging = true;
+        const pos = getGridPos(event);
+        if (pos && inGrid(pos)) sculpt(pos);
+        return;
+      }
       if (!isDrawingObstacles) return;
       isDragging = true;
 
       const pos = getGridPos(event);
-      if (pos && pos.x >= 0 && pos.x < GRID_SIZE && pos.y >= 0 && pos.y < GRID_SIZE) {
+      if (pos && inGrid(pos)) {
         // Determine mode based on starting cell, using Ref to avoid stale state
         dragMode = obstaclesRef.current[pos.y][pos.x] ? 'remove' : 'add';
 
@@ -440,10 +794,15 @@ export const ThreeDSimulationCanvas: React.FC = () => {
     };
 
     const handleMouseMove = (event: MouseEvent) => {
+      if (terrainBrush && isDragging) {
+        const pos = getGridPos(event);
+        if (pos && inGrid(pos)) sculpt(pos);
+        return;
+      }
       if (!isDrawingObstacles || !isDragging || !dragMode) return;
 
       const pos = getGridPos(event);
-      if (pos && pos.x >= 0 && pos.x < GRID_SIZE && pos.y >= 0 && pos.y < GRID_SIZE) {
+      if (pos && inGrid(pos)) {
         // Apply consistent action
         // Check against Ref to see if we actually need to change it
         const currentVal = obstaclesRef.current[pos.y][pos.x];
@@ -459,20 +818,166 @@ export const ThreeDSimulationCanvas: React.FC = () => {
     const handleMouseUp = () => {
       isDragging = false;
       dragMode = null;
+      lastSculpted = null;
+    };
+
+    // A double click ends a line or area (its clicks have already placed the last vertex)
+    const handleDoubleClick = () => {
+      if (drawingSource) actions.finishSourceDrawing();
     };
 
     const container = containerRef.current;
     container.addEventListener('mousedown', handleMouseDown);
+    container.addEventListener('dblclick', handleDoubleClick);
     container.addEventListener('mousemove', handleMouseMove);
     window.addEventListener('mouseup', handleMouseUp);
 
     return () => {
       container.removeEventListener('mousedown', handleMouseDown);
+      container.removeEventListener('dblclick', handleDoubleClick);
       container.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
     // Removed 'obstacles' from dependency array to prevent effect churn
-  }, [isDrawingObstacles, actions]);
+  }, [isDrawingObstacles, terrainBrush, isPlacingPuff, drawingSource, actions]);
+
+  // Resize the solver and scene grid when the resolution changes (before obstacles are re-synced)
+  useEffect(() => {
+    const layout = getGridLayout(resolution);
+    layoutRef.current = layout;
+
+    if (fluidDynamicsRef.current) {
+      fluidDynamicsRef.current.resize(layout.width, layout.height);
+    }
+    plumeModelRef.current?.resize(layout.width, layout.height);
+    particleModelRef.current?.resize(layout.width, layout.height);
+    if (sceneRef.current && gridHelperRef.current) {
+      const gridHelper = createGridLines(layout);
+      gridHelper.visible = gridHelperRef.current.visible;
+      sceneRef.current.remove(gridHelperRef.current);
+      gridHelperRef.current.geometry.dispose();
+      sceneRef.current.add(gridHelper);
+      gridHelperRef.current = gridHelper;
+    }
+  }, [resolution]);
+
+  // Rebuild the ground surface and hand the elevations to the solver (after any resize)
+  useEffect(() => {
+    terrainRef.current = terrain;
+    const layout = layoutRef.current;
+    const scene = sceneRef.current;
+    let mesh = terrainMeshRef.current;
+
+    if (scene && mesh) {
+      const built = mesh.userData.resolution as GridResolution;
+      if (built.width !== layout.width || built.height !== layout.height) {
+        scene.remove(mesh);
+        mesh.geometry.dispose();
+        (mesh.material as THREE.Material).dispose();
+        mesh = createTerrainMesh(layout);
+        scene.add(mesh);
+        terrainMeshRef.current = mesh;
+      }
+      updateTerrainMesh(mesh, terrain);
+      mesh.visible = hasRelief(terrain.flat());
+    }
+
+    if (fluidDynamicsRef.current) {
+      fluidDynamicsRef.current.setTerrain(terrain);
+    }
+  }, [terrain]);
+
+  // Redraw the deposition layer whenever the solver reports a new map (rebuilt after a resize)
+  useEffect(() => {
+    const scene = sceneRef.current;
+    let overlay = depositionOverlayRef.current;
+    if (!scene || !overlay) return;
+
+    const layout = layoutRef.current;
+    if (!fitsLayout(overlay, layout)) {
+      overlay = replaceOverlay(scene, overlay, layout);
+      depositionOverlayRef.current = overlay;
+    }
+    if (showDeposition && deposition && deposition[SPECIES_IDS[0]].length === layout.height) {
+      const shown = depositionSpecies
+        ? deposition[depositionSpecies]
+        : deposition[SPECIES_IDS[0]].map((row, y) => row.map((_, x) => SPECIES_IDS.reduce((sum, id) => sum + deposition[id][y][x], 0)));
+      updateDepositionOverlay(overlay, shown, terrain);
+    } else {
+      overlay.visible = false;
+    }
+  }, [deposition, showDeposition, depositionSpecies, terrain, resolution]);
+
+  // Redraw the slick's thickness whenever the store receives new concentrations
+  useEffect(() => {
+    const scene = sceneRef.current;
+    let overlay = slickOverlayRef.current;
+    if (!scene || !overlay) return;
+
+    const layout = layoutRef.current;
+    if (!fitsLayout(overlay, layout)) {
+      overlay = replaceOverlay(scene, overlay, layout);
+      slickOverlayRef.current = overlay;
+    }
+    if (slickWeathering && speciesGrids[SLICK_SPECIES[0]]?.length === layout.height) {
+      const oil = speciesGrids[SLICK_SPECIES[0]].map((row, y) =>
+        row.map((_, x) => SLICK_SPECIES.reduce((sum, id) => sum + speciesGrids[id][y][x], 0)));
+      updateSlickOverlay(overlay, oil, slickWeathering.waterContent, terrain);
+    } else {
+      overlay.visible = false;
+    }
+  }, [speciesGrids, slickWeathering, terrain, resolution]);
+
+  // Clearing the deposit leaves the air as it is
+  useEffect(() => {
+    fluidDynamicsRef.current?.clearDeposition();
+  }, [depositionResetTrigger]);
+
+  // Outline every line and area source in its pollutant's colour, dash the routes of moving sources and trace
+  // where they have been, and draw the outline being drawn in white
+  useEffect(() => {
+    const group = sourceOutlinesGroupRef.current;
+    if (!group) return;
+
+    while (group.children.length > 0) {
+      const line = group.children[0] as THREE.Line;
+      group.remove(line);
+      line.geometry.dispose();
+      (line.material as THREE.Material).dispose();
+    }
+
+    const { cellSize, halfWidth, halfDepth } = layoutRef.current;
+    const addOutline = (path: GridPoint[], closed: boolean, color: THREE.ColorRepresentation, dashed = false) => {
+      // Trails run through fractional cells, so heights come from the nearest one
+      const points = path.map(({ x, y }) => new THREE.Vector3(
+        (x + 0.5) * cellSize - halfWidth, groundHeight(terrain, Math.round(x), Math.round(y)) + 0.3, (y + 0.5) * cellSize - halfDepth
+      ));
+      const geometry = new THREE.BufferGeometry().setFromPoints(closed ? [...points, points[0]] : points);
+      const material = dashed
+        ? new THREE.LineDashedMaterial({ color, dashSize: cellSize, gapSize: cellSize, transparent: true, opacity: 0.6 })
+        : new THREE.LineBasicMaterial({ color });
+      const line = new THREE.Line(geometry, material);
+      if (dashed) line.computeLineDistances();
+      group.add(line);
+    };
+    const speciesColor = (species: SpeciesId) => {
+      const { r, g, b } = POLLUTANT_TYPES[species].baseColor;
+      return new THREE.Color(r / 255, g / 255, b / 255);
+    };
+
+    sources.forEach(source => {
+      if (isExtendedSource(source)) addOutline(source.path!, isAreaSource(source), speciesColor(source.type));
+      if (isMovingSource(source)) {
+        addOutline(source.waypoints!, source.routeMode === 'loop' && source.waypoints!.length > 2, speciesColor(source.type), true);
+      }
+    });
+    sourceTrails.forEach(trail => {
+      if (trail.points.length > 1) addOutline(trail.points, false, speciesColor(trail.species));
+    });
+    if (sourceDrawing && sourceDrawing.path.length > 0) {
+      addOutline(sourceDrawing.path, sourceDrawing.kind === 'area' && sourceDrawing.path.length > 2, 0xffffff);
+    }
+  }, [sources, sourceDrawing, sourceTrails, terrain, resolution]);
 
   // Update obstacle visuals
   useEffect(() => {
@@ -483,15 +988,17 @@ export const ThreeDSimulationCanvas: React.FC = () => {
       obstaclesGroupRef.current.remove(obstaclesGroupRef.current.children[0]);
     }
 
-    const geometry = new THREE.BoxGeometry(1, 5, 1);
-    const material = new THREE.MeshStandardMaterial({ color: 0x888888 });
-    const halfGrid = GRID_SIZE / 2;
+    // On water the obstacles are banks and shoreline: low and earthy instead of tall grey walls
+    const { cellSize, halfWidth, halfDepth } = layoutRef.current;
+    const height = water ? 1 : 5;
+    const geometry = new THREE.BoxGeometry(cellSize, height, cellSize);
+    const material = new THREE.MeshStandardMaterial({ color: water ? 0x6b5a3a : 0x888888 });
 
-    for (let y = 0; y < GRID_SIZE; y++) {
-      for (let x = 0; x < GRID_SIZE; x++) {
+    for (let y = 0; y < obstacles.length; y++) {
+      for (let x = 0; x < obstacles[y].length; x++) {
         if (obstacles[y][x]) {
           const mesh = new THREE.Mesh(geometry, material);
-          mesh.position.set(x - halfGrid + 0.5, 2.5, y - halfGrid + 0.5);
+          mesh.position.set((x + 0.5) * cellSize - halfWidth, groundHeight(terrain, x, y) + height / 2, (y + 0.5) * cellSize - halfDepth);
           obstaclesGroupRef.current.add(mesh);
         }
       }
@@ -501,15 +1008,44 @@ export const ThreeDSimulationCanvas: React.FC = () => {
     if (fluidDynamicsRef.current) {
       fluidDynamicsRef.current.setObstacles(obstacles);
     }
-  }, [obstacles]);
+    plumeModelRef.current?.setObstacles(obstacles);
+  }, [obstacles, terrain, water]);
+
+  // Tint the scene for the domain
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    const background = water ? WATER_BACKGROUND : AIR_BACKGROUND;
+    scene.background = new THREE.Color(background);
+    scene.fog = new THREE.Fog(background, 10, 60);
+  }, [water]);
+
+  // Copies the engine's fields, clock and reports into the store
+  const syncEngine = useCallback((engine: DispersionEngine) => {
+    actions.setGrid(engine.getDensity(), engine.getSpeciesDensities());
+    actions.setSimulationTime(engine.getSimulationTime());
+    // Solver health, budget and layers only exist for the grid solver
+    if (engine instanceof FluidDynamics) {
+      actions.setSolverDiagnostics(engine.getSolverDiagnostics());
+      actions.setBoundaryOutflow(engine.getBoundaryOutflow());
+      actions.setMassBudget(engine.getMassBudget());
+      actions.setVerticalProfile(engine.getVerticalProfile());
+      actions.setDeposition(engine.getDepositionGrids());
+      actions.setPuffReport(engine.getPuffReport());
+      actions.setSourceTrails(engine.getSourceTrails());
+      actions.setSlickWeathering(engine.getSlickWeathering());
+    }
+  }, [actions]);
 
   const animate = useCallback(() => {
     if (!sceneRef.current || !cameraRef.current || (!rendererRef.current && !composerRef.current)) return;
 
-    if (isRunning && fluidDynamicsRef.current) {
+    const engine = getEngine();
+    if (isRunning && engine) {
       // Calculate dynamic wind
       let windDir = parameters.windDirection;
       let windSpeed = parameters.windSpeed;
+      let rainIntensity = parameters.rainIntensity ?? 0;
 
       if (dynamicWeather) {
         const time = Date.now() * 0.0005;
@@ -518,35 +1054,33 @@ export const ThreeDSimulationCanvas: React.FC = () => {
         // Vary speed by +/- 0.3
         windSpeed += Math.sin(time * 1.3) * 0.3;
         windSpeed = Math.max(0.1, windSpeed);
+        // Showers pass through every half minute or so, on top of any steady rain
+        rainIntensity = Math.max(rainIntensity, SHOWER_PEAK_RAIN * Math.max(0, Math.sin(time * 0.4)) ** 2);
       }
 
-      // Create temporary parameters with dynamic wind
-      const currentParams = { ...parameters, windDirection: windDir, windSpeed: windSpeed };
+      // Create temporary parameters with dynamic weather
+      const currentParams = { ...parameters, windDirection: windDir, windSpeed: windSpeed, rainIntensity };
 
-      // Run fluid dynamics simulation
-      fluidDynamicsRef.current.step(currentParams, sources);
+      // Run the selected dispersion model
+      engine.step(currentParams, sources);
 
       // Update particles based on simulation
       updateParticles(windDir, windSpeed);
 
       // Sync Grid to Store every 30 frames (approx 0.5s)
       frameCounterRef.current++;
-      if (frameCounterRef.current % 30 === 0) {
-        actions.setGrid(fluidDynamicsRef.current.getDensity());
-      }
+      if (frameCounterRef.current % 30 === 0) syncEngine(engine);
 
       // Update scene background based on pollution level
-      const grid = fluidDynamicsRef.current.getDensity();
+      const grid = engine.getDensityView().data;
       let totalDensity = 0;
       let maxDensity = 0;
       let cellCount = 0;
-      for (let i = 0; i < GRID_SIZE; i++) {
-        for (let j = 0; j < GRID_SIZE; j++) {
-          const val = grid[i][j];
-          totalDensity += val;
-          if (val > maxDensity) maxDensity = val;
-          cellCount++;
-        }
+      for (let k = 0; k < grid.length; k++) {
+        const val = grid[k];
+        totalDensity += val;
+        if (val > maxDensity) maxDensity = val;
+        cellCount++;
       }
       // Use max density for background intensity to show "peak" pollution
       const normalizedAvg = Math.min(maxDensity / 255, 1.0);
@@ -586,7 +1120,7 @@ export const ThreeDSimulationCanvas: React.FC = () => {
     }
 
     animationFrameRef.current = requestAnimationFrame(animate);
-  }, [isRunning, sources, parameters, updateParticles, dynamicWeather, actions]);
+  }, [isRunning, sources, parameters, updateParticles, dynamicWeather, getEngine, syncEngine]);
 
   const handleResize = useCallback(() => {
     if (!containerRef.current || !cameraRef.current || !rendererRef.current) return;
@@ -636,12 +1170,16 @@ export const ThreeDSimulationCanvas: React.FC = () => {
   }, [gpuEnabled]);
 
   useEffect(() => {
-    if (!isRunning && fluidDynamicsRef.current) {
-      fluidDynamicsRef.current.reset();
+    const engine = getEngine();
+    if (!isRunning && engine) {
+      fluidDynamicsRef.current?.reset();
+      plumeModelRef.current?.reset();
+      particleModelRef.current?.reset();
       setCurrentAQI(0);
-      actions.setGrid(fluidDynamicsRef.current.getDensity()); // Sync reset grid
+      // The clocks restart at 0, so puffs and routes placed from now on are timed against the reset clock
+      syncEngine(engine);
     }
-  }, [isRunning, actions]);
+  }, [isRunning, syncEngine, getEngine]);
 
   const aqiInfo = getAQIEmoji(currentAQI);
 
@@ -654,7 +1192,7 @@ export const ThreeDSimulationCanvas: React.FC = () => {
         height: '100%',
         position: 'relative',
         background: 'linear-gradient(135deg, #0a0a1a 0%, #1a1a3a 100%)',
-        cursor: isDrawingObstacles ? 'crosshair' : 'default',
+        cursor: isDrawingObstacles || terrainBrush || isPlacingPuff || drawingSource ? 'crosshair' : 'default',
       }}
     >
       {/* Screenshot Button */}
@@ -2,7 +2,7 @@ import { useEffect } from 'react';
 import { useSimulationStore } from '../stores/simulationStore';
 
 export const useKeyboardShortcuts = () => {
-  const { isRunning, actions } = useSimulationStore();
+  const { isRunning, sourceDrawing, actions } = useSimulationStore();
 
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
@@ -57,6 +57,14 @@ export const useKeyboardShortcuts = () => {
           actions.toggleDynamicWeather();
           break;
         
+        case 'Enter': // Enter - Finish the line or area being drawn
+          if (sourceDrawing) actions.finishSourceDrawing();
+          break;
+
+        case 'Escape': // Escape - Abandon the line or area being drawn
+          if (sourceDrawing) actions.cancelSourceDrawing();
+          break;
+
         case '?': // ? - Show keyboard shortcuts help
           window.dispatchEvent(new CustomEvent('show-shortcuts-help'));
           break;
@@ -68,5 +76,5 @@ export const useKeyboardShortcuts = () => {
     return () => {
       window.removeEventListener('keydown', handleKeyPress);
     };
-  }, [isRunning, actions]);
+  }, [isRunning, sourceDrawing, actions]);
 };
@@ -1,8 +1,11 @@
 import { useEffect, useCallback } from 'react';
 import { useSimulationStore } from '../stores/simulationStore';
-import { GRID_SIZE, SimulationParameters, PollutionSource } from '../types';
+import { DEFAULT_RESOLUTION, GridResolution, SimulationParameters, PollutionSource } from '../types';
+import { resampleMask } from '../physics/gridResampling';
+import { rescaleSource } from '../physics/sourceGeometry';
 
 interface ShareableState {
+  r?: [number, number];    // grid resolution [width, height]; links from before it was configurable are 80 × 80
   p: SimulationParameters; // parameters
   s: PollutionSource[];    // sources
   o: string;               // obstacles (base64 encoded binary string)
@@ -17,6 +20,7 @@ export const useShareableURL = () => {
     parameters, 
     sources, 
     obstacles, 
+    resolution,
     gpuEnabled, 
     scientistMode, 
     dynamicWeather,
@@ -26,8 +30,8 @@ export const useShareableURL = () => {
   // Encode obstacles to a compact string
   const encodeObstacles = useCallback((obstaclesGrid: boolean[][]): string => {
     let binaryString = '';
-    for (let y = 0; y < GRID_SIZE; y++) {
-      for (let x = 0; x < GRID_SIZE; x++) {
+    for (let y = 0; y < obstaclesGrid.length; y++) {
+      for (let x = 0; x < obstaclesGrid[y].length; x++) {
         binaryString += obstaclesGrid[y][x] ? '1' : '0';
       }
     }
@@ -45,7 +49,7 @@ export const useShareableURL = () => {
   }, []);
 
   // Decode obstacles from string
-  const decodeObstacles = useCallback((encoded: string): boolean[][] => {
+  const decodeObstacles = useCallback((encoded: string, size: GridResolution): boolean[][] => {
     const base64Chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
     let binaryString = "";
     for (let i = 0; i < encoded.length; i++) {
@@ -53,10 +57,10 @@ export const useShareableURL = () => {
       binaryString += val.toString(2).padStart(6, '0');
     }
 
-    const newObstacles = Array(GRID_SIZE).fill(0).map(() => Array(GRID_SIZE).fill(false));
+    const newObstacles = Array(size.height).fill(0).map(() => Array(size.width).fill(false));
     let index = 0;
-    for (let y = 0; y < GRID_SIZE; y++) {
-      for (let x = 0; x < GRID_SIZE; x++) {
+    for (let y = 0; y < size.height; y++) {
+      for (let x = 0; x < size.width; x++) {
         if (index < binaryString.length) {
           newObstacles[y][x] = binaryString[index] === '1';
           index++;
@@ -68,6 +72,7 @@ export const useShareableURL = () => {
 
   const generateShareURL = useCallback(() => {
     const state: ShareableState = {
+      r: [resolution.width, resolution.height],
       p: parameters,
       s: sources,
       o: encodeObstacles(obstacles),
@@ -81,7 +86,7 @@ export const useShareableURL = () => {
     const url = new URL(window.location.href);
     url.searchParams.set('state', encodedState);
     return url.toString();
-  }, [parameters, sources, obstacles, gpuEnabled, scientistMode, dynamicWeather, encodeObstacles]);
+  }, [parameters, sources, obstacles, resolution, gpuEnabled, scientistMode, dynamicWeather, encodeObstacles]);
 
   // Load state from URL on mount
   useEffect(() => {
@@ -93,10 +98,14 @@ export const useShareableURL = () => {
         const jsonString = atob(encodedState);
         const state: ShareableState = JSON.parse(jsonString);
 
-        // Apply state to store
+        // Apply state to store (resolution first; the store clamps it, so obstacles and sources are mapped from
+        // the link's grid onto the one it ended up with)
+        const size = state.r ? { width: state.r[0], height: state.r[1] } : DEFAULT_RESOLUTION;
+        actions.setResolution(size);
+        const grid = useSimulationStore.getState().resolution;
         if (state.p) actions.updateParameters(state.p);
-        if (state.s) actions.setSources(state.s);
-        if (state.o) actions.setObstacles(decodeObstacles(state.o));
+        if (state.s) actions.setSources(state.s.map(source => rescaleSource(source, size, grid)));
+        if (state.o) actions.setObstacles(resampleMask(decodeObstacles(state.o, size), grid));
         if (state.g !== undefined && state.g !== gpuEnabled) actions.toggleGPU();
         if (state.m !== undefined && state.m !== scientistMode) actions.toggleScientistMode();
         if (state.w !== undefined && state.w !== dynamicWeather) actions.toggleDynamicWeather();
@@ -0,0 +1,28 @@
+import { FieldView, GridResolution, PollutionSource, SimulationParameters, SpeciesGrids, SpeciesId } from '../types';
+
+/**
+ * A model that turns sources and weather into concentration fields on the simulation grid. The canvas
+ * and store only talk to the selected engine through this interface, so the models can be swapped
+ * (and compared) on the same sources and wind.
+ */
+export interface DispersionEngine {
+  getResolution(): GridResolution;
+  resize(width: number, height: number): void;
+  reset(): void;
+  setObstacles(obstacles: boolean[][]): void;
+  setTerrain(terrain: number[][]): void;
+  step(parameters: SimulationParameters, sources: PollutionSource[]): void;
+
+  // Hours on the simulation clock since the last reset, which the emission schedules follow
+  getSimulationTime(): number;
+
+  // Ground-level concentration of one species, or the total across species when omitted
+  getDensity(species?: SpeciesId): number[][];
+  getDensityView(species?: SpeciesId): FieldView;
+  getSpeciesDensities(): SpeciesGrids;
+
+  // Flow the concentrations were computed with (used to drive the smoke particles)
+  getVelocityXView(): FieldView;
+  getVelocityYView(): FieldView;
+  getVerticalVelocityView(): FieldView;
+}
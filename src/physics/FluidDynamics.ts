@@ -1,151 +1,920 @@
-import { GRID_SIZE, SimulationParameters, PollutionSource } from '../types';
-import { WebGLSimulationEngine } from './WebGLSimulationEngine';
+import {
+  BOUNDARY_EDGES, DEFAULT_ADVECTION_SCHEME, DEFAULT_RESOLUTION, DEFAULT_RIVER_PROFILE, DEFAULT_TURBULENCE_MODEL, POLLUTANT_TYPES, SPECIES_IDS, AdvectionScheme, BoundaryConditions, BoundaryOutflow,
+  DepositionKind, FieldView, GridResolution, LayerConcentration, MassBalance, MassBudget, SimulationParameters, PollutionSource, PuffReport, SourceTrail, SpeciesId, SpeciesFields, SpeciesGrids, SolverDiagnostics,
+  SolverReport, SlickBehavior, SlickWeathering, SLICK_SPECIES, Vector2D
+} from '../types';
+import { GPU_DELTA_TIME, WebGLSimulationEngine, getGPUSourceEmission } from './WebGLSimulationEngine';
+import {
+  SpeciesTransport, getAirborneSurvivalFactor, getDepositionShare, getScavengingRate, getSettlingFraction,
+  getSpeciesTransport, getSurvivalFactor, getReleaseTemperature
+} from './speciesBehavior';
+import { DEFAULT_REACTION_MECHANISMS, ReactionMechanism, getReactionEnvironment } from './ReactionMechanism';
+import {
+  AMBIENT_WIND_SCALE, EdgeProfiles, EdgeRules, getEdgeRules, ghostSelfWeight, ghostValue, isOpenBoundary, prescribedGhost,
+  resolveBoundaries
+} from './boundaryConditions';
+import { DispersionEngine } from './DispersionEngine';
+import { EddyDiffusivityScale, WIND_SPEED_SCALE, getEddyDiffusivityScale, resolveStabilityClass } from './stability';
+import { HOURS_PER_TIME_UNIT, getScheduledReleaseRate } from './emissionSchedule';
+import {
+  DEFAULT_PUFF_MASS, createPuffReport, getPuffFootprint, getPuffKey, isPuff, isPuffDue, updatePuffReport
+} from './puffRelease';
+import { extendTrail, getRoutePosition } from './movingSource';
+import { getEffectiveStackHeight } from './plumeRise';
+import { computeChannelShape, getAmbientCurrent, isCurrentAlongX, isWaterDomain } from './waterBody';
+import { getEvaporationRate, getSlickBehavior, getWaterContent, isSlickSpecies, spreadSlick, strandSlick } from './oilSlick';
+import { EmissionCell, getEmissionFootprint } from './sourceGeometry';
+import { computeSlope, hasRelief } from './terrain';
+import {
+  DEFAULT_SMAGORINSKY_CONSTANT, DEFAULT_VORTICITY_CONFINEMENT, applyVorticityConfinement, computeEddyViscosity,
+  diffuseWithEddyViscosity
+} from './turbulence';
+import {
+  ColumnMixer, DEFAULT_MIXING_HEIGHT, createColumnMixer, getInterfaceExchange, getLayerCount, getLayerThickness,
+  getWindProfileFactor, isCapped, mixColumn
+} from './verticalLayers';
+import {
+  createFieldData, createSpeciesFields, fieldToGrid, gridToField, maskToField, resampleFieldData, resampleMaskData,
+  speciesFieldsToGrids
+} from './fieldStorage';
 
-export class FluidDynamics {
-  private gridSize: number;
+const DEFAULT_SPECIES: SpeciesId = 'CO2';
+
+// Thermal model: temperatures are anomalies (K) relative to the ambient air
+const DEFAULT_BUOYANCY = 1.0;
+const BUOYANCY_SCALE = 0.002;  // Updraft per kelvin of anomaly (Boussinesq g * beta)
+const UPDRAFT_CONVERGENCE = 0.5; // Surface convergence induced per unit updraft (continuity)
+const THERMAL_RELAXATION = 0.02; // Rate at which anomalies relax back to ambient
+const SOURCE_THERMAL_MIXING = 0.5; // Fraction of the gap to the release temperature closed per step
+
+// Rate at which the flow is pulled towards the ambient wind; from rest this is a force of 0.5 * windSpeed
+const WIND_RELAXATION = 0.5 / AMBIENT_WIND_SCALE;
+
+// Terrain: slopes (relief per domain length) turn the wind along the contours and drain dense species downhill
+const TERRAIN_DEFLECTION_SLOPE = 4; // Slope at which half the wind across the contours is turned along them
+const DRAINAGE_SPEED = 0.2; // Downhill speed per unit slope and unit sinkRate (same units as the wind)
+const MAX_DRAINAGE_COURANT = 0.2; // Fraction of a cell that may drain across one face per step (4 faces stay below 1)
+
+// Warm air carries pollution out of the ground layer into the one above
+const UPDRAFT_LOFT_RATE = 5; // Fraction of the ground layer lofted per unit time, per unit updraft
+const MAX_LOFT_FRACTION = 0.5; // Per step
+
+// Linear solver: relative residual target and iteration cap for the pressure and diffusion solves
+export const DEFAULT_SOLVER_TOLERANCE = 1e-3;
+export const DEFAULT_SOLVER_MAX_ITERATIONS = 100;
+
+type SolverKind = 'pressure' | 'diffusion';
+
+const createSolverDiagnostics = (): SolverDiagnostics => ({
+  pressure: { iterations: 0, residual: 0, converged: true },
+  diffusion: { iterations: 0, residual: 0, converged: true }
+});
+
+const createSpeciesTotals = (): Record<SpeciesId, number> => {
+  const totals = {} as Record<SpeciesId, number>;
+  SPECIES_IDS.forEach(species => {
+    totals[species] = 0;
+  });
+  return totals;
+};
+
+const createMassBalance = (sourceCount: number = 0): MassBalance => ({
+  emitted: new Array(sourceCount).fill(0),
+  decay: 0,
+  deposition: 0,
+  washout: 0,
+  outflow: 0,
+  clampLoss: 0,
+  chemistry: 0,
+  imbalance: 0,
+  total: 0
+});
+
+const copyMassBalance = (balance: MassBalance): MassBalance => ({ ...balance, emitted: [...balance.emitted] });
+
+// Maps a back-traced coordinate onto the periodic interior [0.5, n - 1.5) of an axis with n cells
+const wrapCoordinate = (coord: number, n: number): number => {
+  const period = n - 2;
+  return ((((coord - 0.5) % period) + period) % period) + 0.5;
+};
+
+// Every field is stored flat and row-major: the cell in column j (x) and row i (y) is at i * width + j,
+// so k +/- 1 are the x-neighbours and k +/- width the y-neighbours
+export class FluidDynamics implements DispersionEngine {
+  private width: number;  // Cells along x (columns)
+  private height: number; // Cells along y (rows)
   private dt: number = 0.1;
+  private mixing: EddyDiffusivityScale = getEddyDiffusivityScale(); // Turbulence of the stability class in force
+  private clock: number = 0; // Hours since the last reset, for the emission schedules
+  private releasedPuffs = new Set<string>();
+  private puffReport: PuffReport | null = null; // Arrival downwind of the latest puff
+  private trails = new Map<number, SourceTrail>(); // Moving sources' tracks, by source index
+  private weathering = { evaporated: 0, stranded: 0, waterContent: 0 }; // Slick losses and mousse since the reset
 
   // Velocity fields (Current and Previous)
-  private u: number[][]; // x-velocity
-  private v: number[][]; // y-velocity
-  private u_prev: number[][];
-  private v_prev: number[][];
+  private u: Float32Array; // x-velocity
+  private v: Float32Array; // y-velocity
+  private u_prev!: Float32Array;
+  private v_prev!: Float32Array;
 
-  // Density fields (Current and Previous)
-  private density: number[][];
-  private density_prev: number[][];
+  // Concentration fields, one per pollutant species (Current and Previous), and their lazily summed total
+  private density: SpeciesFields;
+  private density_prev!: SpeciesFields;
+  private totalDensity!: Float32Array;
+  private totalDensityStale: boolean = true;
 
-  // Obstacles
-  private obstacles: boolean[][];
+  // Layers above the ground, lowest first: layer n (n >= 1) lives in aloft[n - 1]; density is layer 0.
+  // The column mixer exchanges pollution between the layers of each cell's column.
+  private aloft: SpeciesFields[] = [];
+  private mixingHeight: number = DEFAULT_MIXING_HEIGHT;
+  private columnMixer: ColumnMixer | null = null;
+  private column!: Float64Array;
+
+  // Mass laid on the ground under each cell since the deposit was last cleared, per species: settled and
+  // dry-deposited from the ground layer, and washed out of the whole column by rain
+  private dryDeposition: SpeciesFields;
+  private wetDeposition: SpeciesFields;
+
+  // Temperature anomaly (Current and Previous) and the buoyant updraft it drives
+  private temperature: Float32Array;
+  private temperature_prev!: Float32Array;
+  private w!: Float32Array;
+
+  // Obstacles (1 = solid)
+  private obstacles: Uint8Array;
+
+  // Ground elevation (0-1 of the maximum relief) and its slope
+  private terrain: Float32Array;
+  private slopeX!: Float32Array;
+  private slopeY!: Float32Array;
+  private hasTerrain: boolean = false;
+
+  // Water domain: the flow the domain is driven towards (wind, or current plus tide) and, in water, each
+  // cell's share of the mean current across its channel
+  private ambient: Vector2D = { x: 0, y: 0 };
+  private channelShape: Float32Array | null = null;
+
+  // Conjugate-gradient scratch space (double precision) and the last step's convergence report
+  private solver_r!: Float64Array;
+  private solver_z!: Float64Array;
+  private solver_s!: Float64Array;
+  private solver_q!: Float64Array;
+  private solver_y!: Float64Array;
+  private solver_diag!: Float64Array;
+  private solver_precon!: Float64Array;
+  private solver_mask!: Uint8Array;
+  private solver_rhs!: Float64Array;
+
+  // Advection scheme and its scratch: the forward and backward passes, and the range of values
+  // each cell's departure point was interpolated from (the limiter bounds)
+  private advectionScheme: AdvectionScheme = DEFAULT_ADVECTION_SCHEME;
+  private advect_forward!: Float32Array;
+  private advect_backward!: Float32Array;
+  private advect_min!: Float32Array;
+  private advect_max!: Float32Array;
+  private eddy_viscosity!: Float32Array;
+  private turbulence_scratch!: Float32Array;
+  private solverKey: string | null = null; // Coefficients the cached preconditioner was built for
+  private solverTolerance: number = DEFAULT_SOLVER_TOLERANCE;
+  private solverMaxIterations: number = DEFAULT_SOLVER_MAX_ITERATIONS;
+  private diagnostics: SolverDiagnostics = createSolverDiagnostics();
+
+  // Domain edges: ghost-cell rules per field kind (indexed by b) and the mass carried out through open edges
+  private boundaries: BoundaryConditions = resolveBoundaries();
+  private edgeRules: EdgeRules[] = [];
+  private outflowStep: Record<SpeciesId, number> = createSpeciesTotals();
+  private outflowTotal: Record<SpeciesId, number> = createSpeciesTotals();
+
+  // Mass budget of the last step and since the last reset
+  private budgetStep: MassBalance = createMassBalance();
+  private budgetTotal: MassBalance = createMassBalance();
+
+  // Chemistry run over the concentration fields each step
+  private reactionMechanisms: ReactionMechanism[] = DEFAULT_REACTION_MECHANISMS;
 
   // GPU acceleration
   private gpuEngine: WebGLSimulationEngine | null = null;
   private useGPU: boolean = false;
 
-  constructor(gridSize: number = GRID_SIZE) {
-    this.gridSize = gridSize;
+  constructor(width: number = DEFAULT_RESOLUTION.width, height: number = width) {
+    this.width = width;
+    this.height = height;
 
     // Initialize standard fields
     this.u = this.createField();
     this.v = this.createField();
-    this.u_prev = this.createField();
-    this.v_prev = this.createField();
-    this.density = this.createField();
-    this.density_prev = this.createField();
-    this.obstacles = Array(gridSize).fill(0).map(() => Array(gridSize).fill(false));
+    this.density = createSpeciesFields(this.getResolution());
+    this.dryDeposition = createSpeciesFields(this.getResolution());
+    this.wetDeposition = createSpeciesFields(this.getResolution());
+    this.temperature = this.createField();
+    this.obstacles = new Uint8Array(width * height);
+    this.terrain = this.createField();
+    this.allocateWorkFields();
+    this.applyBoundaries(this.boundaries, { x: 0, y: 0 });
 
     // Try to initialize GPU acceleration
+    this.initGPU();
+  }
+
+  private initGPU(): void {
     if (WebGLSimulationEngine.isSupported()) {
       try {
         const gpuCanvas = document.createElement('canvas');
-        gpuCanvas.width = gridSize;
-        gpuCanvas.height = gridSize;
-        this.gpuEngine = new WebGLSimulationEngine(gpuCanvas, gridSize);
+        gpuCanvas.width = this.width;
+        gpuCanvas.height = this.height;
+        this.gpuEngine = new WebGLSimulationEngine(gpuCanvas, this.width, this.height);
         console.log('GPU acceleration initialized successfully');
       } catch (error) {
         console.warn('GPU acceleration failed to initialize:', error);
+        this.gpuEngine = null;
         this.useGPU = false;
       }
     }
   }
 
-  private createField(): number[][] {
-    return Array(this.gridSize).fill(0).map(() => Array(this.gridSize).fill(0));
+  private createField(): Float32Array {
+    return createFieldData(this.getResolution());
+  }
+
+  // Previous-step, updraft and solver buffers, which carry no state between steps
+  private allocateWorkFields(): void {
+    const cells = this.width * this.height;
+    this.u_prev = this.createField();
+    this.v_prev = this.createField();
+    this.density_prev = createSpeciesFields(this.getResolution());
+    this.totalDensity = this.createField();
+    this.totalDensityStale = true;
+    this.temperature_prev = this.createField();
+    this.w = this.createField();
+    this.solver_r = new Float64Array(cells);
+    this.solver_z = new Float64Array(cells);
+    this.solver_s = new Float64Array(cells);
+    this.solver_q = new Float64Array(cells);
+    this.solver_y = new Float64Array(cells);
+    this.solver_diag = new Float64Array(cells);
+    this.solver_precon = new Float64Array(cells);
+    this.solver_mask = new Uint8Array(cells);
+    this.solver_rhs = new Float64Array(cells);
+    this.solverKey = null;
+    this.advect_forward = this.createField();
+    this.advect_backward = this.createField();
+    this.advect_min = this.createField();
+    this.advect_max = this.createField();
+    this.eddy_viscosity = this.createField();
+    this.turbulence_scratch = this.createField();
+    this.slopeX = this.createField();
+    this.slopeY = this.createField();
+    this.updateSlopes();
+  }
+
+  // Slopes are derived from the terrain and the grid spacing, so they follow both
+  private updateSlopes(): void {
+    this.hasTerrain = hasRelief(this.terrain);
+    computeSlope(this.terrain, this.width, this.height, this.scale, this.slopeX, this.slopeY);
+  }
+
+  // Cells along the longer side; cells are square, so this sets the grid spacing h = 1 / scale
+  private get scale(): number {
+    return Math.max(this.width, this.height);
+  }
+
+  private inBounds(x: number, y: number): boolean {
+    return x >= 0 && x < this.width && y >= 0 && y < this.height;
+  }
+
+  private applyBoundaries(boundaries: BoundaryConditions, inflow: Vector2D): void {
+    if (BOUNDARY_EDGES.some(edge => boundaries[edge] !== this.boundaries[edge])) {
+      this.solverKey = null;
+    }
+    this.boundaries = boundaries;
+    const profiles = this.channelShape ? this.edgeProfiles(this.channelShape) : {};
+    this.edgeRules = [0, 1, 2, 3].map(b => getEdgeRules(b, boundaries, inflow, profiles));
+  }
+
+  // In water the current follows the channel between the banks; air has no channel
+  private updateChannelShape(parameters: SimulationParameters): void {
+    if (!isWaterDomain(parameters)) {
+      this.channelShape = null;
+      return;
+    }
+    if (this.channelShape?.length !== this.obstacles.length) this.channelShape = this.createField();
+    computeChannelShape(this.obstacles, this.width, this.height, isCurrentAlongX(parameters.windDirection),
+      parameters.riverProfile ?? DEFAULT_RIVER_PROFILE, this.channelShape);
+  }
+
+  // A channel's profile where it meets each edge, read from the interior cells next to the edge
+  private edgeProfiles(shape: Float32Array): EdgeProfiles {
+    const W = this.width;
+    const H = this.height;
+    return {
+      left: Float32Array.from({ length: H }, (_, i) => shape[i * W + 1]),
+      right: Float32Array.from({ length: H }, (_, i) => shape[i * W + W - 2]),
+      top: Float32Array.from({ length: W }, (_, j) => shape[W + j]),
+      bottom: Float32Array.from({ length: W }, (_, j) => shape[(H - 2) * W + j])
+    };
+  }
+
+  private view(data: Float32Array): FieldView {
+    return { width: this.width, height: this.height, data };
   }
 
   // --- Public Interface ---
 
+  getResolution(): GridResolution {
+    return { width: this.width, height: this.height };
+  }
+
+  // Changes the grid resolution, resampling the flow, concentrations, temperature and obstacles
+  resize(width: number, height: number): void {
+    if (width === this.width && height === this.height) return;
+    const from = this.getResolution();
+    const to = { width, height };
+
+    this.u = resampleFieldData(this.u, from, to);
+    this.v = resampleFieldData(this.v, from, to);
+    [this.density, ...this.aloft, this.dryDeposition, this.wetDeposition].forEach(layer => {
+      SPECIES_IDS.forEach(species => {
+        layer[species] = resampleFieldData(layer[species], from, to);
+      });
+    });
+    this.temperature = resampleFieldData(this.temperature, from, to);
+    this.obstacles = resampleMaskData(this.obstacles, from, to);
+    this.terrain = resampleFieldData(this.terrain, from, to);
+
+    this.width = width;
+    this.height = height;
+    this.allocateWorkFields();
+
+    // GPU textures are sized to the grid, so the engine is rebuilt
+    if (this.gpuEngine) {
+      const enabled = this.useGPU;
+      this.gpuEngine.cleanup();
+      this.gpuEngine = null;
+      this.initGPU();
+      this.setGPUEnabled(enabled);
+    }
+  }
+
   setGPUEnabled(enabled: boolean): void {
     this.useGPU = enabled && this.gpuEngine !== null;
   }
 
+  setReactionMechanisms(mechanisms: ReactionMechanism[]): void {
+    this.reactionMechanisms = [...mechanisms];
+  }
+
   setObstacles(obstacles: boolean[][]): void {
-    this.obstacles = obstacles.map(row => [...row]);
+    this.obstacles = maskToField(obstacles, this.getResolution());
+    this.solverKey = null;
+  }
+
+  // Whether cell (x, y) is a building or lies outside the grid
+  isSolid(x: number, y: number): boolean {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return true;
+    return this.obstacles[y * this.width + x] === 1;
+  }
+
+  // Elevation per cell, [y][x], from 0 (lowest) to 1 (highest)
+  setTerrain(terrain: number[][]): void {
+    this.terrain = gridToField(terrain, this.getResolution());
+    this.updateSlopes();
+  }
+
+  setDensity(density: number[][], species: SpeciesId = DEFAULT_SPECIES): void {
+    this.density[species] = gridToField(density, this.getResolution());
+    this.totalDensityStale = true;
+  }
+
+  // Snapshot of one species' concentration, or of the total across all species when omitted
+  getDensity(species?: SpeciesId): number[][] {
+    return fieldToGrid(this.getDensityView(species).data, this.getResolution());
+  }
+
+  // Live read-only view of one species' concentration, or of the total when omitted
+  getDensityView(species?: SpeciesId): FieldView {
+    if (species) return this.view(this.density[species]);
+
+    if (this.totalDensityStale) {
+      const total = this.totalDensity;
+      total.fill(0);
+      SPECIES_IDS.forEach(id => {
+        const field = this.density[id];
+        for (let k = 0; k < total.length; k++) total[k] += field[k];
+      });
+      this.totalDensityStale = false;
+    }
+    return this.view(this.totalDensity);
   }
 
-  setDensity(density: number[][]): void {
-    this.density = density.map(row => [...row]);
+  // Snapshot of every species' concentration
+  getSpeciesDensities(): SpeciesGrids {
+    return speciesFieldsToGrids(this.density, this.getResolution());
   }
 
-  getDensity(): number[][] {
-    return this.density.map(row => [...row]);
+  // Vertical layers in the last step; the density getters above report the ground layer (layer 0)
+  getLayerCount(): number {
+    return this.aloft.length + 1;
+  }
+
+  // Snapshot of one layer's concentration of a species, or of the total when the species is omitted
+  getLayerDensity(layer: number, species?: SpeciesId): number[][] {
+    if (layer === 0) return this.getDensity(species);
+    const fields = this.aloft[layer - 1];
+    if (!fields) throw new RangeError(`Layer ${layer} is outside the ${this.getLayerCount()}-layer column`);
+    if (species) return fieldToGrid(fields[species], this.getResolution());
+
+    const total = this.createField();
+    SPECIES_IDS.forEach(id => {
+      const field = fields[id];
+      for (let k = 0; k < total.length; k++) total[k] += field[k];
+    });
+    return fieldToGrid(total, this.getResolution());
+  }
+
+  // Mass deposited onto each cell of one species or of all of them, dry, wet or both
+  getDeposition(species?: SpeciesId, kind: DepositionKind = 'total'): number[][] {
+    const sources = kind === 'dry' ? [this.dryDeposition] : kind === 'wet' ? [this.wetDeposition] : [this.dryDeposition, this.wetDeposition];
+    const total = this.createField();
+    for (const fields of sources) {
+      for (const id of species ? [species] : SPECIES_IDS) {
+        const field = fields[id];
+        for (let k = 0; k < total.length; k++) total[k] += field[k];
+      }
+    }
+    return fieldToGrid(total, this.getResolution());
+  }
+
+  // Snapshot of each species' total (dry and wet) deposit
+  getDepositionGrids(): SpeciesGrids {
+    const grids = {} as SpeciesGrids;
+    SPECIES_IDS.forEach(species => {
+      grids[species] = this.getDeposition(species);
+    });
+    return grids;
+  }
+
+  // Empties the deposit without touching the air
+  clearDeposition(): void {
+    SPECIES_IDS.forEach(species => {
+      this.dryDeposition[species].fill(0);
+      this.wetDeposition[species].fill(0);
+    });
+  }
+
+  // Mean and peak total concentration of each layer, ground layer first
+  getVerticalProfile(): LayerConcentration[] {
+    const count = this.getLayerCount();
+    const dz = getLayerThickness(count);
+    const W = this.width;
+    const H = this.height;
+
+    return this.layers().map((fields, layer) => {
+      let sum = 0;
+      let peak = 0;
+      let cells = 0;
+      for (let i = 1; i < H - 1; i++) {
+        for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+          if (this.obstacles[k]) continue;
+          let value = 0;
+          for (const species of SPECIES_IDS) value += fields[species][k];
+          sum += value;
+          peak = Math.max(peak, value);
+          cells++;
+        }
+      }
+      return {
+        base: layer * dz,
+        top: (layer + 1) * dz,
+        mean: cells > 0 ? sum / cells : 0,
+        peak,
+        capped: layer > 0 && isCapped(layer * dz, this.mixingHeight)
+      };
+    });
   }
 
   getVelocityX(): number[][] {
-    return this.u.map(row => [...row]);
+    return fieldToGrid(this.u, this.getResolution());
   }
 
   getVelocityY(): number[][] {
-    return this.v.map(row => [...row]);
+    return fieldToGrid(this.v, this.getResolution());
+  }
+
+  getVelocityXView(): FieldView {
+    return this.view(this.u);
+  }
+
+  getVelocityYView(): FieldView {
+    return this.view(this.v);
+  }
+
+  addDensitySource(x: number, y: number, amount: number, species: SpeciesId = DEFAULT_SPECIES): void {
+    this.releaseDensity(x, y, amount, species);
+  }
+
+  // Adds mass to one cell; returns how much was released there and how much of it the 255 cap clipped
+  private releaseDensity(
+    x: number, y: number, amount: number, species: SpeciesId, layer: number = 0
+  ): { emitted: number; clipped: number } {
+    if (!this.inBounds(x, y)) return { emitted: 0, clipped: 0 };
+    const k = y * this.width + x;
+    if (this.obstacles[k]) return { emitted: 0, clipped: 0 };
+
+    const field = (layer === 0 ? this.density : this.aloft[layer - 1])[species];
+    const value = field[k] + amount;
+    field[k] = Math.min(255, value);
+    this.totalDensityStale = true;
+    return { emitted: amount, clipped: value - field[k] };
+  }
+
+  getTemperature(): number[][] {
+    return fieldToGrid(this.temperature, this.getResolution());
+  }
+
+  getTemperatureView(): FieldView {
+    return this.view(this.temperature);
+  }
+
+  // Buoyant vertical velocity (positive = rising) at ground level
+  getVerticalVelocity(): number[][] {
+    return fieldToGrid(this.w, this.getResolution());
   }
 
-  addDensitySource(x: number, y: number, amount: number): void {
-    if (x >= 0 && x < this.gridSize && y >= 0 && y < this.gridSize) {
-      if (!this.obstacles[y][x]) {
-        this.density[y][x] += amount;
-        if (this.density[y][x] > 255) this.density[y][x] = 255;
+  getVerticalVelocityView(): FieldView {
+    return this.view(this.w);
+  }
+
+  addTemperatureSource(x: number, y: number, releaseTemperature: number): void {
+    if (this.inBounds(x, y)) {
+      const k = y * this.width + x;
+      if (!this.obstacles[k]) {
+        this.temperature[k] += (releaseTemperature - this.temperature[k]) * SOURCE_THERMAL_MIXING;
       }
     }
   }
 
   addVelocityForce(x: number, y: number, amountX: number, amountY: number): void {
-    if (x >= 0 && x < this.gridSize && y >= 0 && y < this.gridSize) {
-      if (!this.obstacles[y][x]) {
-        this.u[y][x] += amountX;
-        this.v[y][x] += amountY;
+    if (this.inBounds(x, y)) {
+      const k = y * this.width + x;
+      if (!this.obstacles[k]) {
+        this.u[k] += amountX;
+        this.v[k] += amountY;
       }
     }
   }
 
   reset(): void {
-    this.u = this.createField();
-    this.v = this.createField();
-    this.u_prev = this.createField();
-    this.v_prev = this.createField();
-    this.density = this.createField();
-    this.density_prev = this.createField();
+    this.u.fill(0);
+    this.v.fill(0);
+    this.u_prev.fill(0);
+    this.v_prev.fill(0);
+    SPECIES_IDS.forEach(species => {
+      this.density[species].fill(0);
+      this.density_prev[species].fill(0);
+      this.aloft.forEach(layer => layer[species].fill(0));
+    });
+    this.clearDeposition();
+    this.totalDensityStale = true;
+    this.temperature.fill(0);
+    this.temperature_prev.fill(0);
+    this.w.fill(0);
+    this.diagnostics = createSolverDiagnostics();
+    this.outflowStep = createSpeciesTotals();
+    this.outflowTotal = createSpeciesTotals();
+    this.budgetStep = createMassBalance();
+    this.budgetTotal = createMassBalance();
+    this.clock = 0;
+    this.releasedPuffs.clear();
+    this.puffReport = null;
+    this.trails.clear();
+    this.weathering = { evaporated: 0, stranded: 0, waterContent: 0 };
+  }
+
+  // Hours on the simulation clock since the last reset
+  getSimulationTime(): number {
+    return this.clock;
+  }
+
+  // Arrival time and peak concentration downwind of the most recent puff, null before any has gone off
+  getPuffReport(): PuffReport | null {
+    if (!this.puffReport) return null;
+    return { ...this.puffReport, receptors: this.puffReport.receptors.map(receptor => ({ ...receptor })) };
+  }
+
+  // What has become of the slick since the last reset, null if there has been none
+  getSlickWeathering(): SlickWeathering | null {
+    const afloat = SLICK_SPECIES.reduce((sum, species) => sum + this.speciesMass(species), 0);
+    const { evaporated, stranded, waterContent } = this.weathering;
+    if (afloat + evaporated + stranded <= 0) return null;
+    return { afloat, evaporated, stranded, waterContent };
+  }
+
+  // Where each moving source has emitted since the last reset, in source order
+  getSourceTrails(): SourceTrail[] {
+    return [...this.trails.values()]
+      .sort((a, b) => a.source - b.source)
+      .map(trail => ({ ...trail, points: trail.points.map(point => ({ ...point })) }));
+  }
+
+  // Convergence of the most recent step's pressure projection and diffusion solves
+  getSolverDiagnostics(): SolverDiagnostics {
+    return {
+      pressure: { ...this.diagnostics.pressure },
+      diffusion: { ...this.diagnostics.diffusion }
+    };
+  }
+
+  // Mass carried out through the open (outflow and inflow) edges, last step and since the last reset
+  getBoundaryOutflow(): BoundaryOutflow {
+    return {
+      lastStep: { ...this.outflowStep },
+      cumulative: { ...this.outflowTotal }
+    };
+  }
+
+  // Where the pollutant mass went in the last step, and running totals since the last reset
+  getMassBudget(): MassBudget {
+    return {
+      lastStep: copyMassBalance(this.budgetStep),
+      cumulative: copyMassBalance(this.budgetTotal)
+    };
   }
 
   step(parameters: SimulationParameters, sources: PollutionSource[] = []): void {
-    this.dt = 0.1 * (parameters.simulationSpeed || 1.0);
+    // 1. Solve Temperature and Velocity (Always on CPU for consistency)
+    this.stepFlow(parameters, sources);
 
-    // 1. Solve Velocity (Always on CPU for consistency)
-    this.solveVelocity(parameters);
+    this.outflowStep = createSpeciesTotals();
+    this.budgetStep = createMassBalance(sources.length);
+    this.configureLayers(parameters);
+    const startMass = this.domainMass();
+    this.releasePuffs(parameters, sources);
+    this.recordTrails(sources);
 
+    // 2. Transport every species (GPU when available)
     if (this.useGPU && this.gpuEngine) {
       // Pass the computed velocity field to the GPU
       this.gpuEngine.updateVelocity(this.u, this.v);
-      // Run density advection/diffusion on GPU
-      this.gpuEngine.simulateFrame(this.density, parameters, sources, this.obstacles, { readback: true });
+      this.releaseSources(parameters, sources, true);
+      // Run density advection/diffusion on GPU, one pass per species in play
+      for (const species of this.activeSpecies(sources)) {
+        // The GPU pass only advects and diffuses; a slick's spreading and weathering stay on the CPU
+        if (isSlickSpecies(species)) {
+          this.solveSpecies(species, parameters);
+          this.solveAloft(species, parameters);
+          continue;
+        }
+        const speciesSources = sources.filter(source => this.isGPUSource(source, species, parameters));
+        const transport = getSpeciesTransport(species);
+        const before = this.speciesMass(species);
+        this.recordOutflow(species, GPU_DELTA_TIME * transport.advectionScale);
+        this.gpuEngine.simulateFrame(this.density[species], parameters, speciesSources, this.obstacles, {
+          readback: true,
+          // The stability class scales the eddy diffusivity like any other diffusion
+          transport: { ...transport, diffusionScale: transport.diffusionScale * this.mixing.horizontal },
+          boundaries: this.boundaries,
+          clock: this.clock
+        });
+        this.drainDownhill(this.density[species], POLLUTANT_TYPES[species].behavior.sinkRate);
+        this.recordGPUBudget(species, transport, parameters, sources, before);
+        this.solveAloft(species, parameters);
+      }
     } else {
       this.solveDensity(parameters, sources);
     }
+
+    // 3. Rain scavenging (every layer lies below the rain cloud)
+    this.washOut(parameters);
+
+    // 4. Chemistry (CPU, on the transported fields)
+    const preReactionMass = this.domainMass();
+    this.react(parameters);
+    this.totalDensityStale = true;
+
+    this.closeMassBudget(startMass, preReactionMass);
+    if (this.puffReport) {
+      updatePuffReport(this.puffReport, this.density[this.puffReport.species], this.width, this.clock);
+    }
+  }
+
+  // Puffs whose time has come release their whole mass at once, spread over their footprint
+  private releasePuffs(parameters: SimulationParameters, sources: PollutionSource[]) {
+    sources.forEach((source, index) => {
+      if (!isPuffDue(source, this.clock, this.releasedPuffs)) return;
+      this.releasedPuffs.add(getPuffKey(source));
+
+      const mass = source.puffMass ?? DEFAULT_PUFF_MASS;
+      const layer = this.releaseLayer(source, parameters);
+      getPuffFootprint(source, this.getResolution(), (x, y) => !this.obstacles[y * this.width + x]).forEach(cell => {
+        const { emitted, clipped } = this.releaseDensity(cell.x, cell.y, mass * cell.share, source.type, layer);
+        this.budgetStep.emitted[index] += emitted;
+        this.budgetStep.clampLoss += clipped;
+      });
+      this.puffReport = createPuffReport(source, index, this.clock, parameters.windDirection, this.getResolution());
+    });
+  }
+
+  // Layer a source's plume levels off in: its stack height plus the Briggs rise. With a single layer, or below
+  // the top of the ground layer, that is the ground layer.
+  private releaseLayer(source: PollutionSource, parameters: SimulationParameters): number {
+    if (this.aloft.length === 0) return 0;
+    const height = getEffectiveStackHeight(source, parameters.windSpeed * WIND_SPEED_SCALE, resolveStabilityClass(parameters));
+    return Math.min(this.aloft.length, Math.floor(height / getLayerThickness(this.aloft.length + 1)));
+  }
+
+  // Continuous emission for the step, each source into the layer its plume rises to. The GPU pass injects the
+  // ground layer's sources itself, so with skipGPU only the rest (elevated releases and slicks, which stay on
+  // the CPU) are released here.
+  private releaseSources(parameters: SimulationParameters, sources: PollutionSource[], skipGPU: boolean) {
+    sources.forEach((source, index) => {
+      if (!source.active || isPuff(source)) return;
+      if (skipGPU && this.isGPUSource(source, source.type, parameters)) return;
+      const layer = this.releaseLayer(source, parameters);
+      // Per cell of length or area for lines and areas
+      const rate = getScheduledReleaseRate(source, parameters.releaseRate, this.clock);
+      this.emissionFootprint(source).forEach(cell => {
+        const { emitted, clipped } = this.releaseDensity(cell.x, cell.y, rate * cell.weight, source.type, layer);
+        this.budgetStep.emitted[index] += emitted;
+        this.budgetStep.clampLoss += clipped;
+      });
+    });
+  }
+
+  // Cells a source emits into: its own for point sources, the open cells under a line or area, and around
+  // where a moving source has got to on the clock
+  private emissionFootprint(source: PollutionSource): EmissionCell[] {
+    return getEmissionFootprint(source, this.getResolution(), (x, y) => !this.obstacles[y * this.width + x], this.clock);
+  }
+
+  // Moving sources leave a trail of where they were while under way and switched on
+  private recordTrails(sources: PollutionSource[]) {
+    sources.forEach((source, index) => {
+      const position = source.active ? getRoutePosition(source, this.clock) : null;
+      if (!position) return;
+      let trail = this.trails.get(index);
+      if (!trail || trail.species !== source.type) {
+        trail = { source: index, species: source.type, points: [] };
+        this.trails.set(index, trail);
+      }
+      extendTrail(trail.points, position.x, position.y, this.clock);
+    });
+  }
+
+  // Advances only the temperature and wind by one step; the concentrations are left alone. Engines that
+  // carry pollution themselves (the particle model) use this flow.
+  stepFlow(parameters: SimulationParameters, sources: PollutionSource[] = []): void {
+    this.dt = 0.1 * (parameters.simulationSpeed || 1.0);
+    this.solverTolerance = parameters.solverTolerance ?? DEFAULT_SOLVER_TOLERANCE;
+    this.solverMaxIterations = parameters.solverMaxIterations ?? DEFAULT_SOLVER_MAX_ITERATIONS;
+    this.advectionScheme = parameters.advectionScheme ?? DEFAULT_ADVECTION_SCHEME;
+    this.mixing = getEddyDiffusivityScale(resolveStabilityClass(parameters));
+    this.clock += this.dt * HOURS_PER_TIME_UNIT;
+    this.diagnostics = createSolverDiagnostics();
+    this.ambient = getAmbientCurrent(parameters, this.clock);
+    this.updateChannelShape(parameters);
+    this.applyBoundaries(resolveBoundaries(parameters.boundaries), this.ambient);
+
+    this.solveTemperature(parameters, sources);
+    this.solveVelocity(parameters);
+  }
+
+  // Sum of a species over the interior fluid cells of every layer (ghost cells only mirror their neighbours)
+  private speciesMass(species: SpeciesId): number {
+    return this.layers().reduce((sum, layer) => sum + this.fluidSum(layer[species]), 0);
+  }
+
+  // Every layer's fields, ground first
+  private layers(): SpeciesFields[] {
+    return [this.density, ...this.aloft];
+  }
+
+  // Adds or removes layers to match the parameters (mass in removed layers is dropped) and rebuilds the
+  // column mixer for this step's lid and time step
+  private configureLayers(parameters: SimulationParameters) {
+    const count = getLayerCount(parameters.verticalLayers);
+    while (this.aloft.length < count - 1) {
+      this.aloft.push(createSpeciesFields(this.getResolution()));
+    }
+    this.aloft.length = count - 1;
+
+    this.mixingHeight = parameters.mixingHeight ?? DEFAULT_MIXING_HEIGHT;
+    this.columnMixer = count > 1
+      ? createColumnMixer(getInterfaceExchange(count, this.mixingHeight, this.mixing.vertical), this.dt)
+      : null;
+    if (!this.column || this.column.length !== count) this.column = new Float64Array(count);
+  }
+
+  private domainMass(): number {
+    return SPECIES_IDS.reduce((sum, species) => sum + this.speciesMass(species), 0);
+  }
+
+  // Splits a first-order loss into deposition and decay
+  private recordLoss(transport: SpeciesTransport, parameters: SimulationParameters, loss: number) {
+    const deposition = loss * getDepositionShare(transport, parameters.decayFactor, this.dt);
+    this.budgetStep.deposition += deposition;
+    this.budgetStep.decay += loss - deposition;
+  }
+
+  // Sources of a species the GPU pass injects: continuous ones releasing into the ground layer, other than slicks
+  private isGPUSource(source: PollutionSource, species: SpeciesId, parameters: SimulationParameters): boolean {
+    return source.type === species && !isPuff(source) && !isSlickSpecies(species) && this.releaseLayer(source, parameters) === 0;
+  }
+
+  // The GPU pass only returns the transported field, so its losses are inferred: decay and deposition act on
+  // what advection, diffusion and injection left, and whatever else went missing was clipped by the clamp
+  private recordGPUBudget(
+    species: SpeciesId, transport: SpeciesTransport, parameters: SimulationParameters, sources: PollutionSource[], before: number
+  ) {
+    let emitted = 0;
+    sources.forEach((source, index) => {
+      if (source.active && this.isGPUSource(source, species, parameters)) {
+        const strength = getScheduledReleaseRate(source, parameters.releaseRate, this.clock);
+        const amount = getGPUSourceEmission(source, strength, this.width, this.height, this.obstacles, this.clock);
+        this.budgetStep.emitted[index] += amount;
+        emitted += amount;
+      }
+    });
+
+    const survival = getSurvivalFactor(transport, parameters.decayFactor, this.dt);
+    const preDecay = before - this.outflowStep[species] + emitted;
+    this.recordLoss(transport, parameters, preDecay * (1 - survival));
+    this.budgetStep.clampLoss += preDecay * survival - this.speciesMass(species);
+
+    // Each cell's deposit is inferred from what survived in it
+    if (survival <= 0) return;
+    const settled = ((1 - survival) / survival) * getDepositionShare(transport, parameters.decayFactor, this.dt);
+    const field = this.density[species];
+    const deposit = this.dryDeposition[species];
+    for (let k = 0; k < field.length; k++) {
+      if (!this.obstacles[k]) deposit[k] += field[k] * settled;
+    }
+  }
+
+  // Totals the step's budget; whatever the recorded terms do not explain is the transport's conservation error
+  private closeMassBudget(startMass: number, preReactionMass: number) {
+    const step = this.budgetStep;
+    step.total = this.domainMass();
+    step.chemistry = step.total - preReactionMass;
+    step.outflow = SPECIES_IDS.reduce((sum, species) => sum + this.outflowStep[species], 0);
+    const emitted = step.emitted.reduce((sum, amount) => sum + amount, 0);
+    step.imbalance = startMass + emitted + step.chemistry -
+      step.decay - step.deposition - step.washout - step.outflow - step.clampLoss - step.total;
+
+    const total = this.budgetTotal;
+    step.emitted.forEach((amount, index) => {
+      total.emitted[index] = (total.emitted[index] ?? 0) + amount;
+    });
+    total.decay += step.decay;
+    total.deposition += step.deposition;
+    total.washout += step.washout;
+    total.outflow += step.outflow;
+    total.clampLoss += step.clampLoss;
+    total.chemistry += step.chemistry;
+    total.imbalance += step.imbalance;
+    total.total = step.total;
   }
 
   // --- CPU Physics Implementation (Navier-Stokes) ---
 
   private solveVelocity(parameters: SimulationParameters): void {
-    const N = this.gridSize;
     const visc = parameters.viscosity * 0.0001;
-    const windSpeed = parameters.windSpeed;
-    const windDir = parameters.windDirection;
-
-    // Add Wind as force
-    const angleRad = (windDir * Math.PI) / 180;
-    const forceX = Math.cos(angleRad) * windSpeed * 0.5;
-    const forceY = Math.sin(angleRad) * windSpeed * 0.5;
-
-    for (let i = 0; i < N; i++) {
-      for (let j = 0; j < N; j++) {
-        if (!this.obstacles[i][j]) {
-          this.u_prev[i][j] = forceX;
-          this.v_prev[i][j] = forceY;
+
+    // Add Wind as a force pulling the flow towards the ambient wind (open and periodic edges
+    // don't hold the flow back, so the pull is what keeps the wind from accelerating forever).
+    // In water the pull is towards the river's profile across its channel.
+    const ambient = this.ambient;
+    const shape = this.channelShape;
+    for (let k = 0; k < this.obstacles.length; k++) {
+      if (!this.obstacles[k]) {
+        let windX = shape ? ambient.x * shape[k] : ambient.x;
+        let windY = shape ? ambient.y * shape[k] : ambient.y;
+
+        // Hills turn the wind along their contours: the part blowing straight up or down the slope
+        // is removed, more of it the steeper the ground
+        if (this.hasTerrain) {
+          const gx = this.slopeX[k];
+          const gy = this.slopeY[k];
+          const slope2 = gx * gx + gy * gy;
+          if (slope2 > 0) {
+            const slope = Math.sqrt(slope2);
+            const deflection = slope / (slope + TERRAIN_DEFLECTION_SLOPE);
+            const across = (windX * gx + windY * gy) / slope2;
+            windX -= deflection * across * gx;
+            windY -= deflection * across * gy;
+          }
         }
+
+        this.u_prev[k] = (windX - this.u[k]) * WIND_RELAXATION;
+        this.v_prev[k] = (windY - this.v[k]) * WIND_RELAXATION;
       }
     }
     this.add_source(this.u, this.u_prev, this.dt);
     this.add_source(this.v, this.v_prev, this.dt);
 
+    // Buoyancy: warm air rises and draws surface air in, cold air sinks and spreads out
+    this.computeUpdraft(parameters);
+    this.applyTurbulence(parameters);
+
     if (visc > 0) {
       this.diffuse(1, this.u_prev, this.u, visc);
       this.diffuse(2, this.v_prev, this.v, visc);
@@ -154,7 +923,9 @@ export class FluidDynamics {
       this.advect(2, this.v, this.v_prev, this.u_prev, this.v_prev);
       this.project(this.u, this.v, this.u_prev, this.v_prev);
     } else {
-      // Inviscid solver (faster, good for smoke)
+      // Inviscid solver (faster, good for smoke): the diffusion solve is skipped
+      this.u_prev.set(this.u);
+      this.v_prev.set(this.v);
       this.project(this.u_prev, this.v_prev, this.u, this.v);
       this.advect(1, this.u, this.u_prev, this.u_prev, this.v_prev);
       this.advect(2, this.v, this.v_prev, this.u_prev, this.v_prev);
@@ -162,95 +933,675 @@ export class FluidDynamics {
     }
   }
 
-  private solveDensity(parameters: SimulationParameters, sources: PollutionSource[]): void {
-    const N = this.gridSize;
-    const diff = parameters.diffusionRate * 0.0001;
+  // Subgrid eddies: a Smagorinsky viscosity that is largest where the wind shears (wakes, wall edges), and
+  // vorticity confinement to keep the eddies the grid does resolve from being smoothed away
+  private applyTurbulence(parameters: SimulationParameters): void {
+    const cells = this.scale - 2;
+    if ((parameters.turbulenceModel ?? DEFAULT_TURBULENCE_MODEL) === 'smagorinsky') {
+      const constant = parameters.smagorinskyConstant ?? DEFAULT_SMAGORINSKY_CONSTANT;
+      computeEddyViscosity(this.u, this.v, this.obstacles, this.width, this.height, cells, constant, this.dt, this.eddy_viscosity);
+      diffuseWithEddyViscosity(this.u, this.turbulence_scratch, this.eddy_viscosity, this.obstacles, this.width, this.height);
+      diffuseWithEddyViscosity(this.v, this.turbulence_scratch, this.eddy_viscosity, this.obstacles, this.width, this.height);
+    }
+
+    const confinement = parameters.vorticityConfinement ?? DEFAULT_VORTICITY_CONFINEMENT;
+    if (confinement > 0) {
+      applyVorticityConfinement(this.u, this.v, this.obstacles, this.width, this.height, cells, confinement, this.dt, this.turbulence_scratch);
+    }
+  }
+
+  private solveTemperature(parameters: SimulationParameters, sources: PollutionSource[]): void {
+    const diff = parameters.diffusionRate * 0.0001 * this.mixing.horizontal;
 
-    // Add Sources
     sources.forEach(source => {
-      if (source.active) {
-        this.addDensitySource(source.x, source.y, source.releaseRate !== undefined ? source.releaseRate : parameters.releaseRate);
+      const releaseTemperature = getReleaseTemperature(source);
+      if (source.active && !isPuff(source) && releaseTemperature !== 0) {
+        // A burning field heats every cell it covers
+        this.emissionFootprint(source).forEach(cell => this.addTemperatureSource(cell.x, cell.y, releaseTemperature));
       }
     });
 
-    // Diffuse Density
-    [this.density, this.density_prev] = [this.density_prev, this.density];
-    this.diffuse(0, this.density, this.density_prev, diff);
+    // Heat is mixed and carried like any other scalar
+    [this.temperature, this.temperature_prev] = [this.temperature_prev, this.temperature];
+    this.diffuse(0, this.temperature, this.temperature_prev, diff);
+    [this.temperature, this.temperature_prev] = [this.temperature_prev, this.temperature];
+    this.advect(0, this.temperature, this.temperature_prev, this.u, this.v);
 
-    // Advect Density
-    [this.density, this.density_prev] = [this.density_prev, this.density];
-    this.advect(0, this.density, this.density_prev, this.u, this.v);
+    const relaxation = Math.exp(-THERMAL_RELAXATION * this.dt);
+    const temperature = this.temperature;
+    for (let k = 0; k < temperature.length; k++) {
+      temperature[k] *= relaxation;
+    }
+  }
+
+  // Boussinesq updraft w = g * beta * dT; its mean is removed so rising and sinking air balance
+  private computeUpdraft(parameters: SimulationParameters): void {
+    const buoyancy = (parameters.buoyancy ?? DEFAULT_BUOYANCY) * BUOYANCY_SCALE;
+    const w = this.w;
+    const obstacles = this.obstacles;
 
-    // Apply Decay
-    for (let i = 0; i < N; i++) {
-      for (let j = 0; j < N; j++) {
-        this.density[i][j] *= parameters.decayFactor;
-        if (this.density[i][j] < 0) this.density[i][j] = 0;
-        if (this.density[i][j] > 255) this.density[i][j] = 255;
+    let sum = 0;
+    let cells = 0;
+    for (let k = 0; k < w.length; k++) {
+      if (obstacles[k]) {
+        w[k] = 0;
+        continue;
       }
+      w[k] = buoyancy * this.temperature[k];
+      sum += w[k];
+      cells++;
+    }
+
+    const mean = cells > 0 ? sum / cells : 0;
+    for (let k = 0; k < w.length; k++) {
+      if (!obstacles[k]) w[k] -= mean;
     }
   }
 
-  // Operation 0: Density, 1: X-Velocity, 2: Y-Velocity
-  private add_source(x: number[][], s: number[][], dt: number) {
-    const N = this.gridSize;
-    for (let i = 0; i < N; i++) {
-      for (let j = 0; j < N; j++) {
-        x[i][j] += dt * s[i][j];
+  // Species with an active source or mass still in the domain; the rest are skipped
+  private activeSpecies(sources: PollutionSource[]): SpeciesId[] {
+    return SPECIES_IDS.filter(species =>
+      sources.some(source => source.active && source.type === species) ||
+      this.layers().some(layer => layer[species].some(val => val > 0))
+    );
+  }
+
+  private solveDensity(parameters: SimulationParameters, sources: PollutionSource[]): void {
+    // Add Sources
+    this.releaseSources(parameters, sources, false);
+
+    // Every species is carried by the same velocity field
+    for (const species of this.activeSpecies(sources)) {
+      this.solveSpecies(species, parameters);
+      this.solveAloft(species, parameters);
+    }
+  }
+
+  private solveSpecies(species: SpeciesId, parameters: SimulationParameters): void {
+    const transport = getSpeciesTransport(species);
+    const diff = parameters.diffusionRate * 0.0001 * transport.diffusionScale * this.mixing.horizontal;
+    const slick = getSlickBehavior(species);
+
+    if (slick) {
+      // A slick spreads under its own weight instead of mixing; mousse is far more viscous and spreads slower
+      spreadSlick(this.density[species], this.density_prev[species], this.obstacles, this.width, this.height,
+        slick.spreading * (1 - this.weathering.waterContent), this.dt);
+      this.set_bnd(0, this.density[species]);
+    } else {
+      // Diffuse Density
+      [this.density[species], this.density_prev[species]] = [this.density_prev[species], this.density[species]];
+      this.diffuse(0, this.density[species], this.density_prev[species], diff);
+    }
+
+    // Advect Density (heavy species lag the wind)
+    [this.density[species], this.density_prev[species]] = [this.density_prev[species], this.density[species]];
+    this.carry(species, this.density[species], this.density_prev[species], transport.advectionScale);
+    this.drainDownhill(this.density[species], POLLUTANT_TYPES[species].behavior.sinkRate);
+
+    // Apply Decay, first-order chemical loss and settling; what settles stays on the ground
+    const survival = getSurvivalFactor(transport, parameters.decayFactor, this.dt);
+    const depositionShare = getDepositionShare(transport, parameters.decayFactor, this.dt);
+    const field = this.density[species];
+    const deposit = this.dryDeposition[species];
+    const W = this.width;
+    const H = this.height;
+    let loss = 0;
+    let clipped = 0;
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+        const val = field[k] * survival;
+        const clamped = val < 0 ? 0 : val > 255 ? 255 : val;
+        loss += field[k] - val;
+        clipped += val - clamped;
+        if (val > 0 && !this.obstacles[k]) deposit[k] += (field[k] - val) * depositionShare;
+        field[k] = clamped;
+      }
+    }
+    this.set_bnd(0, field);
+    this.recordLoss(transport, parameters, loss);
+    this.budgetStep.clampLoss += clipped;
+    if (slick) this.weatherSlick(species, slick, parameters);
+  }
+
+  // Evaporation to the air, stranding on banks and water uptake into mousse. Evaporation slows as the oil
+  // released so far loses its volatile share; all slick species share one weathering state.
+  private weatherSlick(species: SpeciesId, slick: SlickBehavior, parameters: SimulationParameters): void {
+    const field = this.density[species];
+    const weathering = this.weathering;
+    const afloat = this.fluidSum(field);
+    const released = afloat + weathering.evaporated + weathering.stranded;
+    const evaporatedShare = released > 0 ? weathering.evaporated / released : 0;
+    const evaporation = 1 - Math.exp(-getEvaporationRate(slick, evaporatedShare) * this.dt);
+    const W = this.width;
+    const H = this.height;
+
+    let evaporated = 0;
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+        if (this.obstacles[k]) continue;
+        const loss = field[k] * evaporation;
+        field[k] -= loss;
+        evaporated += loss;
+      }
+    }
+    const stranded = strandSlick(field, this.obstacles, W, H, 1 - Math.exp(-slick.stranding * this.dt), this.dryDeposition[species]);
+    this.set_bnd(0, field);
+
+    weathering.evaporated += evaporated;
+    weathering.stranded += stranded;
+    if (afloat > 0) weathering.waterContent = getWaterContent(slick, weathering.waterContent, parameters.windSpeed, this.dt);
+    this.budgetStep.decay += evaporated;
+    this.budgetStep.deposition += stranded;
+  }
+
+  // Carries a species in the layers above the ground, then exchanges it between the layers of each column.
+  // The upper layers ride the ground-level flow, sped up with height; over the few steps a plume spends
+  // aloft their horizontal eddy diffusion is small next to the vertical exchange, so it is left out.
+  private solveAloft(species: SpeciesId, parameters: SimulationParameters): void {
+    const mixer = this.columnMixer;
+    if (!mixer) return;
+
+    const transport = getSpeciesTransport(species);
+    const scratch = this.density_prev[species];
+    this.aloft.forEach((layer, index) => {
+      const windFactor = getWindProfileFactor(index + 1);
+      scratch.set(layer[species]);
+      this.carry(species, layer[species], scratch, windFactor);
+    });
+
+    const fields = this.layers().map(layer => layer[species]);
+    const count = fields.length;
+    const column = this.column;
+    const w = this.w;
+    const loftCapped = isCapped(getLayerThickness(count), this.mixingHeight);
+    const loftRate = UPDRAFT_LOFT_RATE * this.dt * (loftCapped ? 0 : 1);
+    const settling = getSettlingFraction(transport, this.dt);
+    const survival = getAirborneSurvivalFactor(transport, parameters.decayFactor, this.dt);
+    const W = this.width;
+    const H = this.height;
+    let loss = 0;
+    let clipped = 0;
+
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+        if (this.obstacles[k]) continue;
+        for (let n = 0; n < count; n++) column[n] = fields[n][k];
+
+        // Rising warm air lifts the ground layer into the next one (unless the lid caps the rise),
+        // and heavy species settle one layer per step towards the ground
+        if (w[k] > 0 && loftRate > 0) {
+          const lofted = column[0] * Math.min(MAX_LOFT_FRACTION, w[k] * loftRate);
+          column[0] -= lofted;
+          column[1] += lofted;
+        }
+        if (settling > 0) {
+          for (let n = 1; n < count; n++) {
+            const settled = column[n] * settling;
+            column[n] -= settled;
+            column[n - 1] += settled;
+          }
+        }
+        mixColumn(mixer, column);
+
+        // Decay and chemistry aloft (the ground layer's losses, deposition included, were applied by the
+        // horizontal solve)
+        for (let n = 0; n < count; n++) {
+          const val = n > 0 ? column[n] * survival : column[n];
+          const clamped = val < 0 ? 0 : val > 255 ? 255 : val;
+          loss += column[n] - val;
+          clipped += val - clamped;
+          fields[n][k] = clamped;
+        }
+      }
+    }
+    fields.forEach(field => this.set_bnd(0, field));
+    this.budgetStep.decay += loss;
+    this.budgetStep.clampLoss += clipped;
+  }
+
+  // Mass about to be advected out through the open edges. Walking inward from each edge, a cell whose
+  // content travels d cells outward this step loses the part lying within d of the edge face.
+  private recordOutflow(species: SpeciesId, cellsPerVelocity: number, field: Float32Array = this.density[species]): number {
+    const W = this.width;
+    const H = this.height;
+    const sweep = (start: number, stride: number, velocity: Float32Array, outward: number, cells: number): number => {
+      let mass = 0;
+      for (let n = 0; n < cells; n++) {
+        const k = start + n * stride;
+        const reach = outward * velocity[k] * cellsPerVelocity - n;
+        if (reach <= 0) break;
+        mass += field[k] * Math.min(1, reach);
+      }
+      return mass;
+    };
+
+    let mass = 0;
+    for (let i = 1; i < H - 1; i++) {
+      const row = i * W;
+      if (isOpenBoundary(this.boundaries.left)) mass += sweep(row + 1, 1, this.u, -1, W - 2);
+      if (isOpenBoundary(this.boundaries.right)) mass += sweep(row + W - 2, -1, this.u, 1, W - 2);
+    }
+    for (let j = 1; j < W - 1; j++) {
+      if (isOpenBoundary(this.boundaries.top)) mass += sweep(W + j, W, this.v, -1, H - 2);
+      if (isOpenBoundary(this.boundaries.bottom)) mass += sweep((H - 2) * W + j, -W, this.v, 1, H - 2);
+    }
+
+    this.outflowStep[species] += mass;
+    this.outflowTotal[species] += mass;
+    return mass;
+  }
+
+  // Carries a species along the flow (scaled for heavy species or height), booking what leaves by open edges.
+  // What the scheme drops or adds where the flow converges or diverges goes back to those cells.
+  private carry(species: SpeciesId, d: Float32Array, d0: Float32Array, velocityScale: number) {
+    const cellsPerVelocity = this.dt * (this.scale - 2) * velocityScale;
+    const kept = this.fluidSum(d0) - this.recordOutflow(species, cellsPerVelocity, d0);
+    this.advect(0, d, d0, this.u, this.v, velocityScale, true);
+    this.restoreDivergence(d, kept, cellsPerVelocity);
+    this.set_bnd(0, d);
+  }
+
+  /**
+   * The advection schemes carry values along the flow, which drops the mass of air converging on a cell (updrafts
+   * pull the surface flow in, see project) and adds mass where it diverges. The difference from what the step
+   * kept is settled on the cells that caused it, in proportion to what each should have gathered or shed
+   * (c x |div u|), and never beyond that; the scheme's other conservation error is left for the budget's imbalance.
+   */
+  private restoreDivergence(d: Float32Array, kept: number, cellsPerVelocity: number) {
+    const W = this.width;
+    const u = this.u;
+    const v = this.v;
+    const change = this.advect_forward;
+    const error = kept - this.fluidSum(d);
+    let expected = 0;
+    this.forEachFluidCell(k => {
+      const divergence = 0.5 * (u[k + 1] - u[k - 1] + v[k + W] - v[k - W]);
+      // Converging cells take back what went missing, diverging ones give up the surplus
+      change[k] = divergence * error < 0 ? d[k] * Math.abs(divergence) * cellsPerVelocity : 0;
+      expected += change[k];
+    });
+
+    const settled = Math.sign(error) * Math.min(Math.abs(error), expected);
+    if (settled === 0) return;
+    this.forEachFluidCell(k => {
+      d[k] += (settled * change[k]) / expected;
+    });
+  }
+
+  // Heavy species run down the terrain slope and pool in hollows. Each face between two cells moves mass
+  // from the upper cell to the lower one (upwind), so the drainage conserves mass and can pile it up.
+  private drainDownhill(field: Float32Array, sinkRate: number) {
+    if (!this.hasTerrain || sinkRate <= 0) return;
+
+    const W = this.width;
+    const H = this.height;
+    const terrain = this.terrain;
+    const obstacles = this.obstacles;
+    const src = this.advect_forward;
+    src.set(field);
+    const courantPerDrop = DRAINAGE_SPEED * sinkRate * this.dt * (this.scale - 2) * this.scale;
+
+    const exchange = (k: number, n: number) => {
+      if (obstacles[k] || obstacles[n]) return;
+      const drop = terrain[k] - terrain[n]; // > 0 when n is downhill of k
+      if (drop === 0) return;
+      const courant = Math.min(MAX_DRAINAGE_COURANT, Math.abs(drop) * courantPerDrop);
+      const flow = drop > 0 ? courant * src[k] : -courant * src[n];
+      field[k] -= flow;
+      field[n] += flow;
+    };
+
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+        if (j < W - 2) exchange(k, k + 1);
+        if (i < H - 2) exchange(k, k + W);
+      }
+    }
+    this.set_bnd(0, field);
+  }
+
+  // Rain removes soluble species from the whole column at their scavenging rate and lays the mass on the
+  // ground beneath, where it builds up in the wet deposition map
+  private washOut(parameters: SimulationParameters): void {
+    const W = this.width;
+    const H = this.height;
+    for (const species of SPECIES_IDS) {
+      const removal = 1 - Math.exp(-getScavengingRate(species, parameters.rainIntensity) * this.dt);
+      if (removal <= 0) continue;
+      const deposit = this.wetDeposition[species];
+      for (const layer of this.layers()) {
+        const field = layer[species];
+        for (let i = 1; i < H - 1; i++) {
+          for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+            if (this.obstacles[k] || field[k] <= 0) continue;
+            const removed = field[k] * removal;
+            field[k] -= removed;
+            deposit[k] += removed;
+            this.budgetStep.washout += removed;
+          }
+        }
       }
     }
   }
 
-  private diffuse(b: number, x: number[][], x0: number[][], diff: number) {
-    const N = this.gridSize;
-    const a = this.dt * diff * (N - 2) * (N - 2);
+  private react(parameters: SimulationParameters): void {
+    const env = getReactionEnvironment(parameters, this.dt);
+    this.layers().forEach(layer => {
+      this.reactionMechanisms.forEach(mechanism => mechanism.react(layer, env));
+    });
+  }
+
+  // Operation 0: Density, 1: X-Velocity, 2: Y-Velocity
+  private add_source(x: Float32Array, s: Float32Array, dt: number) {
+    for (let k = 0; k < x.length; k++) {
+      x[k] += dt * s[k];
+    }
+  }
+
+  private diffuse(b: number, x: Float32Array, x0: Float32Array, diff: number) {
+    const a = this.dt * diff * (this.scale - 2) * (this.scale - 2);
     this.lin_solve(b, x, x0, a, 1 + 4 * a);
   }
 
-  private lin_solve(b: number, x: number[][], x0: number[][], a: number, c: number) {
-    const N = this.gridSize;
-    // Jacobi Iteration
-    // Higher iterations = more accurate but slower. 10-20 is usually good for games.
-    for (let k = 0; k < 15; k++) {
-      for (let i = 1; i < N - 1; i++) {
-        for (let j = 1; j < N - 1; j++) {
-          if (!this.obstacles[i][j]) {
-            x[i][j] = (x0[i][j] + a * (x[i - 1][j] + x[i + 1][j] + x[i][j - 1] + x[i][j + 1])) / c;
-          } else {
-            x[i][j] = 0;
+  // Solves c * x - a * (sum of neighbours) = x0 over the fluid cells using conjugate gradients
+  // preconditioned with modified incomplete Cholesky, MIC(0). Domain-edge and obstacle neighbours
+  // are folded into the diagonal so the operator stays symmetric.
+  private lin_solve(b: number, x: Float32Array, x0: Float32Array, a: number, c: number, kind: SolverKind = 'diffusion') {
+    const W = this.width;
+    const H = this.height;
+    const r = this.solver_r;
+    const z = this.solver_z;
+    const s = this.solver_s;
+    const q = this.solver_q;
+    const mask = this.solver_mask;
+    const rhs = this.solver_rhs;
+
+    this.buildPreconditioner(b, a, c);
+    this.buildRightHandSide(b, x0, a);
+
+    // r = rhs - A x
+    this.applyOperator(b, a, x, q);
+    let rhsNorm = 0;
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+        if (mask[k]) {
+          r[k] = rhs[k] - q[k];
+          rhsNorm = Math.max(rhsNorm, Math.abs(rhs[k]));
+        } else {
+          r[k] = 0;
+        }
+      }
+    }
+
+    let iterations = 0;
+    let residual = 0;
+    if (rhsNorm === 0) {
+      this.fillFluid(x, 0);
+    } else {
+      residual = this.maxAbs(r) / rhsNorm;
+
+      if (residual > this.solverTolerance) {
+        let sigma = this.applyPreconditioner(a, r, z);
+        s.set(z);
+
+        while (iterations < this.solverMaxIterations) {
+          iterations++;
+          const sq = this.applyOperator(b, a, s, q);
+          if (sq === 0) break;
+
+          const alpha = sigma / sq;
+          let rMax = 0;
+          for (let i = 1; i < H - 1; i++) {
+            for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+              if (!mask[k]) continue;
+              x[k] += alpha * s[k];
+              r[k] -= alpha * q[k];
+              rMax = Math.max(rMax, Math.abs(r[k]));
+            }
+          }
+
+          residual = rMax / rhsNorm;
+          if (residual <= this.solverTolerance) break;
+
+          const sigmaNew = this.applyPreconditioner(a, r, z);
+          const beta = sigmaNew / sigma;
+          for (let k = 0; k < s.length; k++) {
+            s[k] = z[k] + beta * s[k];
           }
+          sigma = sigmaNew;
         }
       }
-      this.set_bnd(b, x);
     }
+
+    // Solid cells carry nothing
+    for (let k = 0; k < x.length; k++) {
+      if (this.obstacles[k]) x[k] = 0;
+    }
+    this.set_bnd(b, x);
+    this.recordSolve(kind, { iterations, residual, converged: residual <= this.solverTolerance });
+  }
+
+  // rhs = x0 plus the known contribution a * ghost of prescribed (inflow) ghost cells
+  private buildRightHandSide(b: number, x0: Float32Array, a: number) {
+    const W = this.width;
+    const H = this.height;
+    const rhs = this.solver_rhs;
+    const rules = this.edgeRules[b];
+
+    for (let k = 0; k < rhs.length; k++) rhs[k] = x0[k];
+    for (let i = 1; i < H - 1; i++) {
+      rhs[i * W + 1] += a * (prescribedGhost(rules.left, i) ?? 0);
+      rhs[i * W + W - 2] += a * (prescribedGhost(rules.right, i) ?? 0);
+    }
+    for (let j = 1; j < W - 1; j++) {
+      rhs[W + j] += a * (prescribedGhost(rules.top, j) ?? 0);
+      rhs[(H - 2) * W + j] += a * (prescribedGhost(rules.bottom, j) ?? 0);
+    }
+  }
+
+  // Marks the unknowns, folds boundary/obstacle neighbours into the diagonal and factors MIC(0).
+  // The factorisation only depends on the coefficients, edges and obstacles, so it is reused until they change.
+  // Periodic couplings across the domain are left out of the factorisation (the operator applies them).
+  private buildPreconditioner(b: number, a: number, c: number) {
+    const key = `${b}:${a}:${c}`;
+    if (key === this.solverKey) return;
+    this.solverKey = key;
+
+    const W = this.width;
+    const H = this.height;
+    const mask = this.solver_mask;
+    const diag = this.solver_diag;
+    const precon = this.solver_precon;
+
+    // Ghost value as a multiple of the cell itself: edges follow their boundary rule, obstacles are
+    // no-flux for scalars and pressure and no-slip for velocity
+    const rules = this.edgeRules[b];
+    const obstacle = b === 0 || b === 3 ? 1 : 0;
+    const selfWeight = (ni: number, nj: number): number => {
+      if (nj === 0) return ghostSelfWeight(rules.left);
+      if (nj === W - 1) return ghostSelfWeight(rules.right);
+      if (ni === 0) return ghostSelfWeight(rules.top);
+      if (ni === H - 1) return ghostSelfWeight(rules.bottom);
+      return this.obstacles[ni * W + nj] ? obstacle : 0;
+    };
+
+    mask.fill(0);
+    precon.fill(0);
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+        if (this.obstacles[k]) continue;
+        diag[k] = c - a * (selfWeight(i - 1, j) + selfWeight(i + 1, j) + selfWeight(i, j - 1) + selfWeight(i, j + 1));
+        // A fluid cell walled in on every side has no degree of freedom
+        if (diag[k] > 0) mask[k] = 1;
+      }
+    }
+
+    const tau = 0.97;
+    const safety = 0.25;
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+        if (!mask[k]) continue;
+        const left = mask[k - 1] ? -a * precon[k - 1] : 0;
+        const down = mask[k - W] ? -a * precon[k - W] : 0;
+        const leftUp = mask[k - 1] && mask[k + W - 1] ? -a : 0;
+        const downRight = mask[k - W] && mask[k - W + 1] ? -a : 0;
+
+        let e = diag[k] - left * left - down * down -
+          tau * (left * leftUp * precon[k - 1] + down * downRight * precon[k - W]);
+        if (e < safety * diag[k]) e = diag[k];
+        precon[k] = 1 / Math.sqrt(e);
+      }
+    }
+  }
+
+  // out = A p over the unknowns (non-unknown entries of p are treated as zero); returns p . out
+  private applyOperator(b: number, a: number, p: Float32Array | Float64Array, out: Float64Array): number {
+    const W = this.width;
+    const H = this.height;
+    const mask = this.solver_mask;
+    const diag = this.solver_diag;
+    const rules = this.edgeRules[b];
+    let dot = 0;
+
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+        if (!mask[k]) {
+          out[k] = 0;
+          continue;
+        }
+        const neighbours =
+          mask[k - W] * p[k - W] + mask[k + W] * p[k + W] +
+          mask[k - 1] * p[k - 1] + mask[k + 1] * p[k + 1];
+        out[k] = diag[k] * p[k] - a * neighbours;
+        dot += p[k] * out[k];
+      }
+    }
+
+    // Periodic edges couple the first and last interior cells of each row/column
+    const wrap = (first: number, last: number) => {
+      if (!mask[first] || !mask[last]) return;
+      out[first] -= a * p[last];
+      out[last] -= a * p[first];
+      dot -= 2 * a * p[first] * p[last];
+    };
+    if (rules.left.kind === 'periodic') {
+      for (let i = 1; i < H - 1; i++) wrap(i * W + 1, i * W + W - 2);
+    }
+    if (rules.top.kind === 'periodic') {
+      for (let j = 1; j < W - 1; j++) wrap(W + j, (H - 2) * W + j);
+    }
+    return dot;
+  }
+
+  // z = (L L^T)^-1 r via forward then backward substitution; returns z . r.
+  // Every off-diagonal coupling between two unknowns is -a.
+  private applyPreconditioner(a: number, r: Float64Array, z: Float64Array): number {
+    const W = this.width;
+    const H = this.height;
+    const mask = this.solver_mask;
+    const precon = this.solver_precon;
+    const y = this.solver_y;
+    let dot = 0;
+
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+        if (!mask[k]) {
+          y[k] = 0;
+          continue;
+        }
+        let t = r[k];
+        if (mask[k - 1]) t += a * precon[k - 1] * y[k - 1];
+        if (mask[k - W]) t += a * precon[k - W] * y[k - W];
+        y[k] = t * precon[k];
+      }
+    }
+
+    for (let i = H - 2; i >= 1; i--) {
+      for (let j = W - 2, k = i * W + W - 2; j >= 1; j--, k--) {
+        if (!mask[k]) {
+          z[k] = 0;
+          continue;
+        }
+        let t = y[k];
+        if (mask[k + 1]) t += a * precon[k] * z[k + 1];
+        if (mask[k + W]) t += a * precon[k] * z[k + W];
+        z[k] = t * precon[k];
+        dot += z[k] * r[k];
+      }
+    }
+    return dot;
+  }
+
+  private maxAbs(field: Float64Array): number {
+    let max = 0;
+    for (let k = 0; k < field.length; k++) {
+      const val = Math.abs(field[k]);
+      if (val > max) max = val;
+    }
+    return max;
+  }
+
+  private fillFluid(field: Float32Array, value: number) {
+    for (let k = 0; k < field.length; k++) {
+      if (this.solver_mask[k]) field[k] = value;
+    }
+  }
+
+  // Pressure reports the final projection; diffusion reports the worst of the step's solves
+  private recordSolve(kind: SolverKind, report: SolverReport) {
+    if (kind === 'pressure') {
+      this.diagnostics.pressure = report;
+      return;
+    }
+    const worst = this.diagnostics.diffusion;
+    this.diagnostics.diffusion = {
+      iterations: Math.max(worst.iterations, report.iterations),
+      residual: Math.max(worst.residual, report.residual),
+      converged: worst.converged && report.converged
+    };
   }
 
-  private project(velocX: number[][], velocY: number[][], p: number[][], div: number[][]) {
-    const N = this.gridSize;
+  private project(velocX: Float32Array, velocY: Float32Array, p: Float32Array, div: Float32Array) {
+    const W = this.width;
+    const H = this.height;
+    const h = this.scale;
 
     // Calculate Divergence
-    for (let i = 1; i < N - 1; i++) {
-      for (let j = 1; j < N - 1; j++) {
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
         // If obstacle, divergence is handled by boundary conditions
-        if (!this.obstacles[i][j]) {
-          div[i][j] = -0.5 * (velocX[i + 1][j] - velocX[i - 1][j] + velocY[i][j + 1] - velocY[i][j - 1]) / N;
-          p[i][j] = 0;
+        if (!this.obstacles[k]) {
+          // Updrafts remove air from the surface layer, so the target divergence is -w
+          const target = -UPDRAFT_CONVERGENCE * this.w[k];
+          // u varies along x (k +/- 1) and v along y (k +/- W)
+          div[k] = -0.5 * (velocX[k + 1] - velocX[k - 1] + velocY[k + W] - velocY[k - W]) / h + target / h;
+          p[k] = 0;
         }
       }
     }
 
+    // Without an open edge the pressure is only fixed up to a constant, and the solve needs a
+    // right-hand side that sums to zero
+    const pressureRules = this.edgeRules[3];
+    if (!BOUNDARY_EDGES.some(edge => ghostSelfWeight(pressureRules[edge]) < 0)) {
+      this.removeMean(div);
+    }
+
     this.set_bnd(0, div);
-    this.set_bnd(0, p);
+    this.set_bnd(3, p);
 
     // Solve Poisson equation for pressure
-    this.lin_solve(0, p, div, 1, 4);
-
-    // Subtract gradient field
-    for (let i = 1; i < N - 1; i++) {
-      for (let j = 1; j < N - 1; j++) {
-        if (!this.obstacles[i][j]) {
-          velocX[i][j] -= 0.5 * (N) * (p[i + 1][j] - p[i - 1][j]);
-          velocY[i][j] -= 0.5 * (N) * (p[i][j + 1] - p[i][j - 1]);
+    this.lin_solve(3, p, div, 1, 4, 'pressure');
+
+    // Subtract gradient field. The solve treats solids as no-flux, so a solid neighbour stands in with the
+    // cell's own pressure (solid cells themselves hold 0)
+    const obstacles = this.obstacles;
+    const pressure = (k: number, n: number) => (obstacles[n] ? p[k] : p[n]);
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+        if (!obstacles[k]) {
+          velocX[k] -= 0.5 * h * (pressure(k, k + 1) - pressure(k, k - 1));
+          velocY[k] -= 0.5 * h * (pressure(k, k + W) - pressure(k, k - W));
         }
       }
     }
@@ -259,57 +1610,215 @@ export class FluidDynamics {
     this.set_bnd(2, velocY);
   }
 
-  private advect(b: number, d: number[][], d0: number[][], velocX: number[][], velocY: number[][]) {
-    const N = this.gridSize;
-    const dt0 = this.dt * (N - 2);
+  private removeMean(field: Float32Array) {
+    const W = this.width;
+    const H = this.height;
+    let sum = 0;
+    let cells = 0;
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+        if (this.obstacles[k]) continue;
+        sum += field[k];
+        cells++;
+      }
+    }
+    if (cells === 0) return;
+
+    const mean = sum / cells;
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+        if (!this.obstacles[k]) field[k] -= mean;
+      }
+    }
+  }
+
+  // conserveMass is for concentrations: limiting the error-corrected schemes adds mass wherever it lifts
+  // an undershoot, so the result is rescaled to the total a plain semi-Lagrangian step would carry (carry then
+  // settles what that step drops or adds where the flow converges or diverges)
+  private advect(
+    b: number, d: Float32Array, d0: Float32Array, velocX: Float32Array, velocY: Float32Array, velocityScale: number = 1,
+    conserveMass: boolean = false
+  ) {
+    const dt0 = this.dt * (this.scale - 2) * velocityScale;
 
-    for (let i = 1; i < N - 1; i++) {
-      for (let j = 1; j < N - 1; j++) {
-        if (this.obstacles[i][j]) continue;
+    switch (this.advectionScheme) {
+      case 'maccormack':
+        this.advectMacCormack(b, d, d0, velocX, velocY, dt0, conserveMass);
+        break;
+      case 'bfecc':
+        this.advectBFECC(b, d, d0, velocX, velocY, dt0, conserveMass);
+        break;
+      default:
+        this.advectSemiLagrangian(b, d, d0, velocX, velocY, dt0);
+    }
+  }
 
-        let x = j - dt0 * velocX[i][j];
-        let y = i - dt0 * velocY[i][j];
+  // MacCormack: a forward step, a backward step from its result, and half the round-trip error
+  // added back to the forward step
+  private advectMacCormack(
+    b: number, d: Float32Array, d0: Float32Array, velocX: Float32Array, velocY: Float32Array, dt0: number, conserveMass: boolean
+  ) {
+    const forward = this.advect_forward;
+    const backward = this.advect_backward;
 
-        // Clamp
-        if (x < 0.5) x = 0.5;
-        if (x > N - 1.5) x = N - 1.5;
-        if (y < 0.5) y = 0.5;
-        if (y > N - 1.5) y = N - 1.5;
+    // Obstacle cells are never written by the passes, so they carry d0 through
+    forward.set(d0);
+    backward.set(d0);
+    this.advectSemiLagrangian(b, forward, d0, velocX, velocY, dt0, true);
+    this.advectSemiLagrangian(b, backward, forward, velocX, velocY, -dt0);
 
-        const i0 = Math.floor(x);
-        const i1 = i0 + 1;
-        const j0 = Math.floor(y);
-        const j1 = j0 + 1;
+    this.forEachFluidCell(k => {
+      d[k] = this.limit(k, forward[k] + 0.5 * (d0[k] - backward[k]));
+    });
+    if (conserveMass) this.rescaleFluid(d, this.fluidSum(forward));
+    this.set_bnd(b, d);
+  }
+
+  // BFECC: the round-trip error is removed from the field before a final forward step
+  private advectBFECC(
+    b: number, d: Float32Array, d0: Float32Array, velocX: Float32Array, velocY: Float32Array, dt0: number, conserveMass: boolean
+  ) {
+    const corrected = this.advect_forward;
+    const backward = this.advect_backward;
+
+    corrected.set(d0);
+    backward.set(d0);
+    this.advectSemiLagrangian(b, corrected, d0, velocX, velocY, dt0, true);
+    this.advectSemiLagrangian(b, backward, corrected, velocX, velocY, -dt0);
+    const target = conserveMass ? this.fluidSum(corrected) : 0;
+
+    this.forEachFluidCell(k => {
+      corrected[k] = d0[k] + 0.5 * (d0[k] - backward[k]);
+    });
+    this.set_bnd(b, corrected);
+
+    this.advectSemiLagrangian(b, d, corrected, velocX, velocY, dt0);
+    this.forEachFluidCell(k => {
+      d[k] = this.limit(k, d[k]);
+    });
+    if (conserveMass) this.rescaleFluid(d, target);
+    this.set_bnd(b, d);
+  }
 
-        const s1 = x - i0;
+  // Clamps a corrected value to the cells its departure point was interpolated from, so the
+  // error correction cannot create new extrema (overshoot, or negative concentrations)
+  private limit(k: number, value: number): number {
+    const min = this.advect_min[k];
+    const max = this.advect_max[k];
+    return value < min ? min : value > max ? max : value;
+  }
+
+  private fluidSum(field: Float32Array): number {
+    const W = this.width;
+    const H = this.height;
+    let sum = 0;
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+        if (!this.obstacles[k]) sum += field[k];
+      }
+    }
+    return sum;
+  }
+
+  private rescaleFluid(field: Float32Array, target: number) {
+    const sum = this.fluidSum(field);
+    if (sum <= 0) return;
+    const factor = target / sum;
+    this.forEachFluidCell(k => {
+      field[k] *= factor;
+    });
+  }
+
+  private forEachFluidCell(visit: (k: number) => void) {
+    const W = this.width;
+    const H = this.height;
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+        if (!this.obstacles[k]) visit(k);
+      }
+    }
+  }
+
+  // First-order semi-Lagrangian step: each cell takes the bilinear sample of d0 at its departure
+  // point. A negative dt0 traces forward instead, which the error-correcting schemes use to run
+  // the step in reverse. recordLimits stores each sample's stencil range for the limiter.
+  private advectSemiLagrangian(
+    b: number, d: Float32Array, d0: Float32Array, velocX: Float32Array, velocY: Float32Array, dt0: number,
+    recordLimits: boolean = false
+  ) {
+    const W = this.width;
+    const H = this.height;
+    const periodicX = this.boundaries.left === 'periodic';
+    const periodicY = this.boundaries.top === 'periodic';
+    const limitMin = this.advect_min;
+    const limitMax = this.advect_max;
+
+    for (let i = 1; i < H - 1; i++) {
+      for (let j = 1, k = i * W + 1; j < W - 1; j++, k++) {
+        if (this.obstacles[k]) continue;
+
+        let x = j - dt0 * velocX[k];
+        let y = i - dt0 * velocY[k];
+
+        // Wrap around periodic axes (the ghost cells hold the far side), clamp elsewhere
+        if (periodicX) {
+          x = wrapCoordinate(x, W);
+        } else {
+          if (x < 0.5) x = 0.5;
+          if (x > W - 1.5) x = W - 1.5;
+        }
+        if (periodicY) {
+          y = wrapCoordinate(y, H);
+        } else {
+          if (y < 0.5) y = 0.5;
+          if (y > H - 1.5) y = H - 1.5;
+        }
+
+        const x0 = Math.floor(x);
+        const y0 = Math.floor(y);
+        const k00 = y0 * W + x0;
+
+        const s1 = x - x0;
         const s0 = 1.0 - s1;
-        const t1 = y - j0;
+        const t1 = y - y0;
         const t0 = 1.0 - t1;
 
-        d[i][j] = s0 * (t0 * d0[j0][i0] + t1 * d0[j1][i0]) +
-          s1 * (t0 * d0[j0][i1] + t1 * d0[j1][i1]);
+        const d00 = d0[k00];
+        const d10 = d0[k00 + 1];
+        const d01 = d0[k00 + W];
+        const d11 = d0[k00 + W + 1];
+        d[k] = s0 * (t0 * d00 + t1 * d01) + s1 * (t0 * d10 + t1 * d11);
+
+        if (recordLimits) {
+          limitMin[k] = Math.min(d00, d10, d01, d11);
+          limitMax[k] = Math.max(d00, d10, d01, d11);
+        }
       }
     }
     this.set_bnd(b, d);
   }
 
-  private set_bnd(b: number, x: number[][]) {
-    const N = this.gridSize;
+  // Fills the ghost cells around the domain from each edge's boundary rule
+  private set_bnd(b: number, x: Float32Array) {
+    const W = this.width;
+    const H = this.height;
+    const last = (H - 1) * W;
+    const rules = this.edgeRules[b];
 
-    // Simple box boundaries
-    for (let i = 1; i < N - 1; i++) {
-      x[i][0] = b === 1 ? -x[i][1] : x[i][1];
-      x[i][N - 1] = b === 1 ? -x[i][N - 2] : x[i][N - 2];
+    for (let i = 1; i < H - 1; i++) {
+      const row = i * W;
+      x[row] = ghostValue(rules.left, x[row + 1], x[row + W - 2], i);
+      x[row + W - 1] = ghostValue(rules.right, x[row + W - 2], x[row + 1], i);
     }
-    for (let i = 1; i < N - 1; i++) {
-      x[0][i] = b === 2 ? -x[1][i] : x[1][i];
-      x[N - 1][i] = b === 2 ? -x[N - 2][i] : x[N - 2][i];
+    for (let j = 1; j < W - 1; j++) {
+      x[j] = ghostValue(rules.top, x[W + j], x[last - W + j], j);
+      x[last + j] = ghostValue(rules.bottom, x[last - W + j], x[W + j], j);
     }
 
     // Corners
-    x[0][0] = 0.5 * (x[1][0] + x[0][1]);
-    x[0][N - 1] = 0.5 * (x[1][N - 1] + x[0][N - 2]);
-    x[N - 1][0] = 0.5 * (x[N - 2][0] + x[N - 1][1]);
-    x[N - 1][N - 1] = 0.5 * (x[N - 2][N - 1] + x[N - 1][N - 2]);
+    x[0] = 0.5 * (x[W] + x[1]);
+    x[W - 1] = 0.5 * (x[2 * W - 1] + x[W - 2]);
+    x[last] = 0.5 * (x[last - W] + x[last + 1]);
+    x[last + W - 1] = 0.5 * (x[last - 1] + x[last + W - 2]);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,216 @@
+import {
+  DEFAULT_RESOLUTION, SPECIES_IDS, FieldView, GridPoint, GridResolution, PollutionSource, SimulationParameters,
+  SpeciesFields, SpeciesGrids, SpeciesId, StabilityClass
+} from '../types';
+import { DispersionEngine } from './DispersionEngine';
+import { getAmbientWind } from './boundaryConditions';
+import { HOURS_PER_TIME_UNIT, getScheduledReleaseRate } from './emissionSchedule';
+import { isPuff } from './puffRelease';
+import { getEmissionFootprint } from './sourceGeometry';
+import { createFieldData, createSpeciesFields, fieldToGrid, maskToField, speciesFieldsToGrids } from './fieldStorage';
+import { getEffectiveStackHeight } from './plumeRise';
+import { WIND_SPEED_SCALE, getDispersionCoefficients, resolveStabilityClass } from './stability';
+import { DEFAULT_MIXING_HEIGHT, MODEL_TOP_HEIGHT, getLayerCount } from './verticalLayers';
+
+export const DOMAIN_EXTENT = 4000; // m spanned by the longer side of the grid
+const MIN_WIND_SPEED = 0.5; // m/s; the plume equation breaks down in calm air
+const PLUME_STRENGTH = 6000; // Concentration x m³/s per unit release rate, matched to the grid solver's scale
+const LID_REFLECTIONS = 3; // Image sources on each side when a mixing lid traps the plume
+const WELL_MIXED_SPREAD = 1.6; // sigmaZ / lid beyond which the plume is uniform between the ground and the lid
+
+// Sum of the vertical Gaussian and its reflections at ground level (z = 0), from the ground and,
+// when there is one, the mixing lid at height lid
+const verticalTerm = (height: number, sigmaZ: number, lid: number): number => {
+  const spread = 2 * sigmaZ * sigmaZ;
+  if (!Number.isFinite(lid)) return 2 * Math.exp(-(height * height) / spread);
+  // Far downwind the plume fills the mixed layer evenly: C = Q / (sqrt(2 pi) u sigmaY lid) * lateral
+  if (sigmaZ > WELL_MIXED_SPREAD * lid) return (Math.sqrt(2 * Math.PI) * sigmaZ) / lid;
+
+  let sum = 0;
+  for (let n = -LID_REFLECTIONS; n <= LID_REFLECTIONS; n++) {
+    const below = 2 * n * lid - height;
+    const above = 2 * n * lid + height;
+    sum += Math.exp(-(below * below) / spread) + Math.exp(-(above * above) / spread);
+  }
+  return sum;
+};
+
+/**
+ * Steady-state Gaussian plume: each active source is a continuous point release whose ground-level
+ * concentration follows
+ *   C = Q / (2 pi u sigmaY sigmaZ) * exp(-y² / 2 sigmaY²) * sum of reflected exp(-(z -/+ H)² / 2 sigmaZ²)
+ * with Pasquill-Gifford spreads for the chosen stability class. The wind is uniform, the ground flat
+ * and nothing decays or reacts, as in regulatory screening models; buildings only blank their own cells.
+ */
+export class GaussianPlumeModel implements DispersionEngine {
+  private width: number;
+  private height: number;
+  private density: SpeciesFields;
+  private totalDensity: Float32Array;
+  private totalDensityStale: boolean = true;
+  private u: Float32Array;
+  private v: Float32Array;
+  private w: Float32Array;
+  private obstacles: Uint8Array;
+  private clock: number = 0; // Hours since the last reset; the plume follows the sources' schedules
+
+  constructor(width: number = DEFAULT_RESOLUTION.width, height: number = width) {
+    this.width = width;
+    this.height = height;
+    this.density = createSpeciesFields(this.getResolution());
+    this.totalDensity = this.createField();
+    this.u = this.createField();
+    this.v = this.createField();
+    this.w = this.createField();
+    this.obstacles = new Uint8Array(width * height);
+  }
+
+  private createField(): Float32Array {
+    return createFieldData(this.getResolution());
+  }
+
+  private view(data: Float32Array): FieldView {
+    return { width: this.width, height: this.height, data };
+  }
+
+  getResolution(): GridResolution {
+    return { width: this.width, height: this.height };
+  }
+
+  // The plume is recomputed from the sources every step, so resizing just starts from empty fields
+  resize(width: number, height: number): void {
+    if (width === this.width && height === this.height) return;
+    this.width = width;
+    this.height = height;
+    this.density = createSpeciesFields(this.getResolution());
+    this.totalDensity = this.createField();
+    this.totalDensityStale = true;
+    this.u = this.createField();
+    this.v = this.createField();
+    this.w = this.createField();
+    this.obstacles = new Uint8Array(width * height);
+  }
+
+  reset(): void {
+    SPECIES_IDS.forEach(species => this.density[species].fill(0));
+    this.totalDensityStale = true;
+    this.u.fill(0);
+    this.v.fill(0);
+    this.clock = 0;
+  }
+
+  getSimulationTime(): number {
+    return this.clock;
+  }
+
+  setObstacles(obstacles: boolean[][]): void {
+    this.obstacles = maskToField(obstacles, this.getResolution());
+  }
+
+  // Flat-terrain model: elevations are ignored
+  setTerrain(): void {}
+
+  step(parameters: SimulationParameters, sources: PollutionSource[] = []): void {
+    this.clock += 0.1 * (parameters.simulationSpeed || 1.0) * HOURS_PER_TIME_UNIT;
+    const ambient = getAmbientWind(parameters.windSpeed, parameters.windDirection);
+    this.u.fill(ambient.x);
+    this.v.fill(ambient.y);
+
+    const speed = Math.max(MIN_WIND_SPEED, parameters.windSpeed * WIND_SPEED_SCALE);
+    const mixingHeight = parameters.mixingHeight ?? DEFAULT_MIXING_HEIGHT;
+    const lid = getLayerCount(parameters.verticalLayers) > 1 && mixingHeight < MODEL_TOP_HEIGHT ? mixingHeight : Infinity;
+    const stabilityClass = resolveStabilityClass(parameters);
+
+    SPECIES_IDS.forEach(species => this.density[species].fill(0));
+    sources.forEach(source => {
+      // A steady state has no room for a one-off release, so puffs are left to the transient engines
+      if (!source.active || isPuff(source)) return;
+      // A plume that rises through the lid stays above it and never reaches the ground
+      if (getEffectiveStackHeight(source, speed, stabilityClass) >= lid) return;
+      // Below that the plume is still climbing as it drifts downwind
+      const height = (downwind: number) => getEffectiveStackHeight(source, speed, stabilityClass, downwind);
+      const rate = getScheduledReleaseRate(source, parameters.releaseRate, this.clock);
+      // Lines and areas are superposed plumes from every cell they cover, each weighted by its length or area;
+      // a moving source is a plume from wherever it has got to
+      const isOpen = (x: number, y: number) => !this.obstacles[y * this.width + x];
+      getEmissionFootprint(source, this.getResolution(), isOpen, this.clock).forEach(cell => {
+        this.addPlume(this.density[source.type], cell, rate * cell.weight * PLUME_STRENGTH, height, speed,
+          parameters.windDirection, stabilityClass, lid);
+      });
+    });
+
+    SPECIES_IDS.forEach(species => {
+      const field = this.density[species];
+      for (let k = 0; k < field.length; k++) {
+        field[k] = this.obstacles[k] ? 0 : Math.min(255, field[k]);
+      }
+    });
+    this.totalDensityStale = true;
+  }
+
+  private addPlume(
+    field: Float32Array, source: GridPoint, emission: number, height: (downwind: number) => number, speed: number,
+    windDirection: number,
+    stabilityClass: StabilityClass, lid: number
+  ) {
+    const W = this.width;
+    const H = this.height;
+    const cellSize = DOMAIN_EXTENT / Math.max(W, H);
+    const angle = (windDirection * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    for (let i = 0; i < H; i++) {
+      for (let j = 0; j < W; j++) {
+        const dx = (j - source.x) * cellSize;
+        const dy = (i - source.y) * cellSize;
+        // The source's own cell is sampled half a cell downwind
+        const downwind = dx === 0 && dy === 0 ? cellSize / 2 : dx * cos + dy * sin;
+        if (downwind <= 0) continue;
+
+        const crosswind = -dx * sin + dy * cos;
+        const { sigmaY, sigmaZ } = getDispersionCoefficients(stabilityClass, downwind);
+        const lateral = Math.exp(-(crosswind * crosswind) / (2 * sigmaY * sigmaY));
+        if (lateral < 1e-6) continue;
+
+        field[i * W + j] += (emission / (2 * Math.PI * speed * sigmaY * sigmaZ)) * lateral * verticalTerm(height(downwind), sigmaZ, lid);
+      }
+    }
+  }
+
+  getDensity(species?: SpeciesId): number[][] {
+    return fieldToGrid(this.getDensityView(species).data, this.getResolution());
+  }
+
+  getDensityView(species?: SpeciesId): FieldView {
+    if (species) return this.view(this.density[species]);
+
+    if (this.totalDensityStale) {
+      const total = this.totalDensity;
+      total.fill(0);
+      SPECIES_IDS.forEach(id => {
+        const field = this.density[id];
+        for (let k = 0; k < total.length; k++) total[k] += field[k];
+      });
+      this.totalDensityStale = false;
+    }
+    return this.view(this.totalDensity);
+  }
+
+  getSpeciesDensities(): SpeciesGrids {
+    return speciesFieldsToGrids(this.density, this.getResolution());
+  }
+
+  // The plume is carried by the uniform ambient wind, in the grid solver's velocity units
+  getVelocityXView(): FieldView {
+    return this.view(this.u);
+  }
+
+  getVelocityYView(): FieldView {
+    return this.view(this.v);
+  }
+
+  getVerticalVelocityView(): FieldView {
+    return this.view(this.w);
+  }
+}
@@ -0,0 +1,434 @@
+import {
+  SPECIES_IDS, BoundaryConditions, FieldView, GridResolution, PollutionSource, SimulationParameters, SpeciesFields,
+  SpeciesGrids, SpeciesId, StabilityClass
+} from '../types';
+import { DispersionEngine } from './DispersionEngine';
+import { FluidDynamics } from './FluidDynamics';
+import { getEffectiveStackHeight } from './plumeRise';
+import { resolveBoundaries } from './boundaryConditions';
+import { getScheduledReleaseRate } from './emissionSchedule';
+import { DEFAULT_PUFF_MASS, DEFAULT_PUFF_RADIUS, getPuffKey, isPuff, isPuffDue } from './puffRelease';
+import { EmissionCell, getEmissionFootprint, getFootprintWeight } from './sourceGeometry';
+import { createFieldData, createSpeciesFields, fieldToGrid, speciesFieldsToGrids } from './fieldStorage';
+import { getAirborneSurvivalFactor, getSpeciesTransport, getSurvivalFactor } from './speciesBehavior';
+import { WIND_SPEED_SCALE, getEddyDiffusivityScale, resolveStabilityClass } from './stability';
+import {
+  DEFAULT_MIXING_HEIGHT, MODEL_TOP_HEIGHT, getLayerCount, getLayerThickness, getVerticalDiffusivity, getWindProfileFactor
+} from './verticalLayers';
+
+export const MAX_PARTICLES = 50000;
+const PARTICLES_PER_RELEASE = 4; // Particles each active source emits per step
+const MAX_PARTICLES_PER_RELEASE = 32; // Cap for long lines and large areas
+const PARTICLES_PER_PUFF = 400;
+const MIN_PARTICLE_MASS = 1e-4; // Particles lighter than this are dropped
+const UPDRAFT_SPEED = 1000; // m per unit time of rise per unit of the flow's buoyant updraft
+
+// Read-only window onto the live particles; only valid until the next step
+export interface ParticleView {
+  readonly count: number;
+  readonly x: Float32Array; // Grid coordinates: cell (i, j) has its centre at x = i, y = j
+  readonly y: Float32Array;
+  readonly z: Float32Array; // m above the ground
+  readonly mass: Float32Array; // Concentration x cells, as in the grid solver's mass budget
+  readonly species: Uint8Array; // Index into SPECIES_IDS
+  readonly source: Uint16Array; // Index of the emitting source in the sources passed to step
+}
+
+// Standard normal deviate (Box-Muller)
+const gaussian = (random: () => number): number =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+// Cell of a footprint at a uniform draw over its total weight
+const pickCell = (cells: EmissionCell[], total: number, draw: number): EmissionCell => {
+  let remaining = draw * total;
+  for (const cell of cells) {
+    remaining -= cell.weight;
+    if (remaining < 0) return cell;
+  }
+  return cells[cells.length - 1];
+};
+
+/**
+ * Lagrangian stochastic dispersion: sources release mass-carrying particles that ride the wind computed
+ * by a FluidDynamics flow solver, take random-walk steps matched to the grid solver's diffusivities, and
+ * decay, deposit and settle like the species they carry. Particles in the ground layer are binned onto the
+ * grid (cloud-in-cell) to give concentrations. Chemistry between species is not modelled.
+ */
+export class LagrangianParticleModel implements DispersionEngine {
+  private readonly flow: FluidDynamics;
+  private readonly random: () => number;
+
+  // Particle attributes (structure of arrays); live particles occupy [0, count)
+  private count: number = 0;
+  private x = new Float32Array(MAX_PARTICLES);
+  private y = new Float32Array(MAX_PARTICLES);
+  private z = new Float32Array(MAX_PARTICLES);
+  private mass = new Float32Array(MAX_PARTICLES);
+  private species = new Uint8Array(MAX_PARTICLES);
+  private source = new Uint16Array(MAX_PARTICLES);
+  private nextRecycled: number = 0; // Oldest slot to overwrite once the pool is full
+  private releasedPuffs = new Set<string>();
+
+  // Binned ground-layer concentrations and their lazily summed total
+  private binned!: GridResolution;
+  private density!: SpeciesFields;
+  private totalDensity!: Float32Array;
+  private totalDensityStale: boolean = true;
+
+  // The flow solver may be shared with the grid engine, so switching engines keeps the same wind
+  constructor(flow: FluidDynamics, random: () => number = Math.random) {
+    this.flow = flow;
+    this.random = random;
+    this.createBins();
+  }
+
+  private createBins() {
+    this.binned = this.flow.getResolution();
+    this.density = createSpeciesFields(this.binned);
+    this.totalDensity = createFieldData(this.binned);
+    this.totalDensityStale = true;
+  }
+
+  getResolution(): GridResolution {
+    return this.flow.getResolution();
+  }
+
+  // Particles keep their place in the domain, so they are moved to the same relative position. The flow
+  // may already have been resized by the grid engine that shares it, so the binned grid is the reference.
+  resize(width: number, height: number): void {
+    const from = this.binned;
+    this.flow.resize(width, height);
+    if (width === from.width && height === from.height) return;
+    const scaleX = (width - 2) / (from.width - 2);
+    const scaleY = (height - 2) / (from.height - 2);
+    for (let p = 0; p < this.count; p++) {
+      this.x[p] = 0.5 + (this.x[p] - 0.5) * scaleX;
+      this.y[p] = 0.5 + (this.y[p] - 0.5) * scaleY;
+    }
+    this.createBins();
+    this.bin();
+  }
+
+  // The flow keeps the clock
+  getSimulationTime(): number {
+    return this.flow.getSimulationTime();
+  }
+
+  reset(): void {
+    this.flow.reset();
+    this.count = 0;
+    this.nextRecycled = 0;
+    this.releasedPuffs.clear();
+    this.bin();
+  }
+
+  setObstacles(obstacles: boolean[][]): void {
+    this.flow.setObstacles(obstacles);
+  }
+
+  setTerrain(terrain: number[][]): void {
+    this.flow.setTerrain(terrain);
+  }
+
+  step(parameters: SimulationParameters, sources: PollutionSource[] = []): void {
+    this.flow.stepFlow(parameters, sources);
+    this.release(parameters, sources);
+    this.move(parameters);
+    this.bin(parameters);
+  }
+
+  getParticles(): ParticleView {
+    return {
+      count: this.count,
+      x: this.x,
+      y: this.y,
+      z: this.z,
+      mass: this.mass,
+      species: this.species,
+      source: this.source
+    };
+  }
+
+  // Ground-layer concentration from one source's particles alone (source apportionment)
+  getSourceDensity(sourceIndex: number, parameters?: SimulationParameters): number[][] {
+    const field = createFieldData(this.binned);
+    const depth = this.groundDepth(parameters);
+    for (let p = 0; p < this.count; p++) {
+      if (this.source[p] === sourceIndex && this.z[p] < depth) this.deposit(field, p);
+    }
+    return fieldToGrid(field, this.binned);
+  }
+
+  private groundDepth(parameters?: SimulationParameters): number {
+    return getLayerThickness(getLayerCount(parameters?.verticalLayers));
+  }
+
+  // Each active source splits its release over a few particles spread across its cell, at its stack height plus
+  // the Briggs rise of its plume.
+  // Lines and areas release more particles, each from a cell picked in proportion to its length or area.
+  private release(parameters: SimulationParameters, sources: PollutionSource[]) {
+    const windSpeed = parameters.windSpeed * WIND_SPEED_SCALE;
+    const stabilityClass = resolveStabilityClass(parameters);
+    sources.forEach((source, index) => {
+      if (isPuff(source)) {
+        this.releasePuff(source, index, windSpeed, stabilityClass);
+        return;
+      }
+      if (!source.active) return;
+      const amount = getScheduledReleaseRate(source, parameters.releaseRate, this.flow.getSimulationTime());
+      if (amount <= 0) return;
+      const height = getEffectiveStackHeight(source, windSpeed, stabilityClass);
+      const speciesIndex = SPECIES_IDS.indexOf(source.type);
+      const isOpen = (x: number, y: number) => !this.flow.isSolid(x, y);
+      const cells = getEmissionFootprint(source, this.getResolution(), isOpen, this.flow.getSimulationTime());
+      const total = getFootprintWeight(cells);
+      if (total <= 0) return;
+      const count = Math.min(MAX_PARTICLES_PER_RELEASE, PARTICLES_PER_RELEASE * Math.ceil(Math.sqrt(total)));
+
+      for (let n = 0; n < count; n++) {
+        const cell = cells.length === 1 ? cells[0] : pickCell(cells, total, this.random());
+        const p = this.allocate();
+        this.x[p] = cell.x + this.random() - 0.5;
+        this.y[p] = cell.y + this.random() - 0.5;
+        this.z[p] = height;
+        this.mass[p] = (amount * total) / count;
+        this.species[p] = speciesIndex;
+        this.source[p] = index;
+      }
+    });
+  }
+
+  // A puff's whole mass goes out at once, its particles scattered as a Gaussian blob (sigma = half the radius)
+  // over the open cells around it
+  private releasePuff(source: PollutionSource, index: number, windSpeed: number, stabilityClass: StabilityClass) {
+    const clock = this.flow.getSimulationTime();
+    if (!isPuffDue(source, clock, this.releasedPuffs)) return;
+    this.releasedPuffs.add(getPuffKey(source));
+
+    const sigma = (source.puffRadius ?? DEFAULT_PUFF_RADIUS) / 2;
+    const height = getEffectiveStackHeight(source, windSpeed, stabilityClass);
+    const speciesIndex = SPECIES_IDS.indexOf(source.type);
+    const mass = (source.puffMass ?? DEFAULT_PUFF_MASS) / PARTICLES_PER_PUFF;
+    for (let n = 0; n < PARTICLES_PER_PUFF; n++) {
+      let x = source.x;
+      let y = source.y;
+      // A few redraws move particles out of buildings; the rest start at the centre
+      for (let attempt = 0; attempt < 4; attempt++) {
+        const px = source.x + gaussian(this.random) * sigma;
+        const py = source.y + gaussian(this.random) * sigma;
+        if (!this.flow.isSolid(Math.round(px), Math.round(py))) {
+          x = px;
+          y = py;
+          break;
+        }
+      }
+      const p = this.allocate();
+      this.x[p] = x;
+      this.y[p] = y;
+      this.z[p] = height;
+      this.mass[p] = mass;
+      this.species[p] = speciesIndex;
+      this.source[p] = index;
+    }
+  }
+
+  // Next free slot; once the pool is full the oldest particles are recycled
+  private allocate(): number {
+    if (this.count < MAX_PARTICLES) return this.count++;
+    const p = this.nextRecycled;
+    this.nextRecycled = (this.nextRecycled + 1) % MAX_PARTICLES;
+    return p;
+  }
+
+  private remove(p: number) {
+    const last = --this.count;
+    this.x[p] = this.x[last];
+    this.y[p] = this.y[last];
+    this.z[p] = this.z[last];
+    this.mass[p] = this.mass[last];
+    this.species[p] = this.species[last];
+    this.source[p] = this.source[last];
+  }
+
+  private move(parameters: SimulationParameters) {
+    const { width: W, height: H } = this.getResolution();
+    const dt = 0.1 * (parameters.simulationSpeed || 1.0);
+    const scale = Math.max(W, H);
+    const cellsPerVelocity = dt * (scale - 2);
+    const u = this.flow.getVelocityXView().data;
+    const v = this.flow.getVelocityYView().data;
+    const w = this.flow.getVerticalVelocityView().data;
+    const boundaries = resolveBoundaries(parameters.boundaries);
+    const count = getLayerCount(parameters.verticalLayers);
+    const layerDepth = getLayerThickness(count);
+    const mixingHeight = count > 1 ? parameters.mixingHeight ?? DEFAULT_MIXING_HEIGHT : MODEL_TOP_HEIGHT;
+    const mixing = getEddyDiffusivityScale(resolveStabilityClass(parameters));
+
+    // Per-species coefficients: horizontal random-walk spread (cells) matching the grid solver's
+    // diffusion, and the survival and settling over one step
+    const transports = SPECIES_IDS.map(species => {
+      const transport = getSpeciesTransport(species);
+      const diff = parameters.diffusionRate * 0.0001 * transport.diffusionScale * mixing.horizontal;
+      return {
+        advectionScale: transport.advectionScale,
+        spread: Math.sqrt(2 * dt * diff) * (scale - 2),
+        groundSurvival: getSurvivalFactor(transport, parameters.decayFactor, dt),
+        airborneSurvival: getAirborneSurvivalFactor(transport, parameters.decayFactor, dt),
+        settling: transport.depositionRate * layerDepth * dt
+      };
+    });
+
+    for (let p = this.count - 1; p >= 0; p--) {
+      const t = transports[this.species[p]];
+      const inGroundLayer = this.z[p] < layerDepth;
+      const layer = Math.min(count - 1, Math.floor(this.z[p] / layerDepth));
+      const windFactor = inGroundLayer ? t.advectionScale : getWindProfileFactor(layer);
+
+      const k = this.sampleIndex(this.x[p], this.y[p], W, H);
+      const stepX = this.sample(u, this.x[p], this.y[p], W, H) * cellsPerVelocity * windFactor + t.spread * gaussian(this.random);
+      const stepY = this.sample(v, this.x[p], this.y[p], W, H) * cellsPerVelocity * windFactor + t.spread * gaussian(this.random);
+      const nx = this.x[p] + stepX;
+      const ny = this.y[p] + stepY;
+
+      // Vertical: buoyant rise, settling and a random walk with the local diffusivity. The lid (or the
+      // model top) and the ground reflect particles, so a plume mixed up to the lid stays below it.
+      const top = this.z[p] < mixingHeight ? mixingHeight : MODEL_TOP_HEIGHT;
+      let z = this.z[p] + Math.max(0, w[k]) * UPDRAFT_SPEED * dt - t.settling +
+        Math.sqrt(2 * getVerticalDiffusivity(this.z[p], mixingHeight, mixing.vertical) * dt) * gaussian(this.random);
+      if (z < 0) z = -z;
+      if (z > top) z = Math.max(0, 2 * top - z);
+      this.z[p] = z;
+
+      const placed = this.place(p, nx, ny, W, H, boundaries);
+      if (!placed) {
+        this.remove(p);
+        continue;
+      }
+
+      this.mass[p] *= inGroundLayer ? t.groundSurvival : t.airborneSurvival;
+      if (this.mass[p] < MIN_PARTICLE_MASS) this.remove(p);
+    }
+  }
+
+  // Moves a particle to (nx, ny), applying the domain edges: walls reflect, periodic edges wrap and open
+  // edges let it leave. A step into a building is refused. Returns false once the particle has left.
+  private place(p: number, nx: number, ny: number, W: number, H: number, boundaries: BoundaryConditions): boolean {
+    const low = 0.5;
+    const highX = W - 1.5;
+    const highY = H - 1.5;
+
+    const wrapAxis = (value: number, high: number, lowEdge: string, highEdge: string): number | null => {
+      if (value < low) {
+        if (lowEdge === 'wall') return 2 * low - value;
+        if (lowEdge === 'periodic') return value + (high - low);
+        return null;
+      }
+      if (value > high) {
+        if (highEdge === 'wall') return 2 * high - value;
+        if (highEdge === 'periodic') return value - (high - low);
+        return null;
+      }
+      return value;
+    };
+
+    const x = wrapAxis(nx, highX, boundaries.left, boundaries.right);
+    const y = wrapAxis(ny, highY, boundaries.top, boundaries.bottom);
+    if (x === null || y === null) return false;
+
+    if (!this.flow.isSolid(Math.round(x), Math.round(y))) {
+      this.x[p] = x;
+      this.y[p] = y;
+    }
+    return true;
+  }
+
+  private sampleIndex(x: number, y: number, W: number, H: number): number {
+    const i = Math.min(H - 1, Math.max(0, Math.round(y)));
+    const j = Math.min(W - 1, Math.max(0, Math.round(x)));
+    return i * W + j;
+  }
+
+  // Bilinear interpolation of a field at grid coordinates (x, y)
+  private sample(field: ArrayLike<number>, x: number, y: number, W: number, H: number): number {
+    const x0 = Math.min(W - 2, Math.max(0, Math.floor(x)));
+    const y0 = Math.min(H - 2, Math.max(0, Math.floor(y)));
+    const sx = Math.min(1, Math.max(0, x - x0));
+    const sy = Math.min(1, Math.max(0, y - y0));
+    const k = y0 * W + x0;
+    return (1 - sy) * ((1 - sx) * field[k] + sx * field[k + 1]) + sy * ((1 - sx) * field[k + W] + sx * field[k + W + 1]);
+  }
+
+  // Cloud-in-cell: the particle's mass is shared between the four cells around it
+  private deposit(field: Float32Array, p: number) {
+    const { width: W, height: H } = this.binned;
+    const x0 = Math.min(W - 2, Math.max(0, Math.floor(this.x[p])));
+    const y0 = Math.min(H - 2, Math.max(0, Math.floor(this.y[p])));
+    const sx = Math.min(1, Math.max(0, this.x[p] - x0));
+    const sy = Math.min(1, Math.max(0, this.y[p] - y0));
+    const k = y0 * W + x0;
+    const m = this.mass[p];
+    field[k] += m * (1 - sx) * (1 - sy);
+    field[k + 1] += m * sx * (1 - sy);
+    field[k + W] += m * (1 - sx) * sy;
+    field[k + W + 1] += m * sx * sy;
+  }
+
+  // Bins the ground-layer particles into concentrations, capped at 255 like the grid solver's fields
+  private bin(parameters?: SimulationParameters) {
+    SPECIES_IDS.forEach(species => this.density[species].fill(0));
+    const depth = this.groundDepth(parameters);
+    for (let p = 0; p < this.count; p++) {
+      if (this.z[p] < depth) this.deposit(this.density[SPECIES_IDS[this.species[p]]], p);
+    }
+    SPECIES_IDS.forEach(species => {
+      const field = this.density[species];
+      for (let k = 0; k < field.length; k++) {
+        if (field[k] > 255) field[k] = 255;
+      }
+    });
+    this.totalDensityStale = true;
+  }
+
+  // Mass carried by all live particles, aloft included
+  getTotalMass(): number {
+    let total = 0;
+    for (let p = 0; p < this.count; p++) total += this.mass[p];
+    return total;
+  }
+
+  getDensity(species?: SpeciesId): number[][] {
+    return fieldToGrid(this.getDensityView(species).data, this.binned);
+  }
+
+  getDensityView(species?: SpeciesId): FieldView {
+    const { width, height } = this.binned;
+    if (species) return { width, height, data: this.density[species] };
+
+    if (this.totalDensityStale) {
+      const total = this.totalDensity;
+      total.fill(0);
+      SPECIES_IDS.forEach(id => {
+        const field = this.density[id];
+        for (let k = 0; k < total.length; k++) total[k] += field[k];
+      });
+      this.totalDensityStale = false;
+    }
+    return { width, height, data: this.totalDensity };
+  }
+
+  getSpeciesDensities(): SpeciesGrids {
+    return speciesFieldsToGrids(this.density, this.binned);
+  }
+
+  getVelocityXView(): FieldView {
+    return this.flow.getVelocityXView();
+  }
+
+  getVelocityYView(): FieldView {
+    return this.flow.getVelocityYView();
+  }
+
+  getVerticalVelocityView(): FieldView {
+    return this.flow.getVerticalVelocityView();
+  }
+}
@@ -0,0 +1,85 @@
+import { SimulationParameters, SpeciesFields, SpeciesId } from '../types';
+
+export interface ReactionEnvironment {
+  sunIntensity: number; // 0 (night) to 1 (midday sun)
+  dt: number;
+}
+
+// A chemical mechanism transforms mass between species fields in place (cell by cell, so the
+// flat field layout does not matter)
+export interface ReactionMechanism {
+  id: string;
+  name: string;
+  species: SpeciesId[]; // Fields the mechanism reads or writes
+  react(fields: SpeciesFields, env: ReactionEnvironment): void;
+}
+
+export const DEFAULT_SUN_INTENSITY = 0.7;
+
+export const getReactionEnvironment = (parameters: SimulationParameters, dt: number): ReactionEnvironment => ({
+  sunIntensity: Math.min(1, Math.max(0, parameters.sunIntensity ?? DEFAULT_SUN_INTENSITY)),
+  dt
+});
+
+// NO2 photolysis rate at full sun and NO + O3 titration rate constant (concentration units)
+const NO2_PHOTOLYSIS_RATE = 0.5;
+const NO_O3_RATE = 0.01;
+
+/**
+ * NOx-O3 photostationary state:
+ *   NO2 + hv -> NO + O3
+ *   NO + O3  -> NO2
+ * In sunlight NO2 splits into NO and ozone; at night ozone is titrated back by NO.
+ */
+export const photostationaryMechanism: ReactionMechanism = {
+  id: 'nox-o3',
+  name: 'NOx-O3 photostationary state',
+  species: ['NO2', 'NO', 'O3'],
+  react(fields, env) {
+    const no2 = fields.NO2;
+    const no = fields.NO;
+    const o3 = fields.O3;
+    const photolysis = NO2_PHOTOLYSIS_RATE * env.sunIntensity * env.dt;
+
+    for (let k = 0; k < no2.length; k++) {
+      const split = Math.min(no2[k], photolysis * no2[k]);
+      const titrated = Math.min(no[k], o3[k], NO_O3_RATE * no[k] * o3[k] * env.dt);
+      if (split === 0 && titrated === 0) continue;
+
+      no2[k] += titrated - split;
+      no[k] += split - titrated;
+      o3[k] += split - titrated;
+    }
+  }
+};
+
+// SO2 oxidation rates: slow dark (aqueous) pathway plus a sunlit OH-driven pathway
+const SO2_DARK_OXIDATION_RATE = 0.01;
+const SO2_PHOTO_OXIDATION_RATE = 0.05;
+
+/**
+ * SO2 -> sulfate (secondary PM2.5), faster in sunlight.
+ */
+export const sulfateMechanism: ReactionMechanism = {
+  id: 'so2-sulfate',
+  name: 'SO2 oxidation to sulfate',
+  species: ['SO2', 'SULFATE'],
+  react(fields, env) {
+    const so2 = fields.SO2;
+    const sulfate = fields.SULFATE;
+    const rate = (SO2_DARK_OXIDATION_RATE + SO2_PHOTO_OXIDATION_RATE * env.sunIntensity) * env.dt;
+    const converted = Math.min(1, rate);
+
+    for (let k = 0; k < so2.length; k++) {
+      if (so2[k] === 0) continue;
+      const oxidised = so2[k] * converted;
+      so2[k] -= oxidised;
+      sulfate[k] += oxidised;
+    }
+  }
+};
+
+export const DEFAULT_REACTION_MECHANISMS: ReactionMechanism[] = [
+  photostationaryMechanism,
+  sulfateMechanism
+];
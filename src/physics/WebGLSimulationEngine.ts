@@ -1,17 +1,66 @@
-import { GRID_SIZE, SimulationParameters, PollutionSource } from '../types';
+import { DEFAULT_RESOLUTION, BoundaryConditions, SimulationParameters, PollutionSource } from '../types';
+import { SpeciesTransport, getSurvivalFactor } from './speciesBehavior';
+import { BOUNDARY_CODES, resolveBoundaries } from './boundaryConditions';
+import { getScheduledReleaseRate } from './emissionSchedule';
+import { isMovingSource } from './movingSource';
+import { getEmissionFootprint, getFootprintWeight, isExtendedSource } from './sourceGeometry';
+
+// Advection/diffusion time step of the GPU passes (~60fps)
+export const GPU_DELTA_TIME = 0.016;
+
+// Radius (cells) of the cone each source is splatted into by the injection pass
+const SOURCE_RADIUS = 2.0;
+
+// Lines, areas and moving sources are injected through a per-cell emission map rather than a cone
+const usesEmissionMap = (source: PollutionSource): boolean => isExtendedSource(source) || isMovingSource(source);
+
+// Mass the injection pass adds for one source: strength x the cone's falloff summed over the open cells
+// it covers (texel centres sit at half-integer grid coordinates, as in the shader). Lines, areas and moving
+// sources (where they are at the hour given) go through the emission map instead.
+export const getGPUSourceEmission = (
+  source: PollutionSource, strength: number, width: number, height: number, obstacles: Uint8Array, hour = 0
+): number => {
+  if (usesEmissionMap(source)) {
+    const isOpen = (x: number, y: number) => !obstacles[y * width + x];
+    return strength * getFootprintWeight(getEmissionFootprint(source, { width, height }, isOpen, hour));
+  }
+  let weight = 0;
+  const reach = Math.ceil(SOURCE_RADIUS);
+  for (let y = Math.max(0, Math.floor(source.y) - reach); y <= Math.min(height - 1, Math.floor(source.y) + reach); y++) {
+    for (let x = Math.max(0, Math.floor(source.x) - reach); x <= Math.min(width - 1, Math.floor(source.x) + reach); x++) {
+      const dist = Math.hypot(x + 0.5 - source.x, y + 0.5 - source.y);
+      if (dist <= SOURCE_RADIUS && !obstacles[y * width + x]) weight += 1 - dist / SOURCE_RADIUS;
+    }
+  }
+  return strength * weight;
+};
+
+// Transport used when a frame is run without species-specific behaviour
+const NEUTRAL_TRANSPORT: SpeciesTransport = {
+  diffusionScale: 1,
+  advectionScale: 1,
+  reactionRate: 0,
+  depositionRate: 0
+};
 
 export class WebGLSimulationEngine {
   private canvas: HTMLCanvasElement;
-  private gridSize: number;
+  private width: number;
+  private height: number;
   private gl: WebGL2RenderingContext | null = null;
   private programs: { [key: string]: WebGLProgram } = {};
   private framebuffers: { [key: string]: WebGLFramebuffer } = {};
   private textures: { [key: string]: WebGLTexture } = {};
   private quadBuffer: WebGLBuffer | null = null;
+  private uploadedObstacles: Uint8Array | null = null; // Mask currently in the obstacle texture
+  private readbackScratch: Float32Array | null = null; // RGBA staging when RED/FLOAT reads are unsupported
+  private emissionMap: Float32Array; // Per-cell release of the line and area sources, built each frame
 
-  constructor(canvas: HTMLCanvasElement, gridSize: number = GRID_SIZE) {
+  constructor(canvas: HTMLCanvasElement, width: number = DEFAULT_RESOLUTION.width, height: number = width) {
     this.canvas = canvas;
-    this.gridSize = gridSize;
+    this.width = width;
+    this.height = height;
+    this.emissionMap = new Float32Array(width * height);
     this.initializeWebGL();
     this.createShaderPrograms();
     this.createTextures();
@@ -41,7 +90,10 @@ export class WebGLSimulationEngine {
 
     this.gl.disable(this.gl.DEPTH_TEST);
     this.gl.disable(this.gl.BLEND);
-    this.gl.viewport(0, 0, this.gridSize, this.gridSize);
+    // Single-channel rows are not 4-byte aligned (the R8 obstacle mask on odd widths)
+    this.gl.pixelStorei(this.gl.UNPACK_ALIGNMENT, 1);
+    this.gl.pixelStorei(this.gl.PACK_ALIGNMENT, 1);
+    this.gl.viewport(0, 0, this.width, this.height);
   }
 
   private createShaderPrograms(): void {
@@ -59,11 +111,14 @@ export class WebGLSimulationEngine {
     const advectionFragment = `#version 300 es
       precision highp float;
       uniform sampler2D u_pollutantTexture;
-      uniform sampler2D u_velocityTexture;
+      uniform sampler2D u_velocityXTexture;
+      uniform sampler2D u_velocityYTexture;
       uniform sampler2D u_obstacleTexture;
       uniform float u_deltaTime;
+      uniform float u_velocityScale;
       uniform vec2 u_gridSize;
       uniform vec2 u_texelSize;
+      uniform vec4 u_boundaries; // left, right, top, bottom: 0 wall, 1 outflow, 2 periodic, 3 inflow
       in vec2 v_texCoord;
       out vec4 fragColor;
 
@@ -71,16 +126,35 @@ export class WebGLSimulationEngine {
         return texture(tex, coord);
       }
 
+      // Texture x runs left to right and texture y from the top row (y = 0) down
+      float wrapOrClamp(float coord, float code, float texel) {
+        return code == 2.0 ? fract(coord) : clamp(coord, texel * 0.5, 1.0 - texel * 0.5);
+      }
+
       void main() {
         float obstHere = texture(u_obstacleTexture, v_texCoord).r;
-        if (obstHere > 0.5) { fragColor = vec4(0.0); return; }
+        if (obstHere > 0.0) { fragColor = vec4(0.0); return; }
 
-        vec2 velocity = texture(u_velocityTexture, v_texCoord).xy;
+        vec2 velocity = vec2(
+          texture(u_velocityXTexture, v_texCoord).r,
+          texture(u_velocityYTexture, v_texCoord).r
+        ) * u_velocityScale;
         vec2 prevPos = v_texCoord - velocity * u_deltaTime * u_texelSize;
-        prevPos = clamp(prevPos, u_texelSize * 0.5, vec2(1.0) - u_texelSize * 0.5);
+
+        // Clean air is drawn in through inflow edges
+        if ((prevPos.x < 0.0 && u_boundaries.x == 3.0) || (prevPos.x > 1.0 && u_boundaries.y == 3.0) ||
+            (prevPos.y < 0.0 && u_boundaries.z == 3.0) || (prevPos.y > 1.0 && u_boundaries.w == 3.0)) {
+          fragColor = vec4(0.0);
+          return;
+        }
+        // Periodic axes wrap (their textures repeat); walls and outflow edges hold the edge value
+        prevPos = vec2(
+          wrapOrClamp(prevPos.x, u_boundaries.x, u_texelSize.x),
+          wrapOrClamp(prevPos.y, u_boundaries.z, u_texelSize.y)
+        );
 
         float obstPrev = texture(u_obstacleTexture, prevPos).r;
-        vec4 pollutant = (obstPrev > 0.5)
+        vec4 pollutant = (obstPrev > 0.0)
           ? bilinearSample(u_pollutantTexture, v_texCoord)
           : bilinearSample(u_pollutantTexture, prevPos);
 
@@ -88,7 +162,7 @@ export class WebGLSimulationEngine {
       }
     `;
 
-    // Diffusion fragment shader (obstacle-aware, reflective boundaries)
+    // Diffusion fragment shader (obstacle-aware; edges per u_boundaries)
     const diffusionFragment = `#version 300 es
       precision highp float;
       uniform sampler2D u_pollutantTexture;
@@ -96,12 +170,13 @@ export class WebGLSimulationEngine {
       uniform float u_diffusionRate;
       uniform float u_deltaTime;
       uniform vec2 u_texelSize;
+      uniform vec4 u_boundaries; // left, right, top, bottom: 0 wall, 1 outflow, 2 periodic, 3 inflow
       in vec2 v_texCoord;
       out vec4 fragColor;
 
       void main() {
         float obstHere = texture(u_obstacleTexture, v_texCoord).r;
-        if (obstHere > 0.5) { fragColor = vec4(0.0); return; }
+        if (obstHere > 0.0) { fragColor = vec4(0.0); return; }
 
         vec4 center = texture(u_pollutantTexture, v_texCoord);
         vec4 left = texture(u_pollutantTexture, v_texCoord + vec2(-u_texelSize.x, 0.0));
@@ -114,10 +189,17 @@ export class WebGLSimulationEngine {
         float obstB = texture(u_obstacleTexture, v_texCoord + vec2(0.0, -u_texelSize.y)).r;
         float obstT = texture(u_obstacleTexture, v_texCoord + vec2(0.0, u_texelSize.y)).r;
 
-        if (obstL > 0.5) left = center;
-        if (obstR > 0.5) right = center;
-        if (obstB > 0.5) bottom = center;
-        if (obstT > 0.5) top = center;
+        if (obstL > 0.0) left = center;
+        if (obstR > 0.0) right = center;
+        if (obstB > 0.0) bottom = center;
+        if (obstT > 0.0) top = center;
+
+        // Edge texels: clamped sampling already gives walls and outflow zero gradient and repeating
+        // textures wrap periodic edges; inflow edges border clean air
+        if (v_texCoord.x < u_texelSize.x && u_boundaries.x == 3.0) left = vec4(0.0);
+        if (v_texCoord.x > 1.0 - u_texelSize.x && u_boundaries.y == 3.0) right = vec4(0.0);
+        if (v_texCoord.y < u_texelSize.y && u_boundaries.z == 3.0) bottom = vec4(0.0);
+        if (v_texCoord.y > 1.0 - u_texelSize.y && u_boundaries.w == 3.0) top = vec4(0.0);
 
         vec4 laplacian = (left + right + bottom + top - 4.0 * center);
         vec4 result = center + u_diffusionRate * u_deltaTime * laplacian;
@@ -145,7 +227,7 @@ export class WebGLSimulationEngine {
         if (dist <= u_sourceRadius) {
           float falloff = 1.0 - (dist / u_sourceRadius);
           float obst = texture(u_obstacleTexture, v_texCoord).r;
-          if (obst < 0.5) {
+          if (obst == 0.0) {
             pollutant.r += u_sourceStrength * falloff;
           }
         }
@@ -154,9 +236,44 @@ export class WebGLSimulationEngine {
       }
     `;
 
+    // Emission map fragment shader: adds the per-cell release of line and area sources (skip obstacles)
+    const emissionFragment = `#version 300 es
+      precision highp float;
+      uniform sampler2D u_pollutantTexture;
+      uniform sampler2D u_obstacleTexture;
+      uniform sampler2D u_emissionTexture;
+      in vec2 v_texCoord;
+      out vec4 fragColor;
+
+      void main() {
+        vec4 pollutant = texture(u_pollutantTexture, v_texCoord);
+        if (texture(u_obstacleTexture, v_texCoord).r == 0.0) {
+          pollutant.r += texture(u_emissionTexture, v_texCoord).r;
+        }
+        fragColor = pollutant;
+      }
+    `;
+
+    // Decay fragment shader (ambient decay, chemical loss and settling combined; clamps to the CPU range)
+    const decayFragment = `#version 300 es
+      precision highp float;
+      uniform sampler2D u_pollutantTexture;
+      uniform float u_survival;
+      in vec2 v_texCoord;
+      out vec4 fragColor;
+
+      void main() {
+        vec4 pollutant = texture(u_pollutantTexture, v_texCoord);
+        pollutant.r = clamp(pollutant.r * u_survival, 0.0, 255.0);
+        fragColor = pollutant;
+      }
+    `;
+
     this.programs.advection = this.createProgram(vertexShader, advectionFragment);
     this.programs.diffusion = this.createProgram(vertexShader, diffusionFragment);
     this.programs.source = this.createProgram(vertexShader, sourceFragment);
+    this.programs.emission = this.createProgram(vertexShader, emissionFragment);
+    this.programs.decay = this.createProgram(vertexShader, decayFragment);
 
     // Display shader to render pollutant texture to the canvas
     const displayFragment = `#version 300 es
@@ -168,7 +285,7 @@ export class WebGLSimulationEngine {
       out vec4 fragColor;
 
       void main() {
-        float conc = texture(u_pollutantTexture, v_texCoord).r;
+        float conc = texture(u_pollutantTexture, v_texCoord).r / 255.0;
         vec3 color = mix(u_baseColor, u_pollutantColor, clamp(conc, 0.0, 1.0));
         fragColor = vec4(color, 1.0);
       }
@@ -213,14 +330,17 @@ export class WebGLSimulationEngine {
 
     this.textures.pollutant = this.createTexture();
     this.textures.pollutantTemp = this.createTexture();
-    this.textures.velocity = this.createTexture();
+    this.textures.velocityX = this.createTexture();
+    this.textures.velocityY = this.createTexture();
     this.textures.obstacles = this.createMaskTexture();
+    this.textures.emission = this.createTexture();
 
     // Create framebuffers for render-to-texture
     this.framebuffers.pollutant = this.createFramebuffer(this.textures.pollutant);
     this.framebuffers.pollutantTemp = this.createFramebuffer(this.textures.pollutantTemp);
   }
 
+  // Single-channel float texture laid out exactly like a FluidDynamics field (row y = texture row y)
   private createTexture(): WebGLTexture {
     if (!this.gl) throw new Error('WebGL context not initialized');
 
@@ -228,9 +348,9 @@ export class WebGLSimulationEngine {
     this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
 
     this.gl.texImage2D(
-      this.gl.TEXTURE_2D, 0, this.gl.RGBA32F,
-      this.gridSize, this.gridSize, 0,
-      this.gl.RGBA, this.gl.FLOAT, null
+      this.gl.TEXTURE_2D, 0, this.gl.R32F,
+      this.width, this.height, 0,
+      this.gl.RED, this.gl.FLOAT, null
     );
 
     this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MIN_FILTER, this.gl.LINEAR);
@@ -247,10 +367,11 @@ export class WebGLSimulationEngine {
     const texture = this.gl.createTexture()!;
     this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
 
+    // Obstacle mask bytes are 0/1, so solid cells read back as 1/255: shaders test > 0.0
     this.gl.texImage2D(
-      this.gl.TEXTURE_2D, 0, this.gl.RGBA8,
-      this.gridSize, this.gridSize, 0,
-      this.gl.RGBA, this.gl.UNSIGNED_BYTE, null
+      this.gl.TEXTURE_2D, 0, this.gl.R8,
+      this.width, this.height, 0,
+      this.gl.RED, this.gl.UNSIGNED_BYTE, null
     );
 
     this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MIN_FILTER, this.gl.NEAREST);
@@ -295,45 +416,60 @@ export class WebGLSimulationEngine {
     this.gl.bufferData(this.gl.ARRAY_BUFFER, positions, this.gl.STATIC_DRAW);
   }
 
-  // Main simulation method
+  // Main simulation method; the field is advanced in place (concentration units, flat row-major)
   simulateFrame(
-    pollutantGrid: number[][],
+    field: Float32Array,
     parameters: SimulationParameters,
     sources: PollutionSource[],
-    obstacles: boolean[][],
-    options: { readback?: boolean } = { readback: true }
+    obstacles: Uint8Array,
+    options: { readback?: boolean; transport?: SpeciesTransport; boundaries?: BoundaryConditions; clock?: number } = { readback: true }
   ): void {
     if (!this.gl) return;
 
+    const transport = options.transport ?? NEUTRAL_TRANSPORT;
+    const boundaries = resolveBoundaries(options.boundaries);
+
     try {
       // Upload current pollutant data
-      this.uploadGrid(pollutantGrid, this.textures.pollutant);
+      this.uploadField(field, this.textures.pollutant);
 
-      // Upload obstacle mask
+      // Upload obstacle mask (only when it has changed)
       this.uploadObstacleMask(obstacles);
 
       // Note: Velocity is now updated via updateVelocity() call from FluidDynamics.ts
 
       // Run simulation steps
-      this.runAdvection(parameters);
-      this.runDiffusion(parameters);
+      this.applyBoundaryWrap(boundaries);
+      this.runAdvection(parameters, transport, boundaries);
+      this.runDiffusion(parameters, transport, boundaries);
 
-      // Handle sources
+      // Handle sources: points are splatted one by one, lines, areas and moving sources share one emission map
+      let extended = false;
+      this.emissionMap.fill(0);
       sources.forEach(source => {
-        if (source.active) {
-          this.runSourceInjection(source, parameters);
+        if (!source.active) return;
+        const strength = getScheduledReleaseRate(source, parameters.releaseRate, options.clock ?? 0);
+        if (usesEmissionMap(source)) {
+          const isOpen = (x: number, y: number) => !obstacles[y * this.width + x];
+          getEmissionFootprint(source, { width: this.width, height: this.height }, isOpen, options.clock ?? 0).forEach(cell => {
+            this.emissionMap[cell.y * this.width + cell.x] += strength * cell.weight;
+          });
+          extended = true;
+        } else {
+          this.runSourceInjection(source, strength);
         }
       });
+      if (extended) this.runEmissionMap();
 
       // Apply decay
-      this.applyDecay(parameters.decayFactor);
+      this.applyDecay(parameters, transport);
 
       // Render to canvas
       this.runDisplay();
 
       // Download result only when requested
       if (options.readback) {
-        this.downloadGrid(this.textures.pollutant, pollutantGrid);
+        this.downloadField(field);
       }
 
     } catch (error) {
@@ -342,28 +478,12 @@ export class WebGLSimulationEngine {
     }
   }
 
-  // New method to update velocity from CPU solver
-  updateVelocity(u: number[][], v: number[][]): void {
+  // Update velocity from the CPU solver's u and v fields
+  updateVelocity(u: Float32Array, v: Float32Array): void {
     if (!this.gl) return;
 
-    const data = new Float32Array(this.gridSize * this.gridSize * 4);
-
-    for (let y = 0; y < this.gridSize; y++) {
-      for (let x = 0; x < this.gridSize; x++) {
-        const index = (y * this.gridSize + x) * 4;
-        data[index] = u[y][x];
-        data[index + 1] = v[y][x];
-        data[index + 2] = 0;
-        data[index + 3] = 0;
-      }
-    }
-
-    this.gl.bindTexture(this.gl.TEXTURE_2D, this.textures.velocity);
-    this.gl.texSubImage2D(
-      this.gl.TEXTURE_2D, 0, 0, 0,
-      this.gridSize, this.gridSize,
-      this.gl.RGBA, this.gl.FLOAT, data
-    );
+    this.uploadField(u, this.textures.velocityX);
+    this.uploadField(v, this.textures.velocityY);
   }
 
   private runDisplay(): void {
@@ -406,73 +526,82 @@ export class WebGLSimulationEngine {
     this.gl.viewport(prevViewport[0], prevViewport[1], prevViewport[2], prevViewport[3]);
   }
 
-  private uploadGrid(grid: number[][], texture: WebGLTexture): void {
+  private uploadField(field: Float32Array, texture: WebGLTexture): void {
     if (!this.gl) return;
 
-    const data = new Float32Array(this.gridSize * this.gridSize * 4);
-
-    for (let y = 0; y < this.gridSize; y++) {
-      for (let x = 0; x < this.gridSize; x++) {
-        const index = (y * this.gridSize + x) * 4;
-        const value = grid[y][x] / 255.0;
-        data[index] = value;     // R - pollutant concentration
-        data[index + 1] = 0;     // G
-        data[index + 2] = 0;     // B
-        data[index + 3] = 1;     // A
-      }
-    }
-
     this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
     this.gl.texSubImage2D(
       this.gl.TEXTURE_2D, 0, 0, 0,
-      this.gridSize, this.gridSize,
-      this.gl.RGBA, this.gl.FLOAT, data
+      this.width, this.height,
+      this.gl.RED, this.gl.FLOAT, field
     );
   }
 
-  private uploadObstacleMask(maskGrid: boolean[][]): void {
-    if (!this.gl) return;
-
-    const data = new Uint8Array(this.gridSize * this.gridSize * 4);
-    for (let y = 0; y < this.gridSize; y++) {
-      for (let x = 0; x < this.gridSize; x++) {
-        const index = (y * this.gridSize + x) * 4;
-        const v = maskGrid[y][x] ? 255 : 0;
-        data[index] = v;     // R
-        data[index + 1] = 0; // G
-        data[index + 2] = 0; // B
-        data[index + 3] = 255; // A
-      }
-    }
+  private uploadObstacleMask(mask: Uint8Array): void {
+    if (!this.gl || mask === this.uploadedObstacles) return;
 
     this.gl.bindTexture(this.gl.TEXTURE_2D, this.textures.obstacles);
     this.gl.texSubImage2D(
       this.gl.TEXTURE_2D, 0, 0, 0,
-      this.gridSize, this.gridSize,
-      this.gl.RGBA, this.gl.UNSIGNED_BYTE, data
+      this.width, this.height,
+      this.gl.RED, this.gl.UNSIGNED_BYTE, mask
     );
+    this.uploadedObstacles = mask;
   }
 
-  private downloadGrid(texture: WebGLTexture, grid: number[][]): void {
+  // Reads the current pollutant texture straight into the field. RED/FLOAT reads are optional in
+  // WebGL2, so drivers that only offer RGBA go through a reused staging buffer.
+  private downloadField(field: Float32Array): void {
     if (!this.gl) return;
 
-    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.createFramebuffer(texture));
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffers.pollutant);
 
-    const data = new Float32Array(this.gridSize * this.gridSize * 4);
-    this.gl.readPixels(
-      0, 0, this.gridSize, this.gridSize,
-      this.gl.RGBA, this.gl.FLOAT, data
-    );
+    const readFormat = this.gl.getParameter(this.gl.IMPLEMENTATION_COLOR_READ_FORMAT);
+    const readType = this.gl.getParameter(this.gl.IMPLEMENTATION_COLOR_READ_TYPE);
+    if (readFormat === this.gl.RED && readType === this.gl.FLOAT) {
+      this.gl.readPixels(0, 0, this.width, this.height, this.gl.RED, this.gl.FLOAT, field);
+      return;
+    }
 
-    for (let y = 0; y < this.gridSize; y++) {
-      for (let x = 0; x < this.gridSize; x++) {
-        const index = (y * this.gridSize + x) * 4;
-        grid[y][x] = Math.max(0, Math.min(255, data[index] * 255));
-      }
+    if (!this.readbackScratch) {
+      this.readbackScratch = new Float32Array(this.width * this.height * 4);
+    }
+    const data = this.readbackScratch;
+    this.gl.readPixels(0, 0, this.width, this.height, this.gl.RGBA, this.gl.FLOAT, data);
+    for (let k = 0; k < field.length; k++) {
+      field[k] = data[k * 4];
+    }
+  }
+
+  // Periodic axes sample their textures with wrap-around; all other edges clamp
+  private applyBoundaryWrap(boundaries: BoundaryConditions): void {
+    if (!this.gl) return;
+
+    const wrapS = boundaries.left === 'periodic' ? this.gl.REPEAT : this.gl.CLAMP_TO_EDGE;
+    const wrapT = boundaries.top === 'periodic' ? this.gl.REPEAT : this.gl.CLAMP_TO_EDGE;
+    [this.textures.pollutant, this.textures.pollutantTemp, this.textures.obstacles].forEach(texture => {
+      this.gl!.bindTexture(this.gl!.TEXTURE_2D, texture);
+      this.gl!.texParameteri(this.gl!.TEXTURE_2D, this.gl!.TEXTURE_WRAP_S, wrapS);
+      this.gl!.texParameteri(this.gl!.TEXTURE_2D, this.gl!.TEXTURE_WRAP_T, wrapT);
+    });
+  }
+
+  private setBoundaryUniform(program: WebGLProgram, boundaries: BoundaryConditions): void {
+    if (!this.gl) return;
+
+    const boundariesLoc = this.gl.getUniformLocation(program, 'u_boundaries');
+    if (boundariesLoc) {
+      this.gl.uniform4f(
+        boundariesLoc,
+        BOUNDARY_CODES[boundaries.left],
+        BOUNDARY_CODES[boundaries.right],
+        BOUNDARY_CODES[boundaries.top],
+        BOUNDARY_CODES[boundaries.bottom]
+      );
     }
   }
 
-  private runAdvection(_parameters: SimulationParameters): void {
+  private runAdvection(_parameters: SimulationParameters, transport: SpeciesTransport, boundaries: BoundaryConditions): void {
     if (!this.gl) return;
 
     this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffers.pollutantTemp);
@@ -480,12 +609,15 @@ export class WebGLSimulationEngine {
 
     // Set uniforms
     const deltaTimeLoc = this.gl.getUniformLocation(this.programs.advection, 'u_deltaTime');
+    const velocityScaleLoc = this.gl.getUniformLocation(this.programs.advection, 'u_velocityScale');
     const gridSizeLoc = this.gl.getUniformLocation(this.programs.advection, 'u_gridSize');
     const texelSizeLoc = this.gl.getUniformLocation(this.programs.advection, 'u_texelSize');
 
-    if (deltaTimeLoc) this.gl.uniform1f(deltaTimeLoc, 0.016); // ~60fps
-    if (gridSizeLoc) this.gl.uniform2f(gridSizeLoc, this.gridSize, this.gridSize);
-    if (texelSizeLoc) this.gl.uniform2f(texelSizeLoc, 1.0 / this.gridSize, 1.0 / this.gridSize);
+    if (deltaTimeLoc) this.gl.uniform1f(deltaTimeLoc, GPU_DELTA_TIME);
+    if (velocityScaleLoc) this.gl.uniform1f(velocityScaleLoc, transport.advectionScale);
+    if (gridSizeLoc) this.gl.uniform2f(gridSizeLoc, this.width, this.height);
+    if (texelSizeLoc) this.gl.uniform2f(texelSizeLoc, 1.0 / this.width, 1.0 / this.height);
+    this.setBoundaryUniform(this.programs.advection, boundaries);
 
     // Bind textures
     this.gl.activeTexture(this.gl.TEXTURE0);
@@ -494,14 +626,19 @@ export class WebGLSimulationEngine {
     if (pollutantLoc) this.gl.uniform1i(pollutantLoc, 0);
 
     this.gl.activeTexture(this.gl.TEXTURE1);
-    this.gl.bindTexture(this.gl.TEXTURE_2D, this.textures.velocity);
-    const velocityLoc = this.gl.getUniformLocation(this.programs.advection, 'u_velocityTexture');
-    if (velocityLoc) this.gl.uniform1i(velocityLoc, 1);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.textures.velocityX);
+    const velocityXLoc = this.gl.getUniformLocation(this.programs.advection, 'u_velocityXTexture');
+    if (velocityXLoc) this.gl.uniform1i(velocityXLoc, 1);
 
     this.gl.activeTexture(this.gl.TEXTURE2);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.textures.velocityY);
+    const velocityYLoc = this.gl.getUniformLocation(this.programs.advection, 'u_velocityYTexture');
+    if (velocityYLoc) this.gl.uniform1i(velocityYLoc, 2);
+
+    this.gl.activeTexture(this.gl.TEXTURE3);
     this.gl.bindTexture(this.gl.TEXTURE_2D, this.textures.obstacles);
     const obstacleLoc = this.gl.getUniformLocation(this.programs.advection, 'u_obstacleTexture');
-    if (obstacleLoc) this.gl.uniform1i(obstacleLoc, 2);
+    if (obstacleLoc) this.gl.uniform1i(obstacleLoc, 3);
 
     this.drawQuad(this.programs.advection);
 
@@ -510,7 +647,7 @@ export class WebGLSimulationEngine {
     [this.framebuffers.pollutant, this.framebuffers.pollutantTemp] = [this.framebuffers.pollutantTemp, this.framebuffers.pollutant];
   }
 
-  private runDiffusion(parameters: SimulationParameters): void {
+  private runDiffusion(parameters: SimulationParameters, transport: SpeciesTransport, boundaries: BoundaryConditions): void {
     if (!this.gl) return;
 
     this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffers.pollutantTemp);
@@ -520,9 +657,10 @@ export class WebGLSimulationEngine {
     const deltaTimeLoc = this.gl.getUniformLocation(this.programs.diffusion, 'u_deltaTime');
     const texelSizeLoc = this.gl.getUniformLocation(this.programs.diffusion, 'u_texelSize');
 
-    if (diffusionRateLoc) this.gl.uniform1f(diffusionRateLoc, parameters.diffusionRate);
-    if (deltaTimeLoc) this.gl.uniform1f(deltaTimeLoc, 0.016);
-    if (texelSizeLoc) this.gl.uniform2f(texelSizeLoc, 1.0 / this.gridSize, 1.0 / this.gridSize);
+    if (diffusionRateLoc) this.gl.uniform1f(diffusionRateLoc, parameters.diffusionRate * transport.diffusionScale);
+    if (deltaTimeLoc) this.gl.uniform1f(deltaTimeLoc, GPU_DELTA_TIME);
+    if (texelSizeLoc) this.gl.uniform2f(texelSizeLoc, 1.0 / this.width, 1.0 / this.height);
+    this.setBoundaryUniform(this.programs.diffusion, boundaries);
 
     this.gl.activeTexture(this.gl.TEXTURE0);
     this.gl.bindTexture(this.gl.TEXTURE_2D, this.textures.pollutant);
@@ -541,7 +679,36 @@ export class WebGLSimulationEngine {
     [this.framebuffers.pollutant, this.framebuffers.pollutantTemp] = [this.framebuffers.pollutantTemp, this.framebuffers.pollutant];
   }
 
-  private runSourceInjection(source: PollutionSource, parameters: SimulationParameters): void {
+  private runEmissionMap(): void {
+    if (!this.gl) return;
+
+    this.uploadField(this.emissionMap, this.textures.emission);
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffers.pollutantTemp);
+    this.gl.useProgram(this.programs.emission);
+
+    this.gl.activeTexture(this.gl.TEXTURE0);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.textures.pollutant);
+    const pollutantLoc = this.gl.getUniformLocation(this.programs.emission, 'u_pollutantTexture');
+    if (pollutantLoc) this.gl.uniform1i(pollutantLoc, 0);
+
+    this.gl.activeTexture(this.gl.TEXTURE1);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.textures.obstacles);
+    const obstacleLoc = this.gl.getUniformLocation(this.programs.emission, 'u_obstacleTexture');
+    if (obstacleLoc) this.gl.uniform1i(obstacleLoc, 1);
+
+    this.gl.activeTexture(this.gl.TEXTURE2);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.textures.emission);
+    const emissionLoc = this.gl.getUniformLocation(this.programs.emission, 'u_emissionTexture');
+    if (emissionLoc) this.gl.uniform1i(emissionLoc, 2);
+
+    this.drawQuad(this.programs.emission);
+
+    // Swap textures
+    [this.textures.pollutant, this.textures.pollutantTemp] = [this.textures.pollutantTemp, this.textures.pollutant];
+    [this.framebuffers.pollutant, this.framebuffers.pollutantTemp] = [this.framebuffers.pollutantTemp, this.framebuffers.pollutant];
+  }
+
+  private runSourceInjection(source: PollutionSource, strength: number): void {
     if (!this.gl) return;
 
     this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffers.pollutantTemp);
@@ -553,9 +720,9 @@ export class WebGLSimulationEngine {
     const gridSizeLoc = this.gl.getUniformLocation(this.programs.source, 'u_gridSize');
 
     if (sourcePosLoc) this.gl.uniform2f(sourcePosLoc, source.x, source.y);
-    if (sourceStrengthLoc) this.gl.uniform1f(sourceStrengthLoc, parameters.releaseRate / 255.0);
-    if (sourceRadiusLoc) this.gl.uniform1f(sourceRadiusLoc, 2.0);
-    if (gridSizeLoc) this.gl.uniform2f(gridSizeLoc, this.gridSize, this.gridSize);
+    if (sourceStrengthLoc) this.gl.uniform1f(sourceStrengthLoc, strength);
+    if (sourceRadiusLoc) this.gl.uniform1f(sourceRadiusLoc, SOURCE_RADIUS);
+    if (gridSizeLoc) this.gl.uniform2f(gridSizeLoc, this.width, this.height);
 
     this.gl.activeTexture(this.gl.TEXTURE0);
     this.gl.bindTexture(this.gl.TEXTURE_2D, this.textures.pollutant);
@@ -574,11 +741,27 @@ export class WebGLSimulationEngine {
     [this.framebuffers.pollutant, this.framebuffers.pollutantTemp] = [this.framebuffers.pollutantTemp, this.framebuffers.pollutant];
   }
 
-  private applyDecay(_decayFactor: number): void {
+  private applyDecay(parameters: SimulationParameters, transport: SpeciesTransport): void {
     if (!this.gl) return;
 
-    // Simple decay shader would go here, but for now we'll handle decay in CPU
-    // This could be optimized with a GPU shader in the future
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffers.pollutantTemp);
+    this.gl.useProgram(this.programs.decay);
+
+    // Same time step as the CPU solver so both paths lose mass at the same rate
+    const dt = 0.1 * (parameters.simulationSpeed || 1.0);
+    const survivalLoc = this.gl.getUniformLocation(this.programs.decay, 'u_survival');
+    if (survivalLoc) this.gl.uniform1f(survivalLoc, getSurvivalFactor(transport, parameters.decayFactor, dt));
+
+    this.gl.activeTexture(this.gl.TEXTURE0);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.textures.pollutant);
+    const pollutantLoc = this.gl.getUniformLocation(this.programs.decay, 'u_pollutantTexture');
+    if (pollutantLoc) this.gl.uniform1i(pollutantLoc, 0);
+
+    this.drawQuad(this.programs.decay);
+
+    // Swap textures
+    [this.textures.pollutant, this.textures.pollutantTemp] = [this.textures.pollutantTemp, this.textures.pollutant];
+    [this.framebuffers.pollutant, this.framebuffers.pollutantTemp] = [this.framebuffers.pollutantTemp, this.framebuffers.pollutant];
   }
 
   private drawQuad(program: WebGLProgram): void {
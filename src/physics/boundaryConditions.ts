@@ -0,0 +1,115 @@
+import { BOUNDARY_EDGES, BoundaryConditions, BoundaryEdge, BoundaryType, DEFAULT_BOUNDARIES, Vector2D } from '../types';
+
+// Interior speed the wind forcing settles to, per unit windSpeed; inflow edges hold the wind at this speed
+export const AMBIENT_WIND_SCALE = 0.6;
+
+// Shader codes for each boundary type (see WebGLSimulationEngine)
+export const BOUNDARY_CODES: Record<BoundaryType, number> = {
+  wall: 0,
+  outflow: 1,
+  periodic: 2,
+  inflow: 3
+};
+
+// How a ghost cell is filled: a signed copy of the adjacent interior cell, a prescribed value (the same
+// all along the edge, or one per cell of it), or the interior cell at the opposite end of the domain
+export type GhostRule =
+  | { kind: 'mirror'; sign: number }
+  | { kind: 'fixed'; value: number }
+  | { kind: 'profile'; values: Float32Array }
+  | { kind: 'periodic' };
+
+export type EdgeRules = Record<BoundaryEdge, GhostRule>;
+
+// Share of the inflow speed along each edge, indexed by row (left, right) or column (top, bottom)
+export type EdgeProfiles = Partial<Record<BoundaryEdge, Float32Array>>;
+
+// Fills in missing edges; periodicity pairs opposite edges, so one periodic edge makes its partner periodic
+export const resolveBoundaries = (boundaries?: Partial<BoundaryConditions>): BoundaryConditions => {
+  const resolved = { ...DEFAULT_BOUNDARIES, ...boundaries };
+  if (resolved.left === 'periodic' || resolved.right === 'periodic') {
+    resolved.left = resolved.right = 'periodic';
+  }
+  if (resolved.top === 'periodic' || resolved.bottom === 'periodic') {
+    resolved.top = resolved.bottom = 'periodic';
+  }
+  return resolved;
+};
+
+export const getAmbientWind = (windSpeed: number, windDirection: number): Vector2D => {
+  const angleRad = (windDirection * Math.PI) / 180;
+  return {
+    x: Math.cos(angleRad) * windSpeed * AMBIENT_WIND_SCALE,
+    y: Math.sin(angleRad) * windSpeed * AMBIENT_WIND_SCALE
+  };
+};
+
+/**
+ * Ghost-cell rule for one field at one edge.
+ * b follows the solver convention: 0 scalar (concentration, temperature), 1 x-velocity, 2 y-velocity, 3 pressure.
+ */
+export const getGhostRule = (
+  b: number, type: BoundaryType, edge: BoundaryEdge, inflow: Vector2D, profile?: Float32Array
+): GhostRule => {
+  const normalVelocity = edge === 'left' || edge === 'right' ? b === 1 : b === 2;
+
+  switch (type) {
+    case 'wall':
+      // No flow through the wall (free slip along it) and no flux or pressure gradient across it
+      return { kind: 'mirror', sign: normalVelocity ? -1 : 1 };
+    case 'outflow':
+      // Zero gradient for everything carried out; pressure is ambient (zero) just outside
+      return { kind: 'mirror', sign: b === 3 ? -1 : 1 };
+    case 'periodic':
+      return { kind: 'periodic' };
+    case 'inflow':
+      // A river's inflow follows its profile across the channel
+      if ((b === 1 || b === 2) && profile) {
+        const speed = b === 1 ? inflow.x : inflow.y;
+        return { kind: 'profile', values: profile.map(share => share * speed) };
+      }
+      if (b === 1) return { kind: 'fixed', value: inflow.x };
+      if (b === 2) return { kind: 'fixed', value: inflow.y };
+      // The wind is prescribed, so pressure has no gradient; the air arriving is clean and at ambient temperature
+      return b === 3 ? { kind: 'mirror', sign: 1 } : { kind: 'fixed', value: 0 };
+  }
+};
+
+export const getEdgeRules = (
+  b: number, boundaries: BoundaryConditions, inflow: Vector2D, profiles: EdgeProfiles = {}
+): EdgeRules => {
+  const rules = {} as EdgeRules;
+  BOUNDARY_EDGES.forEach(edge => {
+    rules[edge] = getGhostRule(b, boundaries[edge], edge, inflow, profiles[edge]);
+  });
+  return rules;
+};
+
+// Prescribed value of the ghost cell at a position along the edge, or null when it follows the interior
+export const prescribedGhost = (rule: GhostRule, index: number): number | null => {
+  if (rule.kind === 'fixed') return rule.value;
+  if (rule.kind === 'profile') return rule.values[index];
+  return null;
+};
+
+// Value for a ghost cell given its interior neighbour, the interior cell at the far end of the row/column
+// and its position along the edge
+export const ghostValue = (rule: GhostRule, adjacent: number, opposite: number, index: number = 0): number => {
+  switch (rule.kind) {
+    case 'mirror':
+      return rule.sign * adjacent;
+    case 'fixed':
+      return rule.value;
+    case 'profile':
+      return rule.values[index];
+    case 'periodic':
+      return opposite;
+  }
+};
+
+// Ghost value as a multiple of the adjacent cell, for folding into an implicit solve's diagonal.
+// Fixed ghosts go to the right-hand side instead and periodic ones couple to the far cell.
+export const ghostSelfWeight = (rule: GhostRule): number => rule.kind === 'mirror' ? rule.sign : 0;
+
+// Mass leaves through edges open to the outside air
+export const isOpenBoundary = (type: BoundaryType): boolean => type === 'outflow' || type === 'inflow';
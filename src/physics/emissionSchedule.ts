@@ -0,0 +1,115 @@
+import { EmissionSchedule, EmissionScheduleKind, PollutionSource } from '../types';
+
+// The simulation clock runs in hours from midnight at the last reset; one unit of solver time is one minute
+export const HOURS_PER_TIME_UNIT = 1 / 60;
+export const HOURS_PER_DAY = 24;
+
+// Weekday traffic: a morning and a longer evening rush hour over a quiet night (mean close to 1)
+export const RUSH_HOUR_PROFILE: readonly number[] = [
+  0.3, 0.2, 0.2, 0.2, 0.3, 0.6, 1.2, 1.9, 2.0, 1.4, 1.0, 1.0,
+  1.1, 1.0, 1.0, 1.2, 1.6, 2.0, 1.8, 1.2, 0.9, 0.7, 0.5, 0.4
+];
+
+// A fresh schedule of each kind, as offered in the source cards
+export const createSchedule = (kind: EmissionScheduleKind): EmissionSchedule => {
+  switch (kind) {
+    case 'onOff':
+      return { kind, onHours: 8, offHours: 16, startHour: 6 };
+    case 'diurnal':
+      return { kind, profile: [...RUSH_HOUR_PROFILE] };
+    case 'ramp':
+      return { kind, startHour: 0, endHour: 6, from: 0, to: 1 };
+    case 'piecewise':
+      return { kind, points: [{ hour: 0, factor: 1 }, { hour: HOURS_PER_DAY, factor: 1 }] };
+    default:
+      return { kind: 'constant' };
+  }
+};
+
+// Linear interpolation through hour-sorted points, held flat before the first and after the last
+const interpolate = (points: { hour: number; factor: number }[], hour: number): number => {
+  if (points.length === 0) return 1;
+  if (hour <= points[0].hour) return points[0].factor;
+  for (let n = 1; n < points.length; n++) {
+    const next = points[n];
+    if (hour <= next.hour) {
+      const prev = points[n - 1];
+      const span = next.hour - prev.hour;
+      return span > 0 ? prev.factor + ((hour - prev.hour) / span) * (next.factor - prev.factor) : next.factor;
+    }
+  }
+  return points[points.length - 1].factor;
+};
+
+/**
+ * Multiplier on a source's release rate at a time on the simulation clock (hours since the reset). On/off
+ * cycles and the diurnal profile repeat; ramps and piecewise tables run once and then hold their last value.
+ */
+export const getScheduleFactor = (schedule: EmissionSchedule | undefined, hour: number): number => {
+  if (!schedule) return 1;
+  switch (schedule.kind) {
+    case 'onOff': {
+      const period = schedule.onHours + schedule.offHours;
+      if (period <= 0) return 1;
+      const phase = (((hour - (schedule.startHour ?? 0)) % period) + period) % period;
+      return phase < schedule.onHours ? 1 : 0;
+    }
+    case 'diurnal': {
+      // Hourly values are centred on the half hour and blended in between, wrapping past midnight
+      const { profile } = schedule;
+      if (profile.length === 0) return 1;
+      const position = ((((hour - 0.5) % HOURS_PER_DAY) + HOURS_PER_DAY) % HOURS_PER_DAY) * profile.length / HOURS_PER_DAY;
+      const index = Math.floor(position);
+      const blend = position - index;
+      return profile[index] * (1 - blend) + profile[(index + 1) % profile.length] * blend;
+    }
+    case 'ramp':
+      return interpolate([{ hour: schedule.startHour, factor: schedule.from }, { hour: schedule.endHour, factor: schedule.to }], hour);
+    case 'piecewise':
+      return interpolate(schedule.points, hour);
+    default:
+      return 1;
+  }
+};
+
+// A source's release rate at a time on the clock: its own rate (or the global default) times its schedule
+export const getScheduledReleaseRate = (source: PollutionSource, defaultRate: number, hour: number): number =>
+  (source.releaseRate !== undefined ? source.releaseRate : defaultRate) * getScheduleFactor(source.schedule, hour);
+
+/**
+ * Piecewise schedule from CSV text with one "hour,factor" row per line. A header row, blank lines and
+ * # comments are skipped; rows may come in any order. Throws on a malformed row or a negative value.
+ */
+export const parseScheduleCSV = (text: string): EmissionSchedule => {
+  const points: { hour: number; factor: number }[] = [];
+  let header = false;
+  text.split(/\r?\n/).forEach((line, index) => {
+    const row = line.trim();
+    if (row === '' || row.startsWith('#')) return;
+    const cells = row.split(/[,;\t]/).map(cell => cell.trim());
+    const hour = Number(cells[0]);
+    const factor = Number(cells[1]);
+    if (cells.length < 2 || cells[0] === '' || cells[1] === '' || !Number.isFinite(hour) || !Number.isFinite(factor)) {
+      // Only the first row may be a header
+      if (points.length === 0 && !header) {
+        header = true;
+        return;
+      }
+      throw new Error(`Line ${index + 1} is not an "hour,factor" pair`);
+    }
+    if (hour < 0 || factor < 0) throw new Error(`Line ${index + 1} has a negative value`);
+    points.push({ hour, factor });
+  });
+  if (points.length === 0) throw new Error('No "hour,factor" rows found');
+
+  points.sort((a, b) => a.hour - b.hour);
+  return { kind: 'piecewise', points };
+};
+
+// "HH:MM" time of day on the clock, with the day count once past the first
+export const formatClock = (hour: number): string => {
+  const day = Math.floor(hour / HOURS_PER_DAY);
+  const minutes = Math.floor((hour - day * HOURS_PER_DAY) * 60);
+  const clock = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  return day > 0 ? `Day ${day + 1} ${clock}` : clock;
+};
@@ -0,0 +1,65 @@
+import { GridResolution, SPECIES_IDS, SpeciesFields, SpeciesGrids } from '../types';
+import { resampleField, resampleMask } from './gridResampling';
+
+// Solver fields are flat, row-major Float32Arrays: cell (x, y) lives at y * width + x.
+// The same buffers are uploaded to and read back from the GPU without repacking.
+
+export const createFieldData = (resolution: GridResolution): Float32Array =>
+  new Float32Array(resolution.width * resolution.height);
+
+export const createSpeciesFields = (resolution: GridResolution): SpeciesFields => {
+  const fields = {} as SpeciesFields;
+  SPECIES_IDS.forEach(species => {
+    fields[species] = createFieldData(resolution);
+  });
+  return fields;
+};
+
+// Explicit nested-array snapshot of a flat field (for the store, exports and tests)
+export const fieldToGrid = (data: ArrayLike<number>, resolution: GridResolution): number[][] => {
+  const grid: number[][] = new Array(resolution.height);
+  for (let y = 0; y < resolution.height; y++) {
+    const row: number[] = new Array(resolution.width);
+    const offset = y * resolution.width;
+    for (let x = 0; x < resolution.width; x++) {
+      row[x] = data[offset + x];
+    }
+    grid[y] = row;
+  }
+  return grid;
+};
+
+// Copies a nested grid into flat storage; cells outside the grid are left at zero
+export const gridToField = (grid: ArrayLike<ArrayLike<number | boolean>>, resolution: GridResolution): Float32Array => {
+  const data = createFieldData(resolution);
+  const rows = Math.min(resolution.height, grid.length);
+  for (let y = 0; y < rows; y++) {
+    const row = grid[y];
+    const cols = Math.min(resolution.width, row.length);
+    const offset = y * resolution.width;
+    for (let x = 0; x < cols; x++) {
+      data[offset + x] = Number(row[x]);
+    }
+  }
+  return data;
+};
+
+export const maskToField = (mask: boolean[][], resolution: GridResolution): Uint8Array =>
+  Uint8Array.from(gridToField(mask, resolution));
+
+export const speciesFieldsToGrids = (fields: SpeciesFields, resolution: GridResolution): SpeciesGrids => {
+  const grids = {} as SpeciesGrids;
+  SPECIES_IDS.forEach(species => {
+    grids[species] = fieldToGrid(fields[species], resolution);
+  });
+  return grids;
+};
+
+// Resizing is rare, so it goes through the nested-grid resamplers
+export const resampleFieldData = (data: Float32Array, from: GridResolution, to: GridResolution): Float32Array =>
+  gridToField(resampleField(fieldToGrid(data, from), to), to);
+
+export const resampleMaskData = (mask: Uint8Array, from: GridResolution, to: GridResolution): Uint8Array => {
+  const grid = fieldToGrid(mask, from).map(row => row.map(value => value > 0));
+  return maskToField(resampleMask(grid, to), to);
+};
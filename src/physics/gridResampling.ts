@@ -0,0 +1,71 @@
+import { GridResolution } from '../types';
+
+export const createGrid = (resolution: GridResolution, value: number = 0): number[][] =>
+  Array(resolution.height).fill(0).map(() => Array(resolution.width).fill(value));
+
+export const createMask = (resolution: GridResolution): boolean[][] =>
+  Array(resolution.height).fill(0).map(() => Array(resolution.width).fill(false));
+
+export const getResolution = (field: unknown[][]): GridResolution => ({
+  width: field[0]?.length ?? 0,
+  height: field.length
+});
+
+// Maps a cell index onto the matching position of a grid with a different cell count
+// (cell centres line up, so the domain edges stay fixed)
+const mapCoordinate = (index: number, from: number, to: number): number =>
+  (index + 0.5) * (from / to) - 0.5;
+
+/**
+ * Bilinear resampling of a scalar field onto a new resolution.
+ * Used for concentrations, velocities and temperature when the grid changes size.
+ */
+export const resampleField = (field: number[][], resolution: GridResolution): number[][] => {
+  const { width: srcW, height: srcH } = getResolution(field);
+  const out = createGrid(resolution);
+  if (srcW === 0 || srcH === 0) return out;
+
+  for (let y = 0; y < resolution.height; y++) {
+    const sy = Math.min(srcH - 1, Math.max(0, mapCoordinate(y, srcH, resolution.height)));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(srcH - 1, y0 + 1);
+    const ty = sy - y0;
+    for (let x = 0; x < resolution.width; x++) {
+      const sx = Math.min(srcW - 1, Math.max(0, mapCoordinate(x, srcW, resolution.width)));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(srcW - 1, x0 + 1);
+      const tx = sx - x0;
+      out[y][x] =
+        (1 - ty) * ((1 - tx) * field[y0][x0] + tx * field[y0][x1]) +
+        ty * ((1 - tx) * field[y1][x0] + tx * field[y1][x1]);
+    }
+  }
+  return out;
+};
+
+// Nearest-cell resampling for obstacle masks, so walls stay solid rather than blurring away
+export const resampleMask = (mask: boolean[][], resolution: GridResolution): boolean[][] => {
+  const { width: srcW, height: srcH } = getResolution(mask);
+  const out = createMask(resolution);
+  if (srcW === 0 || srcH === 0) return out;
+
+  for (let y = 0; y < resolution.height; y++) {
+    const sy = Math.min(srcH - 1, Math.floor((y + 0.5) * srcH / resolution.height));
+    for (let x = 0; x < resolution.width; x++) {
+      const sx = Math.min(srcW - 1, Math.floor((x + 0.5) * srcW / resolution.width));
+      out[y][x] = mask[sy][sx];
+    }
+  }
+  return out;
+};
+
+// Moves a cell coordinate to the cell covering the same point of the domain at a new resolution
+export const rescaleCell = (x: number, y: number, from: GridResolution, to: GridResolution): { x: number; y: number } => ({
+  x: Math.min(to.width - 1, Math.max(0, Math.floor((x + 0.5) * to.width / from.width))),
+  y: Math.min(to.height - 1, Math.max(0, Math.floor((y + 0.5) * to.height / from.height)))
+});
+
+export const clampResolution = (resolution: GridResolution, min: number, max: number): GridResolution => ({
+  width: Math.min(max, Math.max(min, Math.round(resolution.width))),
+  height: Math.min(max, Math.max(min, Math.round(resolution.height)))
+});
@@ -0,0 +1,61 @@
+import { GridPoint, PollutionSource, TrailPoint } from '../types';
+
+// Moving sources (ships, truck convoys, a leaking tanker) emit as a point that travels along its waypoints at a
+// steady speed, placed by the simulation clock so every engine sees it in the same spot
+
+export const MIN_ROUTE_WAYPOINTS = 2;
+export const DEFAULT_SOURCE_SPEED = 60; // Cells per hour: one cell per minute of clock
+export const MAX_SOURCE_SPEED = 600;
+
+// Trail points are recorded once the source has moved this far (cells), and the oldest dropped past the cap
+export const TRAIL_SPACING = 0.5;
+export const MAX_TRAIL_POINTS = 2000;
+
+export const isMovingSource = (source: PollutionSource): boolean =>
+  source.kind === 'moving' && (source.waypoints?.length ?? 0) >= MIN_ROUTE_WAYPOINTS;
+
+// The legs travelled, in order: a loop adds the leg from the last waypoint back to the first, so a loop of
+// two waypoints shuttles back and forth between them
+const getLegs = (source: PollutionSource): [GridPoint, GridPoint][] => {
+  const waypoints = source.waypoints ?? [];
+  const legs: [GridPoint, GridPoint][] = waypoints.slice(1).map((point, n) => [waypoints[n], point]);
+  if (source.routeMode === 'loop' && waypoints.length >= MIN_ROUTE_WAYPOINTS) {
+    legs.push([waypoints[waypoints.length - 1], waypoints[0]]);
+  }
+  return legs;
+};
+
+// Cells travelled in one lap of a loop, or in the whole of a one-way trip
+export const getRouteLength = (source: PollutionSource): number =>
+  getLegs(source).reduce((length, [from, to]) => length + Math.hypot(to.x - from.x, to.y - from.y), 0);
+
+/**
+ * Position (fractional cells) of a moving source at an hour on the simulation clock, or null while it is not
+ * under way: before it sets off and after a one-way trip has ended. Loops go round for as long as the clock runs.
+ */
+export const getRoutePosition = (source: PollutionSource, hour: number): GridPoint | null => {
+  if (!isMovingSource(source)) return null;
+  const travelled = (hour - (source.departureTime ?? 0)) * (source.speed ?? DEFAULT_SOURCE_SPEED);
+  const total = getRouteLength(source);
+  if (travelled < 0 || total <= 0) return null;
+  if (source.routeMode !== 'loop' && travelled > total) return null;
+
+  let remaining = source.routeMode === 'loop' ? travelled % total : travelled;
+  for (const [from, to] of getLegs(source)) {
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    if (remaining <= length && length > 0) {
+      const t = remaining / length;
+      return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+    }
+    remaining -= length;
+  }
+  return { ...source.waypoints![source.waypoints!.length - 1] };
+};
+
+// Appends a position to a trail once it is far enough from the last one, dropping the oldest past the cap
+export const extendTrail = (points: TrailPoint[], x: number, y: number, time: number): void => {
+  const last = points[points.length - 1];
+  if (last && Math.hypot(x - last.x, y - last.y) < TRAIL_SPACING) return;
+  points.push({ x, y, time });
+  if (points.length > MAX_TRAIL_POINTS) points.splice(0, points.length - MAX_TRAIL_POINTS);
+};
@@ -0,0 +1,92 @@
+import { PollutionSource, StabilityClass } from '../types';
+import { getReleaseTemperature } from './speciesBehavior';
+
+// Briggs plume rise: a stack's hot, fast exhaust keeps climbing after it leaves the stack, until the wind has
+// bent it over and mixed it into the surrounding air. The release height every engine uses is the stack height
+// plus this rise, which only a declared stack gets: other warm releases (ground-level, line and area sources,
+// warm water) have no exhaust and are released at their own height.
+
+export const AMBIENT_TEMPERATURE = 293; // K, the air the exhaust mixes into
+export const DEFAULT_EXIT_VELOCITY = 10; // m/s
+export const MAX_EXIT_VELOCITY = 40;
+export const DEFAULT_STACK_DIAMETER = 2; // m
+export const MAX_STACK_DIAMETER = 10;
+
+const GRAVITY = 9.81; // m/s²
+const MIN_WIND_SPEED = 0.5; // m/s; the bent-over plume formulas break down in calm air
+const BUOYANCY_FLUX_BREAK = 55; // m⁴/s³, where Briggs switches between his small- and large-source fits
+// Potential temperature gradient (K/m) of the stable classes; the others rise as in neutral air
+const STABLE_LAPSE_RATE: Partial<Record<StabilityClass, number>> = { E: 0.02, F: 0.035 };
+
+// A source declares a stack by giving its height, diameter or exit velocity
+const hasStack = (source: PollutionSource): boolean =>
+  (source.stackHeight ?? 0) > 0 || source.stackDiameter !== undefined || source.exitVelocity !== undefined;
+
+// Exit temperature (K) of a release that is warmer than the air around it
+const getExitTemperature = (source: PollutionSource): number =>
+  AMBIENT_TEMPERATURE + Math.max(0, getReleaseTemperature(source));
+
+/** Buoyancy flux F = g v d² (Ts - Ta) / (4 Ts) in m⁴/s³; zero without a stack or no warmer than the air. */
+export const getBuoyancyFlux = (source: PollutionSource): number => {
+  if (!hasStack(source)) return 0;
+  const velocity = source.exitVelocity ?? DEFAULT_EXIT_VELOCITY;
+  const diameter = source.stackDiameter ?? DEFAULT_STACK_DIAMETER;
+  const exit = getExitTemperature(source);
+  return (GRAVITY * velocity * diameter * diameter * (exit - AMBIENT_TEMPERATURE)) / (4 * exit);
+};
+
+// Momentum flux v² d² Ta / (4 Ts) in m⁴/s², carried by a stack's exit jet
+const getMomentumFlux = (source: PollutionSource): number => {
+  const velocity = source.exitVelocity ?? DEFAULT_EXIT_VELOCITY;
+  const diameter = source.stackDiameter ?? DEFAULT_STACK_DIAMETER;
+  return (velocity * velocity * diameter * diameter * AMBIENT_TEMPERATURE) / (4 * getExitTemperature(source));
+};
+
+// Stability parameter s = g / Ta dθ/dz (1/s²) of the stable classes, zero for the others
+const getStabilityParameter = (stabilityClass: StabilityClass): number => {
+  const lapse = STABLE_LAPSE_RATE[stabilityClass];
+  return lapse !== undefined ? (GRAVITY / AMBIENT_TEMPERATURE) * lapse : 0;
+};
+
+// Rise of a stack's exit jet: 3 d v / u, and in stable air at most 1.5 (Fm / u √s)^1/3
+const getJetRise = (source: PollutionSource, u: number, stability: number): number => {
+  if (!hasStack(source)) return 0;
+  const rise = (3 * (source.stackDiameter ?? DEFAULT_STACK_DIAMETER) * (source.exitVelocity ?? DEFAULT_EXIT_VELOCITY)) / u;
+  return stability > 0 ? Math.min(rise, 1.5 * Math.cbrt(getMomentumFlux(source) / (u * Math.sqrt(stability)))) : rise;
+};
+
+/**
+ * Final rise (m) of a bent-over plume, the larger of its buoyant rise and its jet's rise (Briggs 1969, 1975).
+ * The buoyant rise is 21.425 F^3/4 / u (F < 55) or 38.71 F^3/5 / u, which stable air caps at 2.6 (F / u s)^1/3.
+ */
+export const getFinalPlumeRise = (source: PollutionSource, windSpeed: number, stabilityClass: StabilityClass): number => {
+  const u = Math.max(MIN_WIND_SPEED, windSpeed);
+  const flux = getBuoyancyFlux(source);
+  const stability = getStabilityParameter(stabilityClass);
+
+  let buoyant = 0;
+  if (flux > 0) {
+    buoyant = flux < BUOYANCY_FLUX_BREAK ? (21.425 * Math.pow(flux, 0.75)) / u : (38.71 * Math.pow(flux, 0.6)) / u;
+    if (stability > 0) buoyant = Math.min(buoyant, 2.6 * Math.cbrt(flux / (u * stability)));
+  }
+  return Math.max(buoyant, getJetRise(source, u, stability));
+};
+
+/**
+ * Rise (m) a distance downwind (m) of the source: the plume climbs as 1.6 F^1/3 x^2/3 / u until it levels off at
+ * its final rise. The jet's rise is reached almost at once. Without a distance the final rise is returned.
+ */
+export const getPlumeRise = (
+  source: PollutionSource, windSpeed: number, stabilityClass: StabilityClass, downwind: number = Infinity
+): number => {
+  const final = getFinalPlumeRise(source, windSpeed, stabilityClass);
+  if (!Number.isFinite(downwind)) return final;
+  const u = Math.max(MIN_WIND_SPEED, windSpeed);
+  const gradual = (1.6 * Math.cbrt(getBuoyancyFlux(source)) * Math.pow(Math.max(0, downwind), 2 / 3)) / u;
+  return Math.min(final, Math.max(getJetRise(source, u, getStabilityParameter(stabilityClass)), gradual));
+};
+
+// Physical stack height plus the plume rise, at a distance downwind or, without one, once the plume levels off
+export const getEffectiveStackHeight = (
+  source: PollutionSource, windSpeed: number, stabilityClass: StabilityClass, downwind?: number
+): number => (source.stackHeight ?? 0) + getPlumeRise(source, windSpeed, stabilityClass, downwind);
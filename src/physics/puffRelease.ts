@@ -0,0 +1,86 @@
+import { GridResolution, PollutionSource, PuffReport, SpeciesId } from '../types';
+
+// Puffs: a source that releases a fixed mass once, at a set time on the simulation clock, as a
+// Gaussian blob (sigma = half the radius) instead of emitting every step
+export const DEFAULT_PUFF_MASS = 2000; // Concentration units x cells
+export const DEFAULT_PUFF_RADIUS = 3; // Cells
+export const MAX_PUFF_RADIUS = 10;
+
+// Downwind distances (cells) at which arrival and peak are reported
+export const PUFF_RECEPTOR_DISTANCES: readonly number[] = [5, 10, 20, 40];
+// Concentration at which the puff counts as having arrived at a receptor
+export const PUFF_ARRIVAL_CONCENTRATION = 0.5;
+
+export const isPuff = (source: PollutionSource): boolean => source.kind === 'puff';
+
+let puffCount = 0;
+
+// A puff of the given species at a cell, released at the given clock time
+export const createPuffSource = (x: number, y: number, type: SpeciesId, releaseTime: number): Omit<PollutionSource, 'active'> => ({
+  x, y, type, kind: 'puff', puffId: `puff-${Date.now().toString(36)}-${puffCount++}`,
+  puffMass: DEFAULT_PUFF_MASS, puffTime: releaseTime, puffRadius: DEFAULT_PUFF_RADIUS
+});
+
+// Identifies one release: editing a puff's mass, radius or position keeps it, retiming it makes a new one.
+// Puffs written without an id are told apart by their cell.
+export const getPuffKey = (source: PollutionSource): string =>
+  `${source.puffId ?? `${source.type}@${source.x},${source.y}`}@${source.puffTime ?? 0}`;
+
+// A puff goes off once the clock (hours) reaches its time, straight away if that time has already passed
+export const isPuffDue = (source: PollutionSource, clock: number, released: ReadonlySet<string>): boolean =>
+  isPuff(source) && source.active && (source.puffTime ?? 0) <= clock && !released.has(getPuffKey(source));
+
+/**
+ * Cells a puff is spread over, with the share of its mass each receives (the shares sum to 1). Only open
+ * interior cells within the radius take part; a puff with no open cell there releases nothing.
+ */
+export const getPuffFootprint = (
+  source: PollutionSource, { width, height }: GridResolution, isOpen: (x: number, y: number) => boolean
+): { x: number; y: number; share: number }[] => {
+  const radius = Math.max(0.5, source.puffRadius ?? DEFAULT_PUFF_RADIUS);
+  const spread = 2 * (radius / 2) * (radius / 2);
+  const reach = Math.ceil(radius);
+  const cells: { x: number; y: number; share: number }[] = [];
+  let total = 0;
+
+  for (let y = Math.max(1, source.y - reach); y <= Math.min(height - 2, source.y + reach); y++) {
+    for (let x = Math.max(1, source.x - reach); x <= Math.min(width - 2, source.x + reach); x++) {
+      const dist2 = (x - source.x) ** 2 + (y - source.y) ** 2;
+      if (dist2 > radius * radius || !isOpen(x, y)) continue;
+      const weight = Math.exp(-dist2 / spread);
+      cells.push({ x, y, share: weight });
+      total += weight;
+    }
+  }
+  cells.forEach(cell => { cell.share /= total; });
+  return cells;
+};
+
+// Receptors along the wind from the puff's centre, out to the edge of the domain
+export const createPuffReport = (
+  source: PollutionSource, index: number, releaseTime: number, windDirection: number, { width, height }: GridResolution
+): PuffReport => {
+  const angle = (windDirection * Math.PI) / 180;
+  const receptors = PUFF_RECEPTOR_DISTANCES
+    .map(distance => ({
+      x: Math.round(source.x + Math.cos(angle) * distance),
+      y: Math.round(source.y + Math.sin(angle) * distance),
+      distance
+    }))
+    .filter(({ x, y }) => x >= 1 && x <= width - 2 && y >= 1 && y <= height - 2)
+    .map(cell => ({ ...cell, arrivalTime: null, peak: 0, peakTime: null }));
+  return { source: index, species: source.type, releaseTime, receptors };
+};
+
+// Records first arrival and the highest concentration so far at each receptor (times in hours after release)
+export const updatePuffReport = (report: PuffReport, field: Float32Array, width: number, time: number): void => {
+  const elapsed = time - report.releaseTime;
+  report.receptors.forEach(receptor => {
+    const value = field[receptor.y * width + receptor.x];
+    if (receptor.arrivalTime === null && value >= PUFF_ARRIVAL_CONCENTRATION) receptor.arrivalTime = elapsed;
+    if (value > receptor.peak) {
+      receptor.peak = value;
+      receptor.peakTime = elapsed;
+    }
+  });
+};
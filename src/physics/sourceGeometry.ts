@@ -0,0 +1,133 @@
+import { GridPoint, GridResolution, PollutionSource, SourceDrawing } from '../types';
+import { rescaleCell } from './gridResampling';
+import { MIN_ROUTE_WAYPOINTS, getRoutePosition, isMovingSource } from './movingSource';
+
+// Line sources (roads) and area sources (fields, burn areas) spread their emission over the cells they cover.
+// Their release rate is per cell of length or area, so a longer road or a larger field emits more in total.
+
+export const MIN_LINE_VERTICES = 2;
+export const MIN_AREA_VERTICES = 3;
+
+// Clicks needed before a drawing can be finished
+export const MIN_DRAWING_VERTICES: Record<SourceDrawing['kind'], number> = {
+  line: MIN_LINE_VERTICES,
+  area: MIN_AREA_VERTICES,
+  route: MIN_ROUTE_WAYPOINTS
+};
+
+// Length of the segments a line is walked in; each piece is credited to the cell it falls in
+const LINE_SAMPLE_STEP = 0.25;
+
+export interface EmissionCell {
+  x: number;
+  y: number;
+  weight: number; // Cells of length (lines) or area (areas) emitting here
+}
+
+export const isLineSource = (source: PollutionSource): boolean => source.kind === 'line' && (source.path?.length ?? 0) >= MIN_LINE_VERTICES;
+
+export const isAreaSource = (source: PollutionSource): boolean => source.kind === 'area' && (source.path?.length ?? 0) >= MIN_AREA_VERTICES;
+
+// Lines and areas, as opposed to single-cell point sources and puffs
+export const isExtendedSource = (source: PollutionSource): boolean => isLineSource(source) || isAreaSource(source);
+
+export const getPathLength = (path: readonly GridPoint[]): number =>
+  path.reduce((length, point, n) => (n === 0 ? 0 : length + Math.hypot(point.x - path[n - 1].x, point.y - path[n - 1].y)), 0);
+
+// Shoelace formula; the corners may run either way round
+export const getPolygonArea = (path: readonly GridPoint[]): number => {
+  let twice = 0;
+  path.forEach((point, n) => {
+    const next = path[(n + 1) % path.length];
+    twice += point.x * next.y - next.x * point.y;
+  });
+  return Math.abs(twice) / 2;
+};
+
+// Even-odd rule, so self-crossing outlines still give a sensible fill
+export const isInsidePolygon = (x: number, y: number, path: readonly GridPoint[]): boolean => {
+  let inside = false;
+  for (let n = 0, m = path.length - 1; n < path.length; m = n++) {
+    const a = path[n];
+    const b = path[m];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+// The cell a drawn line or area is listed under: the nearest cell to the mean of its vertices
+export const getPathAnchor = (path: readonly GridPoint[]): GridPoint => ({
+  x: Math.round(path.reduce((sum, point) => sum + point.x, 0) / path.length),
+  y: Math.round(path.reduce((sum, point) => sum + point.y, 0) / path.length)
+});
+
+/**
+ * Cells a source emits into, each weighted by the length or area it covers there. Point sources are their own
+ * cell with weight 1. Lines and areas only cover open interior cells: whatever runs through walls or off the
+ * grid is dropped, so their total weight is the emitting length or area. A moving source is shared bilinearly
+ * between the four cells around where it is at the hour given, and emits nothing while not under way.
+ */
+export const getEmissionFootprint = (
+  source: PollutionSource, { width, height }: GridResolution, isOpen: (x: number, y: number) => boolean, hour = 0
+): EmissionCell[] => {
+  const inside = (x: number, y: number) => x >= 1 && x <= width - 2 && y >= 1 && y <= height - 2 && isOpen(x, y);
+  const cells: EmissionCell[] = [];
+
+  if (isMovingSource(source)) {
+    const position = getRoutePosition(source, hour);
+    if (!position) return cells;
+    const x0 = Math.floor(position.x);
+    const y0 = Math.floor(position.y);
+    const fx = position.x - x0;
+    const fy = position.y - y0;
+    [[x0, y0, (1 - fx) * (1 - fy)], [x0 + 1, y0, fx * (1 - fy)], [x0, y0 + 1, (1 - fx) * fy], [x0 + 1, y0 + 1, fx * fy]]
+      .forEach(([x, y, weight]) => {
+        if (weight > 0 && inside(x, y)) cells.push({ x, y, weight });
+      });
+    return cells;
+  }
+  if (!isExtendedSource(source)) return [{ x: source.x, y: source.y, weight: 1 }];
+  const path = source.path!;
+
+  if (isLineSource(source)) {
+    const weights = new Map<number, number>();
+    for (let n = 1; n < path.length; n++) {
+      const from = path[n - 1];
+      const to = path[n];
+      const length = Math.hypot(to.x - from.x, to.y - from.y);
+      const steps = Math.max(1, Math.ceil(length / LINE_SAMPLE_STEP));
+      for (let s = 0; s < steps; s++) {
+        // Midpoint of each piece, so a segment's end is not counted twice where the next one starts
+        const t = (s + 0.5) / steps;
+        const x = Math.round(from.x + (to.x - from.x) * t);
+        const y = Math.round(from.y + (to.y - from.y) * t);
+        if (!inside(x, y)) continue;
+        const k = y * width + x;
+        weights.set(k, (weights.get(k) ?? 0) + length / steps);
+      }
+    }
+    weights.forEach((weight, k) => cells.push({ x: k % width, y: Math.floor(k / width), weight }));
+    return cells;
+  }
+
+  const xs = path.map(point => point.x);
+  const ys = path.map(point => point.y);
+  for (let y = Math.max(1, Math.floor(Math.min(...ys))); y <= Math.min(height - 2, Math.ceil(Math.max(...ys))); y++) {
+    for (let x = Math.max(1, Math.floor(Math.min(...xs))); x <= Math.min(width - 2, Math.ceil(Math.max(...xs))); x++) {
+      if (isInsidePolygon(x, y, path) && inside(x, y)) cells.push({ x, y, weight: 1 });
+    }
+  }
+  return cells;
+};
+
+export const getFootprintWeight = (cells: readonly EmissionCell[]): number =>
+  cells.reduce((sum, cell) => sum + cell.weight, 0);
+
+// Moves a source, the outline of a line or area and the route of a moving source to the same place on a grid
+// of another size
+export const rescaleSource = (source: PollutionSource, from: GridResolution, to: GridResolution): PollutionSource => ({
+  ...source,
+  ...rescaleCell(source.x, source.y, from, to),
+  ...(source.path ? { path: source.path.map(point => rescaleCell(point.x, point.y, from, to)) } : {}),
+  ...(source.waypoints ? { waypoints: source.waypoints.map(point => rescaleCell(point.x, point.y, from, to)) } : {})
+});
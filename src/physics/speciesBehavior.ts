@@ -0,0 +1,64 @@
+import { POLLUTANT_TYPES, PollutantType, PollutionSource, SpeciesId } from '../types';
+
+// Per-species transport coefficients derived from PollutantType.behavior
+export interface SpeciesTransport {
+  diffusionScale: number; // Multiplier on the global diffusion rate
+  advectionScale: number; // Fraction of the wind speed the species travels at
+  reactionRate: number;   // First-order chemical loss (1/time)
+  depositionRate: number; // First-order gravitational settling / deposition loss (1/time)
+}
+
+// Map the dimensionless 0-1 behaviour values onto solver rates
+const REACTION_RATE_SCALE = 0.05;
+const DEPOSITION_RATE_SCALE = 0.05;
+
+// Rain scavenging coefficient Lambda = a * R^b (R in mm/h), the usual empirical washout law
+const SCAVENGING_RATE_SCALE = 0.02; // a per unit of scavenging efficiency (1/time)
+const SCAVENGING_RAIN_EXPONENT = 0.75; // b
+
+export const getSpeciesTransport = (species: SpeciesId): SpeciesTransport => {
+  const pollutant = POLLUTANT_TYPES[species];
+  const { sinkRate, reactivity, viscosity } = pollutant.behavior;
+
+  return {
+    // Thicker (more viscous) species mix more slowly
+    diffusionScale: pollutant.diffusionModifier / viscosity,
+    // Heavy gases hug the ground where the wind is weaker, so they lag the flow and pool
+    advectionScale: Math.max(0, 1 - sinkRate),
+    reactionRate: reactivity * REACTION_RATE_SCALE,
+    depositionRate: sinkRate * DEPOSITION_RATE_SCALE
+  };
+};
+
+// Fraction of a species that survives decay, chemistry and deposition over dt
+export const getSurvivalFactor = (transport: SpeciesTransport, decayFactor: number, dt: number): number =>
+  decayFactor * Math.exp(-(transport.reactionRate + transport.depositionRate) * dt);
+
+// Survival in the layers above the ground, where nothing deposits: only decay and chemistry remove mass
+export const getAirborneSurvivalFactor = (transport: SpeciesTransport, decayFactor: number, dt: number): number =>
+  decayFactor * Math.exp(-transport.reactionRate * dt);
+
+// Fraction of a layer's content that settles into the layer below over dt, at the ground deposition rate
+export const getSettlingFraction = (transport: SpeciesTransport, dt: number): number =>
+  1 - Math.exp(-transport.depositionRate * dt);
+
+// First-order rate (1/time) at which rain of the given intensity washes a species out of the air
+export const getScavengingRate = (species: SpeciesId, rainIntensity: number = 0): number => {
+  const pollutant: PollutantType = POLLUTANT_TYPES[species];
+  const efficiency = pollutant.behavior.scavenging ?? 0;
+  if (efficiency <= 0 || rainIntensity <= 0) return 0;
+  return efficiency * SCAVENGING_RATE_SCALE * Math.pow(rainIntensity, SCAVENGING_RAIN_EXPONENT);
+};
+
+// Share of the loss in getSurvivalFactor that is deposition onto surfaces rather than decay or chemistry
+export const getDepositionShare = (transport: SpeciesTransport, decayFactor: number, dt: number): number => {
+  const decayRate = (decayFactor > 0 ? -Math.log(decayFactor) / dt : Infinity) + transport.reactionRate;
+  const totalRate = decayRate + transport.depositionRate;
+  return totalRate > 0 && Number.isFinite(totalRate) ? transport.depositionRate / totalRate : 0;
+};
+
+// Release temperature anomaly (K above ambient); sources fall back to their pollutant's tempGradient
+export const getReleaseTemperature = (source: PollutionSource): number => {
+  const pollutant: PollutantType = POLLUTANT_TYPES[source.type];
+  return source.releaseTemperature ?? pollutant.behavior.tempGradient ?? 0;
+};
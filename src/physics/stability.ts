@@ -0,0 +1,99 @@
+import { DEFAULT_CLOUD_COVER, DEFAULT_STABILITY_CLASS, DEFAULT_TIME_OF_DAY, SimulationParameters, StabilityClass } from '../types';
+
+export const WIND_SPEED_SCALE = 5; // m/s per unit of the windSpeed parameter
+
+// Briggs (1973) open-country fits to the Pasquill-Gifford dispersion curves, valid from about 100 m to 10 km:
+// sigma = a * x * (1 + b * x)^c with x the downwind distance in metres
+interface SigmaFit {
+  a: number;
+  b: number;
+  c: number;
+}
+
+const SIGMA_Y: Record<StabilityClass, SigmaFit> = {
+  A: { a: 0.22, b: 0.0001, c: -0.5 },
+  B: { a: 0.16, b: 0.0001, c: -0.5 },
+  C: { a: 0.11, b: 0.0001, c: -0.5 },
+  D: { a: 0.08, b: 0.0001, c: -0.5 },
+  E: { a: 0.06, b: 0.0001, c: -0.5 },
+  F: { a: 0.04, b: 0.0001, c: -0.5 }
+};
+
+const SIGMA_Z: Record<StabilityClass, SigmaFit> = {
+  A: { a: 0.2, b: 0, c: 0 },
+  B: { a: 0.12, b: 0, c: 0 },
+  C: { a: 0.08, b: 0.0002, c: -0.5 },
+  D: { a: 0.06, b: 0.0015, c: -0.5 },
+  E: { a: 0.03, b: 0.0003, c: -1 },
+  F: { a: 0.016, b: 0.0003, c: -1 }
+};
+
+const evaluate = ({ a, b, c }: SigmaFit, x: number): number => a * x * Math.pow(1 + b * x, c);
+
+// Lateral and vertical plume spread (m) at a downwind distance (m)
+export const getDispersionCoefficients = (
+  stabilityClass: StabilityClass = DEFAULT_STABILITY_CLASS, x: number
+): { sigmaY: number; sigmaZ: number } => ({
+  sigmaY: evaluate(SIGMA_Y[stabilityClass], x),
+  sigmaZ: evaluate(SIGMA_Z[stabilityClass], x)
+});
+
+// Eddy diffusivities relative to neutral (D) conditions. Sun-heated, convective air (A) stirs pollution
+// several times faster than a neutral atmosphere, most of all vertically; a stable night (F) all but shuts
+// vertical mixing off while meandering still spreads plumes sideways.
+const HORIZONTAL_MIXING: Record<StabilityClass, number> = { A: 3, B: 2, C: 1.4, D: 1, E: 0.6, F: 0.35 };
+const VERTICAL_MIXING: Record<StabilityClass, number> = { A: 4, B: 2.5, C: 1.6, D: 1, E: 0.3, F: 0.1 };
+
+export interface EddyDiffusivityScale {
+  horizontal: number; // Multiplier on the diffusion rate
+  vertical: number; // Multiplier on the exchange between vertical layers
+}
+
+export const getEddyDiffusivityScale = (stabilityClass: StabilityClass = DEFAULT_STABILITY_CLASS): EddyDiffusivityScale => ({
+  horizontal: HORIZONTAL_MIXING[stabilityClass],
+  vertical: VERTICAL_MIXING[stabilityClass]
+});
+
+// Pasquill-Turner key: rows by insolation (or night-time cloud), columns by surface wind below 2, 3, 5, 6
+// and from 6 m/s. Intermediate classes such as A-B are rounded to the more stable one.
+type Insolation = 'strong' | 'moderate' | 'slight' | 'cloudyNight' | 'clearNight';
+const WIND_BREAKS = [2, 3, 5, 6];
+const PASQUILL_TURNER: Record<Insolation, StabilityClass[]> = {
+  strong: ['A', 'B', 'B', 'C', 'C'],
+  moderate: ['B', 'B', 'C', 'D', 'D'],
+  slight: ['B', 'C', 'C', 'D', 'D'],
+  cloudyNight: ['E', 'E', 'D', 'D', 'D'],
+  clearNight: ['F', 'F', 'E', 'D', 'D']
+};
+const NOON_SUN_ELEVATION = 70; // Degrees; a mid-latitude summer day, sunrise at 6:00 and sunset at 18:00
+const OVERCAST = 7 / 8; // Cloud cover at which the class is neutral day and night
+const BROKEN_CLOUD = 0.5; // Cover above which cloud weakens the sun by one category, or keeps the night mild
+
+// Sun elevation (degrees) over the day; negative at night
+export const getSunElevation = (timeOfDay: number): number =>
+  NOON_SUN_ELEVATION * Math.sin((Math.PI * (timeOfDay - 6)) / 12);
+
+const getInsolation = (cloudCover: number, timeOfDay: number): Insolation => {
+  const elevation = getSunElevation(timeOfDay);
+  if (elevation <= 0) return cloudCover >= BROKEN_CLOUD ? 'cloudyNight' : 'clearNight';
+  const categories: Insolation[] = ['slight', 'moderate', 'strong'];
+  const sun = elevation > 60 ? 2 : elevation > 35 ? 1 : 0;
+  return categories[Math.max(0, sun - (cloudCover > BROKEN_CLOUD ? 1 : 0))];
+};
+
+// Stability class from the surface wind (m/s), cloud cover (0-1) and local solar time (hours)
+export const deriveStabilityClass = (windSpeed: number, cloudCover: number, timeOfDay: number): StabilityClass => {
+  if (cloudCover >= OVERCAST) return 'D';
+  const column = WIND_BREAKS.filter(limit => windSpeed >= limit).length;
+  return PASQUILL_TURNER[getInsolation(cloudCover, timeOfDay)][column];
+};
+
+// The class in force: chosen directly, or derived from the weather when automatic
+export const resolveStabilityClass = (parameters: SimulationParameters): StabilityClass =>
+  parameters.autoStability
+    ? deriveStabilityClass(
+      parameters.windSpeed * WIND_SPEED_SCALE,
+      parameters.cloudCover ?? DEFAULT_CLOUD_COVER,
+      parameters.timeOfDay ?? DEFAULT_TIME_OF_DAY
+    )
+    : parameters.stabilityClass ?? DEFAULT_STABILITY_CLASS;
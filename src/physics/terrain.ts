@@ -0,0 +1,71 @@
+import { GridResolution } from '../types';
+import { createGrid, resampleField } from './gridResampling';
+
+// Terrain elevations are stored per cell as a fraction (0-1) of the maximum relief.
+// Slopes are measured in relief per domain length, so a hill keeps its steepness when the grid is resized.
+
+export const TERRAIN_BRUSH_RADIUS = 4; // Cells
+export const TERRAIN_BRUSH_STRENGTH = 0.04; // Elevation added at the brush centre per application
+
+// Raises (direction 1) or lowers (direction -1) the terrain around (x, y) with a smooth falloff
+export const applyTerrainBrush = (
+  terrain: number[][], x: number, y: number, direction: number,
+  radius: number = TERRAIN_BRUSH_RADIUS, strength: number = TERRAIN_BRUSH_STRENGTH
+): number[][] => {
+  const next = terrain.map(row => [...row]);
+  const height = terrain.length;
+  const width = terrain[0]?.length ?? 0;
+  const reach = Math.ceil(radius);
+
+  for (let j = Math.max(0, y - reach); j <= Math.min(height - 1, y + reach); j++) {
+    for (let i = Math.max(0, x - reach); i <= Math.min(width - 1, x + reach); i++) {
+      const dist = Math.hypot(i - x, j - y);
+      if (dist > radius) continue;
+      const falloff = 0.5 * (1 + Math.cos((Math.PI * dist) / radius));
+      next[j][i] = Math.min(1, Math.max(0, next[j][i] + direction * strength * falloff));
+    }
+  }
+  return next;
+};
+
+// Grayscale heightmap (black = lowest, white = highest) resampled onto the simulation grid
+export const heightmapFromImage = (
+  image: { width: number; height: number; data: ArrayLike<number> }, resolution: GridResolution
+): number[][] => {
+  const pixels = createGrid({ width: image.width, height: image.height });
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const p = (y * image.width + x) * 4;
+      // Rec. 709 luma of the RGBA pixel
+      pixels[y][x] = (0.2126 * image.data[p] + 0.7152 * image.data[p + 1] + 0.0722 * image.data[p + 2]) / 255;
+    }
+  }
+  return resampleField(pixels, resolution);
+};
+
+export const hasRelief = (terrain: ArrayLike<number>): boolean => {
+  for (let k = 0; k < terrain.length; k++) {
+    if (terrain[k] !== terrain[0]) return true;
+  }
+  return false;
+};
+
+/**
+ * Central-difference slope of a flat, row-major elevation field, in relief per domain length
+ * (scale = cells along the longer side). Edge cells use one-sided differences.
+ */
+export const computeSlope = (
+  terrain: Float32Array, width: number, height: number, scale: number, slopeX: Float32Array, slopeY: Float32Array
+): void => {
+  for (let i = 0; i < height; i++) {
+    for (let j = 0; j < width; j++) {
+      const k = i * width + j;
+      const left = j > 0 ? 1 : 0;
+      const right = j < width - 1 ? 1 : 0;
+      const up = i > 0 ? 1 : 0;
+      const down = i < height - 1 ? 1 : 0;
+      slopeX[k] = left + right > 0 ? ((terrain[k + right] - terrain[k - left]) / (left + right)) * scale : 0;
+      slopeY[k] = up + down > 0 ? ((terrain[k + down * width] - terrain[k - up * width]) / (up + down)) * scale : 0;
+    }
+  }
+};
@@ -0,0 +1,82 @@
+// The air column above each cell is split into equally thick layers between the ground and the top of
+// the boundary layer. Layer 0 is the ground layer the 2D solver has always simulated; the others sit
+// above it and trade pollution with their neighbours through turbulent mixing, which an inversion lid
+// at the mixing height all but shuts off.
+
+export const MODEL_TOP_HEIGHT = 1000; // m, top of the modelled boundary layer
+export const DEFAULT_VERTICAL_LAYERS = 1; // A single well-mixed layer, as in the original 2D model
+export const MAX_VERTICAL_LAYERS = 8;
+export const DEFAULT_MIXING_HEIGHT = MODEL_TOP_HEIGHT; // No lid inside the model
+
+const VERTICAL_DIFFUSIVITY = 2e4; // Turbulent exchange coefficient below the lid (m² per unit time)
+const LID_LEAKAGE = 0.01; // Fraction of that exchange still crossing an interface at or above the lid
+const WIND_SHEAR_EXPONENT = 0.15; // Power-law growth of the wind with height (neutral conditions)
+
+export const getLayerCount = (layers?: number): number =>
+  Math.min(MAX_VERTICAL_LAYERS, Math.max(1, Math.round(layers ?? DEFAULT_VERTICAL_LAYERS)));
+
+export const getLayerThickness = (count: number): number => MODEL_TOP_HEIGHT / count;
+
+// Whether the interface at height z (m) lies inside the inversion lid
+export const isCapped = (z: number, mixingHeight: number): boolean => z >= mixingHeight;
+
+// Turbulent diffusivity (m² per unit time) at height z: strong in the mixed layer, nearly shut off in the lid.
+// scale is the stability class's vertical mixing relative to neutral air.
+export const getVerticalDiffusivity = (z: number, mixingHeight: number, scale: number = 1): number =>
+  scale * (isCapped(z, mixingHeight) ? VERTICAL_DIFFUSIVITY * LID_LEAKAGE : VERTICAL_DIFFUSIVITY);
+
+// Exchange rates (per unit time) across the interfaces; entry n - 1 couples layers n - 1 and n
+export const getInterfaceExchange = (count: number, mixingHeight: number, scale: number = 1): number[] => {
+  const dz = getLayerThickness(count);
+  const exchange: number[] = [];
+  for (let n = 1; n < count; n++) {
+    exchange.push(getVerticalDiffusivity(n * dz, mixingHeight, scale) / (dz * dz));
+  }
+  return exchange;
+};
+
+// Wind speed in a layer relative to the ground layer, measured at the layer midpoints
+export const getWindProfileFactor = (layer: number): number => Math.pow(2 * layer + 1, WIND_SHEAR_EXPONENT);
+
+/**
+ * Implicit (backward Euler) exchange between the layers of one column: (I - dt L) c' = c, where L is the
+ * tridiagonal mixing operator. The matrix is the same for every column, so its Thomas factorisation is
+ * computed once and reused. Columns of the matrix sum to one, so mixing conserves the column's mass.
+ */
+export interface ColumnMixer {
+  lower: Float64Array; // Sub-diagonal coefficient of each row (row 0 unused)
+  upperRatio: Float64Array; // Eliminated super-diagonal, c'_n in the Thomas algorithm
+  pivotInverse: Float64Array;
+  work: Float64Array;
+}
+
+export const createColumnMixer = (exchange: number[], dt: number): ColumnMixer => {
+  const count = exchange.length + 1;
+  const lower = new Float64Array(count);
+  const upperRatio = new Float64Array(count);
+  const pivotInverse = new Float64Array(count);
+
+  for (let n = 0; n < count; n++) {
+    const below = n > 0 ? dt * exchange[n - 1] : 0;
+    const above = n < count - 1 ? dt * exchange[n] : 0;
+    lower[n] = -below;
+    const pivot = 1 + below + above - (n > 0 ? lower[n] * upperRatio[n - 1] : 0);
+    pivotInverse[n] = 1 / pivot;
+    upperRatio[n] = -above / pivot;
+  }
+  return { lower, upperRatio, pivotInverse, work: new Float64Array(count) };
+};
+
+// Mixes one column in place
+export const mixColumn = (mixer: ColumnMixer, column: Float64Array): void => {
+  const { lower, upperRatio, pivotInverse, work } = mixer;
+  const count = column.length;
+  work[0] = column[0] * pivotInverse[0];
+  for (let n = 1; n < count; n++) {
+    work[n] = (column[n] - lower[n] * work[n - 1]) * pivotInverse[n];
+  }
+  column[count - 1] = work[count - 1];
+  for (let n = count - 2; n >= 0; n--) {
+    column[n] = work[n] - upperRatio[n] * column[n + 1];
+  }
+};
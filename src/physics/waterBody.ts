@@ -0,0 +1,151 @@
+import {
+  AIR_SPECIES, DEFAULT_MEDIUM, DEFAULT_RIVER_PROFILE, WATER_SPECIES, GridResolution, Medium, RiverProfile,
+  SimulationParameters, SpeciesId, Vector2D, WaterPresetId
+} from '../types';
+import { getAmbientWind } from './boundaryConditions';
+
+// Water domain: the same solver seen as a river, lake or coastal water from above. windSpeed and
+// windDirection become the mean current, banks are obstacles, and a tide can swing the current to and fro.
+
+export const DEFAULT_TIDAL_PERIOD = 12.42; // Hours, the principal lunar (M2) tide
+export const MAX_TIDAL_AMPLITUDE = 2;
+
+export const isWaterDomain = (parameters: SimulationParameters): boolean => (parameters.medium ?? DEFAULT_MEDIUM) === 'water';
+
+// Species a source may release into the medium
+export const getMediumSpecies = (medium: Medium): SpeciesId[] => (medium === 'water' ? WATER_SPECIES : AIR_SPECIES);
+
+// Tidal part of the current (windSpeed units) at an hour on the simulation clock: flooding with the mean
+// flow for half the period, ebbing against it for the other half
+export const getTidalCurrent = (parameters: SimulationParameters, hour: number): number => {
+  if (!isWaterDomain(parameters)) return 0;
+  const period = parameters.tidalPeriod ?? DEFAULT_TIDAL_PERIOD;
+  return period > 0 ? (parameters.tidalAmplitude ?? 0) * Math.sin((2 * Math.PI * hour) / period) : 0;
+};
+
+// Flow the domain is driven towards: the wind, or the river current plus the tide
+export const getAmbientCurrent = (parameters: SimulationParameters, hour: number): Vector2D =>
+  getAmbientWind(parameters.windSpeed + getTidalCurrent(parameters, hour), parameters.windDirection);
+
+/**
+ * Share of the mean current in each cell, for a current running along x (alongX) or y. Each run of open cells
+ * across the flow, from bank to bank, gets a parabolic (plane Poiseuille) profile 6 s (1 - s) with s the
+ * fraction of the way across, scaled to average 1 so it peaks at about 1.5 mid-stream; a uniform profile is 1 throughout.
+ * Banks and other solid cells get 0.
+ */
+export const computeChannelShape = (
+  obstacles: Uint8Array, width: number, height: number, alongX: boolean, profile: RiverProfile, shape: Float32Array
+): void => {
+  shape.fill(0);
+  const lines = alongX ? width : height;
+  const span = alongX ? height : width;
+  const cell = (line: number, n: number) => (alongX ? n * width + line : line * width + n);
+
+  for (let line = 0; line < lines; line++) {
+    let n = 1;
+    while (n < span - 1) {
+      if (obstacles[cell(line, n)]) {
+        n++;
+        continue;
+      }
+      let end = n;
+      while (end < span - 1 && !obstacles[cell(line, end)]) end++;
+      // Sampled at cell centres the parabola averages a little under 1, so it is rescaled to carry the mean flow
+      const length = end - n;
+      let total = 0;
+      for (let m = n; m < end; m++) {
+        const s = (m - n + 0.5) / length;
+        shape[cell(line, m)] = profile === 'parabolic' ? 6 * s * (1 - s) : 1;
+        total += shape[cell(line, m)];
+      }
+      for (let m = n; m < end; m++) shape[cell(line, m)] *= length / total;
+      n = end;
+    }
+  }
+};
+
+// The current runs along whichever grid axis is closer to its direction
+export const isCurrentAlongX = (windDirection: number): boolean => {
+  const angle = (windDirection * Math.PI) / 180;
+  return Math.abs(Math.cos(angle)) >= Math.abs(Math.sin(angle));
+};
+
+export interface WaterPreset {
+  name: string;
+  description: string;
+  parameters: Partial<SimulationParameters>;
+  // Banks and shore as obstacles, true for land
+  banks: (resolution: GridResolution) => boolean[][];
+}
+
+const createBanks = ({ width, height }: GridResolution, isLand: (fx: number, fy: number) => boolean): boolean[][] =>
+  Array.from({ length: height }, (_, y) => Array.from({ length: width }, (_, x) => isLand(x / width, y / height)));
+
+// Settings every water preset shares: water mixes far more slowly than air, buoyancy is weak, and
+// there is no rain washout, inversion or stack to model
+const WATER_PARAMETERS: Partial<SimulationParameters> = {
+  medium: 'water',
+  diffusionRate: 0.05,
+  viscosity: 2.0,
+  decayFactor: 0.999,
+  buoyancy: 0.3,
+  verticalLayers: 1,
+  rainIntensity: 0,
+  dispersionModel: 'navierStokes',
+  autoStability: false,
+  stabilityClass: 'D',
+  riverProfile: DEFAULT_RIVER_PROFILE,
+  tidalAmplitude: 0,
+  tidalPeriod: DEFAULT_TIDAL_PERIOD
+};
+
+export const WATER_PRESETS: Record<WaterPresetId, WaterPreset> = {
+  river: {
+    name: 'River',
+    description: 'A channel flowing left to right between its banks, fastest mid-stream.',
+    parameters: {
+      ...WATER_PARAMETERS,
+      windDirection: 0,
+      windSpeed: 0.8,
+      boundaries: { left: 'inflow', right: 'outflow', top: 'wall', bottom: 'wall' }
+    },
+    banks: resolution => createBanks(resolution, (_, fy) => fy < 0.3 || fy > 0.7)
+  },
+  lake: {
+    name: 'Lake',
+    description: 'Still water inside an oval shoreline, stirred only by a light drift.',
+    parameters: {
+      ...WATER_PARAMETERS,
+      windDirection: 30,
+      windSpeed: 0.1,
+      riverProfile: 'uniform',
+      boundaries: { left: 'wall', right: 'wall', top: 'wall', bottom: 'wall' }
+    },
+    banks: resolution => createBanks(resolution, (fx, fy) => ((fx - 0.5) / 0.42) ** 2 + ((fy - 0.5) / 0.36) ** 2 > 1)
+  },
+  estuary: {
+    name: 'Estuary',
+    description: 'A river widening into the sea, its current reversed twice a day by the tide.',
+    parameters: {
+      ...WATER_PARAMETERS,
+      windDirection: 0,
+      windSpeed: 0.4,
+      tidalAmplitude: 0.8,
+      boundaries: { left: 'inflow', right: 'outflow', top: 'wall', bottom: 'wall' }
+    },
+    banks: resolution => createBanks(resolution, (fx, fy) => Math.abs(fy - 0.5) > 0.12 + 0.3 * fx * fx)
+  },
+  coast: {
+    name: 'Coastline',
+    description: 'Open sea over a straight shore, with a tidal current running along it.',
+    parameters: {
+      ...WATER_PARAMETERS,
+      windDirection: 0,
+      windSpeed: 0,
+      tidalAmplitude: 1.0,
+      riverProfile: 'uniform',
+      boundaries: { left: 'periodic', right: 'periodic', top: 'outflow', bottom: 'wall' }
+    },
+    banks: resolution => createBanks(resolution, (fx, fy) => fy > 0.75 + 0.05 * Math.sin(2 * Math.PI * fx))
+  }
+};
@@ -1,5 +1,17 @@
 import { create } from 'zustand';
-import { SimulationState, SimulationParameters, PollutionSource, GRID_SIZE } from '../types';
+import {
+  SimulationState, SimulationParameters, PollutionSource, SpeciesGrids, SolverDiagnostics, GridResolution,
+  BoundaryOutflow, MassBudget, LayerConcentration, DEFAULT_ADVECTION_SCHEME, DEFAULT_CLOUD_COVER, DEFAULT_DISPERSION_MODEL, DEFAULT_STABILITY_CLASS, DEFAULT_TIME_OF_DAY, DEFAULT_TURBULENCE_MODEL, DEFAULT_BOUNDARIES, DEFAULT_RESOLUTION, MIN_GRID_DIMENSION, MAX_GRID_DIMENSION,
+  SPECIES_IDS, SpeciesId, TerrainBrush, PuffReport, SourceDrawing, SourceTrail, Medium, WaterPresetId, SlickWeathering
+} from '../types';
+import { clampResolution, createGrid, createMask, resampleField, resampleMask } from '../physics/gridResampling';
+import { createPuffSource } from '../physics/puffRelease';
+import { DEFAULT_SOURCE_SPEED } from '../physics/movingSource';
+import { MIN_DRAWING_VERTICES, getPathAnchor, rescaleSource } from '../physics/sourceGeometry';
+import { applyTerrainBrush } from '../physics/terrain';
+import { DEFAULT_SMAGORINSKY_CONSTANT, DEFAULT_VORTICITY_CONFINEMENT } from '../physics/turbulence';
+import { DEFAULT_MIXING_HEIGHT } from '../physics/verticalLayers';
+import { WATER_PRESETS, getMediumSpecies } from '../physics/waterBody';
 
 interface SimulationStore extends SimulationState {
   actions: {
@@ -14,11 +26,34 @@ interface SimulationStore extends SimulationState {
     toggleScientistMode: () => void;
     toggleDrawingObstacles: () => void;
     toggleDynamicWeather: () => void;
-    setGrid: (grid: number[][]) => void;
+    setGrid: (grid: number[][], speciesGrids?: SpeciesGrids) => void;
     setObstacles: (obstacles: boolean[][]) => void;
     addObstacle: (x: number, y: number) => void;
     removeObstacle: (x: number, y: number) => void;
+    setTerrain: (terrain: number[][]) => void;
+    sculptTerrain: (x: number, y: number) => void;
+    setTerrainBrush: (brush: TerrainBrush | null) => void;
     setFPS: (fps: number) => void;
+    setResolution: (resolution: GridResolution) => void;
+    setSolverDiagnostics: (diagnostics: SolverDiagnostics) => void;
+    setBoundaryOutflow: (outflow: BoundaryOutflow) => void;
+    setMassBudget: (budget: MassBudget) => void;
+    setSimulationTime: (hours: number) => void;
+    setPuffReport: (report: PuffReport | null) => void;
+    setSourceTrails: (trails: SourceTrail[]) => void;
+    setSlickWeathering: (weathering: SlickWeathering | null) => void;
+    setMedium: (medium: Medium, preset?: WaterPresetId) => void;
+    togglePuffPlacement: () => void;
+    placePuff: (x: number, y: number) => void;
+    startSourceDrawing: (kind: SourceDrawing['kind']) => void;
+    addDrawingVertex: (x: number, y: number) => void;
+    finishSourceDrawing: () => void;
+    cancelSourceDrawing: () => void;
+    setVerticalProfile: (profile: LayerConcentration[]) => void;
+    setDeposition: (deposition: SpeciesGrids) => void;
+    toggleDepositionLayer: () => void;
+    setDepositionSpecies: (species: SpeciesId | null) => void;
+    clearDeposition: () => void;
   };
 }
 
@@ -29,32 +64,91 @@ const initialParameters: SimulationParameters = {
   releaseRate: 20,
   viscosity: 1.0,
   decayFactor: 0.992,
-  simulationSpeed: 1.0
+  simulationSpeed: 1.0,
+  sunIntensity: 0.7,
+  buoyancy: 1.0,
+  solverTolerance: 1e-3,
+  solverMaxIterations: 100,
+  boundaries: DEFAULT_BOUNDARIES,
+  advectionScheme: DEFAULT_ADVECTION_SCHEME,
+  turbulenceModel: DEFAULT_TURBULENCE_MODEL,
+  smagorinskyConstant: DEFAULT_SMAGORINSKY_CONSTANT,
+  vorticityConfinement: DEFAULT_VORTICITY_CONFINEMENT,
+  verticalLayers: 4,
+  mixingHeight: DEFAULT_MIXING_HEIGHT,
+  dispersionModel: DEFAULT_DISPERSION_MODEL,
+  stabilityClass: DEFAULT_STABILITY_CLASS,
+  autoStability: false,
+  cloudCover: DEFAULT_CLOUD_COVER,
+  timeOfDay: DEFAULT_TIME_OF_DAY,
+  rainIntensity: 0
 };
 
-const createInitialGrid = (): number[][] =>
-  Array(GRID_SIZE).fill(0).map(() => Array(GRID_SIZE).fill(0));
+const createInitialSpeciesGrids = (resolution: GridResolution): SpeciesGrids => {
+  const grids = {} as SpeciesGrids;
+  SPECIES_IDS.forEach(species => {
+    grids[species] = createGrid(resolution);
+  });
+  return grids;
+};
+
+const resampleSpeciesGrids = (grids: SpeciesGrids, resolution: GridResolution): SpeciesGrids => {
+  const resampled = {} as SpeciesGrids;
+  SPECIES_IDS.forEach(species => {
+    resampled[species] = resampleField(grids[species], resolution);
+  });
+  return resampled;
+};
+
+const createDefaultSource = (resolution: GridResolution): PollutionSource => ({
+  x: Math.floor(resolution.width / 2),
+  y: Math.floor(resolution.height / 2),
+  type: 'CO2',
+  active: true
+});
 
-const createInitialObstacles = (): boolean[][] =>
-  Array(GRID_SIZE).fill(0).map(() => Array(GRID_SIZE).fill(false));
+const inBounds = (resolution: GridResolution, x: number, y: number) =>
+  x >= 0 && x < resolution.width && y >= 0 && y < resolution.height;
+
+// Building walls, sculpting terrain, placing puffs and drawing lines or areas share the mouse, so turning
+// one on turns the others off
+const NO_MOUSE_TOOL = {
+  isDrawingObstacles: false,
+  terrainBrush: null,
+  isPlacingPuff: false,
+  sourceDrawing: null
+};
 
 const initialState: SimulationState = {
   isRunning: false,
-  grid: createInitialGrid(),
-  obstacles: createInitialObstacles(),
-  sources: [{
-    x: Math.floor(GRID_SIZE / 2),
-    y: Math.floor(GRID_SIZE / 2),
-    type: 'CO2',
-    active: true
-  }],
+  resolution: DEFAULT_RESOLUTION,
+  grid: createGrid(DEFAULT_RESOLUTION),
+  speciesGrids: createInitialSpeciesGrids(DEFAULT_RESOLUTION),
+  obstacles: createMask(DEFAULT_RESOLUTION),
+  terrain: createGrid(DEFAULT_RESOLUTION),
+  sources: [createDefaultSource(DEFAULT_RESOLUTION)],
   parameters: initialParameters,
   fps: 0,
   gpuEnabled: false,
   scientistMode: false,
   isDrawingObstacles: false,
+  terrainBrush: null,
+  isPlacingPuff: false,
+  sourceDrawing: null,
   dynamicWeather: false,
-  resetTrigger: 0
+  resetTrigger: 0,
+  solverDiagnostics: null,
+  boundaryOutflow: null,
+  massBudget: null,
+  verticalProfile: null,
+  deposition: null,
+  showDeposition: true,
+  depositionSpecies: null,
+  depositionResetTrigger: 0,
+  simulationTime: 0,
+  puffReport: null,
+  sourceTrails: [],
+  slickWeathering: null
 };
 
 export const useSimulationStore = create<SimulationStore>((set) => ({
@@ -62,18 +156,25 @@ export const useSimulationStore = create<SimulationStore>((set) => ({
   actions: {
     start: () => set({ isRunning: true }),
     pause: () => set({ isRunning: false }),
+    // Keeps the current resolution; only the contents of the domain are cleared
     reset: () => set((state) => ({
       isRunning: false,
-      grid: createInitialGrid(),
-      obstacles: createInitialObstacles(),
+      grid: createGrid(state.resolution),
+      speciesGrids: createInitialSpeciesGrids(state.resolution),
+      obstacles: createMask(state.resolution),
+      terrain: createGrid(state.resolution),
       parameters: initialParameters,
-      sources: [{
-        x: Math.floor(GRID_SIZE / 2),
-        y: Math.floor(GRID_SIZE / 2),
-        type: 'CO2',
-        active: true
-      }],
-      resetTrigger: state.resetTrigger + 1
+      sources: [createDefaultSource(state.resolution)],
+      resetTrigger: state.resetTrigger + 1,
+      solverDiagnostics: null,
+      boundaryOutflow: null,
+      massBudget: null,
+      verticalProfile: null,
+      deposition: null,
+      simulationTime: 0,
+      puffReport: null,
+      sourceTrails: [],
+      slickWeathering: null
     })),
     updateParameters: (params) => set((state) => ({
       parameters: { ...state.parameters, ...params }
@@ -87,24 +188,123 @@ export const useSimulationStore = create<SimulationStore>((set) => ({
     })),
     toggleGPU: () => set((state) => ({ gpuEnabled: !state.gpuEnabled })),
     toggleScientistMode: () => set((state) => ({ scientistMode: !state.scientistMode })),
-    toggleDrawingObstacles: () => set((state) => ({ isDrawingObstacles: !state.isDrawingObstacles })),
+    toggleDrawingObstacles: () => set((state) => (
+      state.isDrawingObstacles ? { isDrawingObstacles: false } : { ...NO_MOUSE_TOOL, isDrawingObstacles: true }
+    )),
     toggleDynamicWeather: () => set((state) => ({ dynamicWeather: !state.dynamicWeather })),
-    setGrid: (grid) => set({ grid }),
+    setGrid: (grid, speciesGrids) => set((state) => ({
+      grid,
+      speciesGrids: speciesGrids ?? state.speciesGrids
+    })),
     setObstacles: (obstacles) => set({ obstacles }),
     addObstacle: (x, y) => set((state) => {
       const newObstacles = state.obstacles.map(row => [...row]);
-      if (x >= 0 && x < GRID_SIZE && y >= 0 && y < GRID_SIZE) {
+      if (inBounds(state.resolution, x, y)) {
         newObstacles[y][x] = true;
       }
       return { obstacles: newObstacles };
     }),
     removeObstacle: (x, y) => set((state) => {
       const newObstacles = state.obstacles.map(row => [...row]);
-      if (x >= 0 && x < GRID_SIZE && y >= 0 && y < GRID_SIZE) {
+      if (inBounds(state.resolution, x, y)) {
         newObstacles[y][x] = false;
       }
       return { obstacles: newObstacles };
     }),
-    setFPS: (fps) => set({ fps })
+    setTerrain: (terrain) => set({ terrain }),
+    sculptTerrain: (x, y) => set((state) => {
+      if (!state.terrainBrush || !inBounds(state.resolution, x, y)) return {};
+      return { terrain: applyTerrainBrush(state.terrain, x, y, state.terrainBrush === 'raise' ? 1 : -1) };
+    }),
+    setTerrainBrush: (terrainBrush) => set(terrainBrush ? { ...NO_MOUSE_TOOL, terrainBrush } : { terrainBrush: null }),
+    togglePuffPlacement: () => set((state) => (
+      state.isPlacingPuff ? { isPlacingPuff: false } : { ...NO_MOUSE_TOOL, isPlacingPuff: true }
+    )),
+    // A puff of the selected pollutant, going off at the current clock time (so on the next step)
+    placePuff: (x, y) => set((state) => {
+      if (!inBounds(state.resolution, x, y)) return {};
+      const puff = createPuffSource(x, y, state.sources[0]?.type ?? 'CO2', state.simulationTime);
+      return { sources: [...state.sources, { ...puff, active: true }], isPlacingPuff: false };
+    }),
+    startSourceDrawing: (kind) => set({ ...NO_MOUSE_TOOL, sourceDrawing: { kind, path: [] } }),
+    addDrawingVertex: (x, y) => set((state) => {
+      const drawing = state.sourceDrawing;
+      if (!drawing || !inBounds(state.resolution, x, y)) return {};
+      const last = drawing.path[drawing.path.length - 1];
+      if (last && last.x === x && last.y === y) return {};
+      return { sourceDrawing: { ...drawing, path: [...drawing.path, { x, y }] } };
+    }),
+    // The finished outline becomes a source of the selected pollutant (a route one that sets off straight away,
+    // on the clock the canvas resets here with the engines after a pause); too few vertices just ends the drawing
+    finishSourceDrawing: () => set((state) => {
+      const drawing = state.sourceDrawing;
+      if (!drawing) return {};
+      if (drawing.path.length < MIN_DRAWING_VERTICES[drawing.kind]) return { sourceDrawing: null };
+      const type = state.sources[0]?.type ?? 'CO2';
+      const source: PollutionSource = drawing.kind === 'route'
+        ? {
+          ...drawing.path[0], type, active: true, kind: 'moving', waypoints: drawing.path,
+          speed: DEFAULT_SOURCE_SPEED, routeMode: 'loop', departureTime: state.simulationTime
+        }
+        : { ...getPathAnchor(drawing.path), type, active: true, kind: drawing.kind, path: drawing.path };
+      return { sources: [...state.sources, source], sourceDrawing: null };
+    }),
+    cancelSourceDrawing: () => set({ sourceDrawing: null }),
+    setFPS: (fps) => set({ fps }),
+    // Resamples obstacles, terrain and concentrations onto the new grid and moves sources to the same spot
+    setResolution: (resolution) => set((state) => {
+      if (!Number.isFinite(resolution.width) || !Number.isFinite(resolution.height)) return {};
+      const next = clampResolution(resolution, MIN_GRID_DIMENSION, MAX_GRID_DIMENSION);
+      if (next.width === state.resolution.width && next.height === state.resolution.height) return {};
+
+      return {
+        resolution: next,
+        grid: resampleField(state.grid, next),
+        speciesGrids: resampleSpeciesGrids(state.speciesGrids, next),
+        obstacles: resampleMask(state.obstacles, next),
+        terrain: resampleField(state.terrain, next),
+        deposition: state.deposition && resampleSpeciesGrids(state.deposition, next),
+        sources: state.sources.map(source => rescaleSource(source, state.resolution, next)),
+        sourceDrawing: null
+      };
+    }),
+    setSolverDiagnostics: (solverDiagnostics) => set({ solverDiagnostics }),
+    setBoundaryOutflow: (boundaryOutflow) => set({ boundaryOutflow }),
+    setMassBudget: (massBudget) => set({ massBudget }),
+    setSimulationTime: (simulationTime) => set({ simulationTime }),
+    setPuffReport: (puffReport) => set({ puffReport }),
+    setSourceTrails: (sourceTrails) => set({ sourceTrails }),
+    setSlickWeathering: (slickWeathering) => set({ slickWeathering }),
+    // Switches between air and a water preset: its banks replace the obstacles, its current and tide the
+    // wind, and sources move to the first pollutant of the new medium unless theirs belongs to it. Stops the
+    // run, which clears the domain.
+    setMedium: (medium, preset = 'river') => set((state) => {
+      const species = getMediumSpecies(medium);
+      return {
+        ...NO_MOUSE_TOOL,
+        isRunning: false,
+        parameters: medium === 'water'
+          ? { ...state.parameters, ...WATER_PRESETS[preset].parameters }
+          : initialParameters,
+        obstacles: medium === 'water' ? WATER_PRESETS[preset].banks(state.resolution) : createMask(state.resolution),
+        terrain: createGrid(state.resolution),
+        sources: state.sources.map(source => (species.includes(source.type) ? source : { ...source, type: species[0] })),
+        massBudget: null,
+        deposition: null,
+        simulationTime: 0,
+        puffReport: null,
+        sourceTrails: [],
+        slickWeathering: null
+      };
+    }),
+    setVerticalProfile: (verticalProfile) => set({ verticalProfile }),
+    setDeposition: (deposition) => set({ deposition }),
+    toggleDepositionLayer: () => set((state) => ({ showDeposition: !state.showDeposition })),
+    setDepositionSpecies: (depositionSpecies) => set({ depositionSpecies }),
+    // The air is left alone; the canvas clears the solver's deposit when the trigger changes
+    clearDeposition: () => set((state) => ({
+      deposition: null,
+      depositionResetTrigger: state.depositionResetTrigger + 1
+    }))
   }
 }));
\ No newline at end of file
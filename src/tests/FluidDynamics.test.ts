@@ -1,4 +1,7 @@
 import { FluidDynamics } from '../physics/FluidDynamics';
+import { WATER_PRESETS } from '../physics/waterBody';
+import { createPuffSource } from '../physics/puffRelease';
+import { AdvectionScheme, SimulationParameters } from '../types';
 
 // Mock WebGLSimulationEngine to avoid GPU initialization in tests
 jest.mock('../physics/WebGLSimulationEngine', () => ({
@@ -16,8 +19,64 @@ describe('FluidDynamics', () => {
   });
 
   test('should initialize with correct grid size', () => {
-    // Access private property for testing (casting to any)
-    expect((fluidDynamics as any).gridSize).toBe(TEST_GRID_SIZE);
+    expect(fluidDynamics.getResolution()).toEqual({ width: TEST_GRID_SIZE, height: TEST_GRID_SIZE });
+  });
+
+  test('should run on a non-square grid', () => {
+    const wide = new FluidDynamics(60, 30);
+    const params = {
+      windDirection: 0,
+      windSpeed: 1.0,
+      diffusionRate: 0.1,
+      releaseRate: 0,
+      viscosity: 0,
+      decayFactor: 1.0,
+      simulationSpeed: 1.0
+    };
+    wide.addDensitySource(10, 15, 100);
+    for (let i = 0; i < 5; i++) {
+      wide.step(params, []);
+    }
+
+    const density = wide.getDensity();
+    expect(density.length).toBe(30);
+    expect(density[0].length).toBe(60);
+    // Eastward wind carries the puff along the long axis
+    const downwind = density.reduce((sum, row) => sum + row.slice(11).reduce((a, b) => a + b, 0), 0);
+    const upwind = density.reduce((sum, row) => sum + row.slice(0, 10).reduce((a, b) => a + b, 0), 0);
+    expect(downwind).toBeGreaterThan(upwind);
+  });
+
+  test('should resample fields and obstacles when resized', () => {
+    const obstacles = Array(TEST_GRID_SIZE).fill(0).map(() => Array(TEST_GRID_SIZE).fill(false));
+    for (let y = 20; y < 30; y++) {
+      for (let x = 20; x < 30; x++) obstacles[y][x] = true;
+    }
+    fluidDynamics.setObstacles(obstacles);
+    fluidDynamics.addDensitySource(10, 10, 200, 'PM25');
+
+    fluidDynamics.resize(100, 50);
+
+    expect(fluidDynamics.getResolution()).toEqual({ width: 100, height: 50 });
+    const pm25 = fluidDynamics.getDensity('PM25');
+    expect(pm25.length).toBe(50);
+    expect(pm25[0].length).toBe(100);
+    // The puff stays at the same point of the domain
+    expect(pm25[10][20] + pm25[10][21]).toBeGreaterThan(0);
+    expect(pm25[40][80]).toBe(0);
+
+    // The wall keeps blocking flow at its new location
+    const params = {
+      windDirection: 0,
+      windSpeed: 1.0,
+      diffusionRate: 0,
+      releaseRate: 0,
+      viscosity: 0,
+      decayFactor: 1.0,
+      simulationSpeed: 1.0
+    };
+    fluidDynamics.step(params, []);
+    expect(fluidDynamics.getVelocityX()[25][50]).toBe(0);
   });
 
   test('should initialize fields with zeros', () => {
@@ -84,6 +143,733 @@ describe('FluidDynamics', () => {
     expect(Math.abs(v0[center][center])).toBeLessThan(0.1);
   });
 
+  test('should keep a separate concentration field per species', () => {
+    fluidDynamics.addDensitySource(20, 20, 50, 'NO2');
+    fluidDynamics.addDensitySource(20, 20, 30, 'PM25');
+
+    expect(fluidDynamics.getDensity('NO2')[20][20]).toBe(50);
+    expect(fluidDynamics.getDensity('PM25')[20][20]).toBe(30);
+    expect(fluidDynamics.getDensity('CO2')[20][20]).toBe(0);
+
+    // Omitting the species returns the total
+    expect(fluidDynamics.getDensity()[20][20]).toBe(80);
+  });
+
+  test('should expose live field views that match the snapshots', () => {
+    fluidDynamics.addDensitySource(12, 30, 40, 'SO2');
+    fluidDynamics.addDensitySource(12, 30, 25, 'NO2');
+
+    const total = fluidDynamics.getDensityView();
+    expect(total.width).toBe(TEST_GRID_SIZE);
+    expect(total.height).toBe(TEST_GRID_SIZE);
+    // Row-major: cell (x, y) is at y * width + x
+    expect(total.data[30 * TEST_GRID_SIZE + 12]).toBe(65);
+    expect(fluidDynamics.getDensityView('SO2').data[30 * TEST_GRID_SIZE + 12]).toBe(40);
+
+    // Snapshots are detached copies
+    const snapshot = fluidDynamics.getDensity('SO2');
+    snapshot[30][12] = 0;
+    expect(fluidDynamics.getDensity('SO2')[30][12]).toBe(40);
+
+    // The total view is refreshed after further emissions
+    fluidDynamics.addDensitySource(12, 30, 5, 'CO2');
+    expect(fluidDynamics.getDensityView().data[30 * TEST_GRID_SIZE + 12]).toBe(70);
+  });
+
+  test('should advect every species with the shared velocity', () => {
+    const params = {
+      windDirection: 0,
+      windSpeed: 1.0,
+      diffusionRate: 0,
+      releaseRate: 0,
+      viscosity: 0,
+      decayFactor: 1.0,
+      simulationSpeed: 1.0
+    };
+
+    fluidDynamics.step(params, [
+      { x: 25, y: 15, type: 'NO2', active: true, releaseRate: 100 },
+      { x: 25, y: 35, type: 'PM25', active: true, releaseRate: 100 }
+    ]);
+
+    const rowMass = (field: number[][], from: number, to: number) =>
+      field.slice(from, to).reduce((sum, row) => sum + row.reduce((a, b) => a + b, 0), 0);
+
+    const no2 = fluidDynamics.getDensity('NO2');
+    const pm25 = fluidDynamics.getDensity('PM25');
+
+    // Wind blows along x, so each species stays in its own half of the grid
+    expect(rowMass(no2, 0, 25)).toBeGreaterThan(0);
+    expect(rowMass(no2, 25, TEST_GRID_SIZE)).toBe(0);
+    expect(rowMass(pm25, 25, TEST_GRID_SIZE)).toBeGreaterThan(0);
+    expect(rowMass(pm25, 0, 25)).toBe(0);
+  });
+
+  test('should deplete reactive species faster than inert ones', () => {
+    const params = {
+      windDirection: 0,
+      windSpeed: 0,
+      diffusionRate: 0,
+      releaseRate: 0,
+      viscosity: 0,
+      decayFactor: 1.0,
+      simulationSpeed: 1.0
+    };
+    const totalMass = (field: number[][]) => field.reduce((sum, row) => sum + row.reduce((a, b) => a + b, 0), 0);
+
+    fluidDynamics.addDensitySource(15, 25, 100, 'NO2');
+    fluidDynamics.addDensitySource(35, 25, 100, 'CO2');
+    for (let i = 0; i < 20; i++) {
+      fluidDynamics.step(params, []);
+    }
+
+    expect(totalMass(fluidDynamics.getDensity('NO2'))).toBeLessThan(totalMass(fluidDynamics.getDensity('CO2')));
+  });
+
+  test('should let heavy species lag behind the wind', () => {
+    const params = {
+      windDirection: 0,
+      windSpeed: 1.0,
+      diffusionRate: 0,
+      releaseRate: 0,
+      viscosity: 0,
+      decayFactor: 1.0,
+      simulationSpeed: 1.0
+    };
+    // Mass-weighted mean x position of a field
+    const centroidX = (field: number[][]) => {
+      let mass = 0;
+      let moment = 0;
+      field.forEach(row => row.forEach((val, x) => {
+        mass += val;
+        moment += val * x;
+      }));
+      return moment / mass;
+    };
+
+    fluidDynamics.addDensitySource(10, 15, 100, 'PM25');
+    fluidDynamics.addDensitySource(10, 35, 100, 'RADON');
+    for (let i = 0; i < 3; i++) {
+      fluidDynamics.step(params, []);
+    }
+
+    expect(centroidX(fluidDynamics.getDensity('RADON'))).toBeLessThan(centroidX(fluidDynamics.getDensity('PM25')));
+  });
+
+  test('should form ozone from NO2 emissions in sunlight', () => {
+    const params = {
+      windDirection: 0,
+      windSpeed: 0.5,
+      diffusionRate: 0.1,
+      releaseRate: 0,
+      viscosity: 0,
+      decayFactor: 1.0,
+      simulationSpeed: 1.0,
+      sunIntensity: 1.0
+    };
+
+    for (let i = 0; i < 5; i++) {
+      fluidDynamics.step(params, [{ x: 20, y: 25, type: 'NO2', active: true, releaseRate: 50 }]);
+    }
+
+    const ozone = fluidDynamics.getDensity('O3');
+    expect(ozone.some(row => row.some(val => val > 0))).toBe(true);
+  });
+
+  test('should draw surface air into a hot plume', () => {
+    const params = {
+      windDirection: 0,
+      windSpeed: 0,
+      diffusionRate: 0.1,
+      releaseRate: 0,
+      viscosity: 0,
+      decayFactor: 1.0,
+      simulationSpeed: 1.0
+    };
+    const stack = { x: 25, y: 25, type: 'CO2' as const, active: true, releaseRate: 0, releaseTemperature: 150 };
+
+    for (let i = 0; i < 10; i++) {
+      fluidDynamics.step(params, [stack]);
+    }
+
+    const w = fluidDynamics.getVerticalVelocity();
+    const u = fluidDynamics.getVelocityX();
+
+    expect(fluidDynamics.getTemperature()[25][25]).toBeGreaterThan(0);
+    expect(w[25][25]).toBeGreaterThan(0);
+    // Converging inflow from both sides
+    expect(u[25][21]).toBeGreaterThan(0);
+    expect(u[25][29]).toBeLessThan(0);
+  });
+
+  test('should converge the pressure solve to the requested tolerance', () => {
+    const obstacles = Array(TEST_GRID_SIZE).fill(0).map(() => Array(TEST_GRID_SIZE).fill(false));
+    for (let y = 20; y < 30; y++) obstacles[y][15] = true;
+    fluidDynamics.setObstacles(obstacles);
+
+    const params = {
+      windDirection: 30,
+      windSpeed: 1.0,
+      diffusionRate: 0.1,
+      releaseRate: 0,
+      viscosity: 1.0,
+      decayFactor: 1.0,
+      simulationSpeed: 1.0,
+      solverTolerance: 1e-6,
+      solverMaxIterations: 500
+    };
+    const stack = { x: 25, y: 25, type: 'CO2' as const, active: true, releaseTemperature: 100 };
+
+    for (let i = 0; i < 5; i++) {
+      fluidDynamics.step(params, [stack]);
+    }
+
+    const { pressure, diffusion } = fluidDynamics.getSolverDiagnostics();
+    expect(pressure.converged).toBe(true);
+    expect(pressure.iterations).toBeGreaterThan(0);
+    expect(pressure.residual).toBeLessThanOrEqual(1e-6);
+    expect(diffusion.converged).toBe(true);
+  });
+
+  test('should report non-convergence when the iteration cap is hit', () => {
+    const params = {
+      windDirection: 0,
+      windSpeed: 0,
+      diffusionRate: 0.1,
+      releaseRate: 0,
+      viscosity: 0,
+      decayFactor: 1.0,
+      simulationSpeed: 1.0,
+      solverTolerance: 1e-12,
+      solverMaxIterations: 2
+    };
+    const stack = { x: 25, y: 25, type: 'CO2' as const, active: true, releaseTemperature: 150 };
+
+    fluidDynamics.step(params, [stack]);
+
+    const { pressure } = fluidDynamics.getSolverDiagnostics();
+    expect(pressure.iterations).toBe(2);
+    expect(pressure.converged).toBe(false);
+  });
+
+  describe('boundary conditions', () => {
+    const windRight = {
+      windDirection: 0,
+      windSpeed: 1.0,
+      diffusionRate: 0,
+      releaseRate: 0,
+      viscosity: 0,
+      decayFactor: 1.0,
+      simulationSpeed: 1.0
+    };
+    // Interior cells only: ghost cells mirror their neighbours
+    const totalMass = (fd: FluidDynamics) => {
+      const density = fd.getDensity();
+      let sum = 0;
+      for (let y = 1; y < TEST_GRID_SIZE - 1; y++) {
+        for (let x = 1; x < TEST_GRID_SIZE - 1; x++) sum += density[y][x];
+      }
+      return sum;
+    };
+    const seedBlob = (fd: FluidDynamics, x: number, y: number) => {
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) fd.addDensitySource(x + dx, y + dy, 100, 'SULFATE');
+      }
+    };
+
+    test('should carry mass out through outflow edges and report it', () => {
+      seedBlob(fluidDynamics, 40, 25);
+      const initial = totalMass(fluidDynamics);
+
+      for (let i = 0; i < 40; i++) {
+        fluidDynamics.step({ ...windRight, boundaries: { left: 'outflow', right: 'outflow', top: 'outflow', bottom: 'outflow' } });
+      }
+
+      const remaining = totalMass(fluidDynamics);
+      const { cumulative, lastStep } = fluidDynamics.getBoundaryOutflow();
+      expect(remaining).toBeLessThan(initial * 0.1);
+      expect(lastStep.SULFATE).toBeGreaterThanOrEqual(0);
+      // The reported outflow accounts for the mass that left (sulfate does not react here)
+      expect(cumulative.SULFATE + remaining).toBeGreaterThan(initial * 0.95);
+      expect(cumulative.SULFATE + remaining).toBeLessThan(initial * 1.05);
+      expect(cumulative.CO2).toBe(0);
+    });
+
+    test('should keep mass inside walls', () => {
+      seedBlob(fluidDynamics, 40, 25);
+      const initial = totalMass(fluidDynamics);
+
+      for (let i = 0; i < 20; i++) {
+        fluidDynamics.step({ ...windRight, boundaries: { left: 'wall', right: 'wall', top: 'wall', bottom: 'wall' } });
+      }
+
+      expect(fluidDynamics.getBoundaryOutflow().cumulative.SULFATE).toBe(0);
+      expect(totalMass(fluidDynamics)).toBeGreaterThan(initial * 0.95);
+    });
+
+    test('should wrap mass around periodic edges', () => {
+      seedBlob(fluidDynamics, 44, 25);
+
+      for (let i = 0; i < 12; i++) {
+        fluidDynamics.step({ ...windRight, boundaries: { left: 'periodic', right: 'periodic', top: 'wall', bottom: 'wall' } });
+      }
+
+      // Pollution leaving on the right re-enters on the left
+      const density = fluidDynamics.getDensity();
+      const leftHalf = density.reduce((sum, row) => sum + row.slice(1, 25).reduce((a, b) => a + b, 0), 0);
+      expect(leftHalf).toBeGreaterThan(totalMass(fluidDynamics) * 0.5);
+      expect(fluidDynamics.getBoundaryOutflow().cumulative.SULFATE).toBe(0);
+    });
+
+    test('should hold the ambient wind at inflow edges and bring in clean air', () => {
+      seedBlob(fluidDynamics, 4, 25);
+
+      for (let i = 0; i < 30; i++) {
+        fluidDynamics.step({ ...windRight, boundaries: { left: 'inflow', right: 'outflow', top: 'wall', bottom: 'wall' } });
+      }
+
+      const u = fluidDynamics.getVelocityX();
+      expect(u[25][0]).toBeCloseTo(0.6);
+      expect(u[25][25]).toBeGreaterThan(0.5);
+      // The blob has been flushed downstream by clean inflow air
+      expect(fluidDynamics.getDensity()[25][2]).toBeLessThan(1);
+    });
+  });
+
+  describe('water domain', () => {
+    const flowRiver = (changes: Partial<SimulationParameters>, steps: number) => {
+      const fd = new FluidDynamics(TEST_GRID_SIZE);
+      const preset = WATER_PRESETS.river;
+      fd.setObstacles(preset.banks({ width: TEST_GRID_SIZE, height: TEST_GRID_SIZE }));
+      const parameters = { ...preset.parameters, releaseRate: 0, simulationSpeed: 1, ...changes } as SimulationParameters;
+      for (let i = 0; i < steps; i++) fd.step(parameters, []);
+      return fd.getVelocityX();
+    };
+
+    test('should run a river fastest mid-stream and feed it from the inflow edge', () => {
+      const u = flowRiver({}, 60);
+      // The channel spans rows 15-34
+      expect(u[25][25]).toBeGreaterThan(0.5);
+      expect(u[25][25]).toBeGreaterThan(2 * u[16][25]);
+      expect(u[25][0]).toBeGreaterThan(u[16][0]);
+      expect(u[5][25]).toBe(0);
+    });
+
+    test('should spread, weather and strand an oil slick against the shore', () => {
+      const fd = new FluidDynamics(TEST_GRID_SIZE);
+      const shore = Array.from({ length: TEST_GRID_SIZE }, () => Array.from({ length: TEST_GRID_SIZE }, (_, x) => x >= 30));
+      fd.setObstacles(shore);
+      const calm = {
+        ...WATER_PRESETS.lake.parameters, windSpeed: 0, decayFactor: 1, releaseRate: 0, simulationSpeed: 1
+      } as SimulationParameters;
+      const spill = { ...createPuffSource(25, 25, 'OIL', 0), puffMass: 3000, active: true };
+      expect(fd.getSlickWeathering()).toBeNull();
+      for (let i = 0; i < 150; i++) fd.step(calm, [spill]);
+
+      const weathering = fd.getSlickWeathering()!;
+      expect(weathering.evaporated).toBeGreaterThan(0);
+      expect(weathering.stranded).toBeGreaterThan(0);
+      expect(weathering.waterContent).toBeGreaterThan(0);
+      expect(weathering.afloat + weathering.evaporated + weathering.stranded).toBeCloseTo(3000, 0);
+      // No more than the volatile share evaporates
+      expect(weathering.evaporated).toBeLessThan(0.35 * 3000);
+      // Oil strands along the shore it reached, none of it beyond
+      expect(fd.getDeposition('OIL')[25][29]).toBeGreaterThan(0);
+      expect(fd.getDeposition('OIL')[25][20]).toBe(0);
+      expect(fd.getDensity('OIL')[25][31]).toBe(0);
+      expect(Math.abs(fd.getMassBudget().cumulative.imbalance)).toBeLessThan(0.01 * 3000);
+    });
+
+    test('should turn the current upstream on the ebb tide', () => {
+      // A fast tide: flood peaks 0.05 h (30 steps) in and ebb 0.15 h (90 steps) in
+      const tide = { windSpeed: 0.4, tidalAmplitude: 1.5, tidalPeriod: 0.2 };
+      expect(flowRiver(tide, 30)[25][25]).toBeGreaterThan(0.5);
+      expect(flowRiver(tide, 90)[25][25]).toBeLessThan(0);
+    });
+  });
+
+  describe('advection schemes', () => {
+    // A small blob carried diagonally around a periodic domain, where first-order advection smears it most
+    const carryBlob = (advectionScheme: AdvectionScheme) => {
+      const fd = new FluidDynamics(TEST_GRID_SIZE);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) fd.addDensitySource(12 + dx, 12 + dy, 100, 'SULFATE');
+      }
+      for (let i = 0; i < 40; i++) {
+        fd.step({
+          windDirection: 45,
+          windSpeed: 0.5,
+          diffusionRate: 0,
+          releaseRate: 0,
+          viscosity: 0,
+          decayFactor: 1.0,
+          simulationSpeed: 1.0,
+          boundaries: { left: 'periodic', right: 'periodic', top: 'periodic', bottom: 'periodic' },
+          advectionScheme
+        });
+      }
+      const interior = fd.getDensity().slice(1, -1).flatMap(row => row.slice(1, -1));
+      return {
+        peak: Math.max(...interior),
+        min: Math.min(...interior),
+        mass: interior.reduce((a, b) => a + b, 0)
+      };
+    };
+
+    test('should keep a blob sharper with the error-correcting schemes', () => {
+      const semiLagrangian = carryBlob('semiLagrangian');
+      const maccormack = carryBlob('maccormack');
+      const bfecc = carryBlob('bfecc');
+
+      expect(maccormack.peak).toBeGreaterThan(semiLagrangian.peak * 1.5);
+      expect(bfecc.peak).toBeGreaterThan(semiLagrangian.peak * 1.5);
+    });
+
+    test('should limit overshoot and carry the same mass as semi-Lagrangian advection', () => {
+      const semiLagrangian = carryBlob('semiLagrangian');
+
+      (['maccormack', 'bfecc'] as const).forEach(scheme => {
+        const result = carryBlob(scheme);
+        expect(result.peak).toBeLessThanOrEqual(100);
+        expect(result.min).toBeGreaterThanOrEqual(0);
+        expect(result.mass).toBeCloseTo(semiLagrangian.mass, 0);
+      });
+    });
+
+    test('should apply the selected scheme to the velocity field', () => {
+      // A jet crossing a uniform wind: first-order advection smears its core away faster
+      const carryJet = (advectionScheme: AdvectionScheme) => {
+        const fd = new FluidDynamics(TEST_GRID_SIZE);
+        for (let i = 0; i < 10; i++) {
+          for (let y = 20; y <= 30; y++) fd.addVelocityForce(15, y, 0, 0.5);
+          fd.step({
+            windDirection: 0,
+            windSpeed: 0.5,
+            diffusionRate: 0,
+            releaseRate: 0,
+            viscosity: 0,
+            decayFactor: 1.0,
+            simulationSpeed: 1.0,
+            advectionScheme
+          });
+        }
+        return Math.max(...fd.getVelocityY().flat().map(Math.abs));
+      };
+
+      expect(carryJet('bfecc')).toBeGreaterThan(carryJet('semiLagrangian'));
+    });
+  });
+
+  describe('mass budget', () => {
+    const params = {
+      windDirection: 20,
+      windSpeed: 0.8,
+      diffusionRate: 0.15,
+      releaseRate: 20,
+      viscosity: 1.0,
+      decayFactor: 0.992,
+      simulationSpeed: 1.0
+    };
+    const sources = [
+      { x: 10, y: 25, type: 'SO2' as const, active: true },
+      { x: 20, y: 20, type: 'CO2' as const, active: true, releaseRate: 300 },
+      { x: 30, y: 30, type: 'NO2' as const, active: false }
+    ];
+
+    test('should account for every change in the domain total', () => {
+      // A hot stack among the cold sources, so the updraft's pull and plume rise are booked too
+      const stack = { x: 35, y: 15, type: 'NO2' as const, active: true, releaseTemperature: 100, stackHeight: 120 };
+      let previous = 0;
+      for (let i = 0; i < 60; i++) {
+        fluidDynamics.step({ ...params, verticalLayers: 3, mixingHeight: 1000 }, [...sources, stack]);
+        const { lastStep } = fluidDynamics.getMassBudget();
+        const emitted = lastStep.emitted.reduce((a, b) => a + b, 0);
+        const explained = previous + emitted + lastStep.chemistry -
+          lastStep.decay - lastStep.deposition - lastStep.washout - lastStep.outflow - lastStep.clampLoss;
+        expect(explained - lastStep.imbalance).toBeCloseTo(lastStep.total, 3);
+        // Transport error stays a small fraction of the mass in play
+        expect(Math.abs(lastStep.imbalance)).toBeLessThan(0.01 * (previous + emitted) + 1);
+        previous = lastStep.total;
+      }
+    });
+
+    test('should keep the mass a hot source\'s updraft draws in', () => {
+      // The updraft pulls the surface flow together under the source; what converges there stays on the books
+      const hot = { x: 20, y: 25, type: 'CO2' as const, active: true, releaseTemperature: 100 };
+      const calm = { ...params, windDirection: 0, windSpeed: 0.5, decayFactor: 1.0 };
+      const runs = [
+        calm,
+        { ...calm, verticalLayers: 4, mixingHeight: 1000 },
+        { ...calm, advectionScheme: 'maccormack' as const }
+      ];
+      runs.forEach(run => {
+        const fd = new FluidDynamics(TEST_GRID_SIZE);
+        for (let i = 0; i < 10; i++) fd.step(run, [hot]);
+        const { cumulative } = fd.getMassBudget();
+        expect(Math.abs(cumulative.imbalance)).toBeLessThan(0.01 * 10 * calm.releaseRate);
+      });
+    });
+
+    test('should report emissions per source and each loss term', () => {
+      for (let i = 0; i < 60; i++) fluidDynamics.step(params, sources);
+      const { lastStep, cumulative } = fluidDynamics.getMassBudget();
+
+      expect(lastStep.emitted).toEqual([20, 300, 0]);
+      expect(cumulative.emitted).toEqual([1200, 18000, 0]);
+      expect(lastStep.decay).toBeGreaterThan(0);
+      expect(lastStep.deposition).toBeGreaterThan(0);
+      // The 300/step source overfills its cell past the 255 cap
+      expect(cumulative.clampLoss).toBeGreaterThan(0);
+      // Outflow covers every species, including sulfate formed from the SO2
+      const outflow = Object.values(fluidDynamics.getBoundaryOutflow().cumulative).reduce((a, b) => a + b, 0);
+      expect(cumulative.outflow).toBeCloseTo(outflow, 3);
+      expect(cumulative.total).toBe(lastStep.total);
+    });
+
+    test('should follow each source\'s emission schedule on the simulation clock', () => {
+      // Six steps of 0.1 time units are 0.01 h; the first source is on for just over that, then off
+      const scheduled = [
+        { ...sources[0], schedule: { kind: 'onOff' as const, onHours: 0.0105, offHours: 10 } },
+        { ...sources[1], schedule: { kind: 'ramp' as const, startHour: 0, endHour: 0.02, from: 0, to: 1 } }
+      ];
+      for (let i = 0; i < 12; i++) fluidDynamics.step(params, scheduled);
+      const { lastStep, cumulative } = fluidDynamics.getMassBudget();
+
+      expect(fluidDynamics.getSimulationTime()).toBeCloseTo(0.02, 10);
+      expect(cumulative.emitted[0]).toBeCloseTo(6 * 20, 6);
+      expect(lastStep.emitted[0]).toBe(0);
+      // The ramp reaches the full rate at the end of the twelfth step
+      expect(lastStep.emitted[1]).toBeCloseTo(300, 3);
+      expect(cumulative.emitted[1]).toBeCloseTo(300 * (1 + 12) / 2, 2);
+
+      fluidDynamics.reset();
+      expect(fluidDynamics.getSimulationTime()).toBe(0);
+    });
+
+    test('should release a puff\'s mass once, when the clock reaches it, and time its arrival downwind', () => {
+      const calm = { ...params, windDirection: 0, decayFactor: 1.0 };
+      const puff = { x: 10, y: 25, type: 'CO2' as const, active: true, kind: 'puff' as const, puffMass: 2000, puffTime: 0.006, puffRadius: 3 };
+      // Three steps of 0.1 time units bring the clock to 0.005 h, still short of the puff
+      for (let i = 0; i < 3; i++) fluidDynamics.step(calm, [puff]);
+      expect(fluidDynamics.getMassBudget().cumulative.emitted[0] ?? 0).toBe(0);
+      expect(fluidDynamics.getPuffReport()).toBeNull();
+
+      for (let i = 0; i < 150; i++) fluidDynamics.step(calm, [puff]);
+      const { cumulative } = fluidDynamics.getMassBudget();
+      expect(cumulative.emitted[0]).toBeCloseTo(2000, 2);
+
+      const report = fluidDynamics.getPuffReport()!;
+      expect(report.source).toBe(0);
+      expect(report.releaseTime).toBeCloseTo(4 * 0.1 / 60, 10);
+      expect(report.receptors.map(({ x, y }) => [x, y])).toEqual([[15, 25], [20, 25], [30, 25]]);
+      const [near, far] = report.receptors;
+      expect(near.arrivalTime).not.toBeNull();
+      expect(far.arrivalTime).not.toBeNull();
+      // Further down the wind the puff turns up later and more dilute
+      expect(far.arrivalTime!).toBeGreaterThan(near.arrivalTime!);
+      expect(far.peak).toBeLessThan(near.peak);
+      expect(near.peakTime!).toBeGreaterThanOrEqual(near.arrivalTime!);
+    });
+
+    test('should emit line and area sources per cell of length and area', () => {
+      const road = { x: 20, y: 15, type: 'NO2' as const, active: true, releaseRate: 2, kind: 'line' as const,
+        path: [{ x: 10, y: 15 }, { x: 30, y: 15 }] };
+      const field = { x: 20, y: 30, type: 'PM25' as const, active: true, releaseRate: 1, kind: 'area' as const,
+        path: [{ x: 15, y: 25 }, { x: 25, y: 25 }, { x: 25, y: 35 }, { x: 15, y: 35 }] };
+      fluidDynamics.setObstacles(Array.from({ length: TEST_GRID_SIZE }, (_, y) =>
+        Array.from({ length: TEST_GRID_SIZE }, (_, x) => x === 20 && y === 15)));
+      for (let i = 0; i < 5; i++) fluidDynamics.step(params, [road, field]);
+      const { lastStep } = fluidDynamics.getMassBudget();
+
+      // 20 cells of road less the one under the wall, and the 100 cells of the field
+      expect(lastStep.emitted[0]).toBeCloseTo(2 * 19, 4);
+      expect(lastStep.emitted[1]).toBeCloseTo(100, 4);
+      const ground = fluidDynamics.getDensity('PM25');
+      expect(ground[30][20]).toBeGreaterThan(0);
+      expect(ground[30][12]).toBeLessThan(ground[30][20]);
+    });
+
+    test('should emit from where a moving source is on its route and record its trail', () => {
+      // One cell per step (0.1 time units of a minute each) from x = 10 towards x = 30
+      const truck = { x: 10, y: 25, type: 'NO2' as const, active: true, releaseRate: 3, kind: 'moving' as const,
+        waypoints: [{ x: 10, y: 25 }, { x: 30, y: 25 }], speed: 600, routeMode: 'oneWay' as const, departureTime: 0 };
+      for (let i = 0; i < 10; i++) fluidDynamics.step(params, [truck]);
+      expect(fluidDynamics.getMassBudget().lastStep.emitted[0]).toBeCloseTo(3, 4);
+
+      const [trail] = fluidDynamics.getSourceTrails();
+      expect(trail.species).toBe('NO2');
+      expect(trail.points).toHaveLength(10);
+      expect(trail.points[9].x).toBeCloseTo(20, 4);
+      const ground = fluidDynamics.getDensity('NO2');
+      expect(ground[25][15]).toBeGreaterThan(0);
+      expect(ground[25][28]).toBeLessThan(1e-6 * ground[25][15]);
+
+      fluidDynamics.reset();
+      expect(fluidDynamics.getSourceTrails()).toEqual([]);
+    });
+
+    test('should clear the running budget on reset', () => {
+      fluidDynamics.step(params, sources);
+      fluidDynamics.reset();
+      const { cumulative } = fluidDynamics.getMassBudget();
+      expect(cumulative.emitted).toEqual([]);
+      expect(cumulative.decay).toBe(0);
+      expect(cumulative.total).toBe(0);
+    });
+  });
+
+  describe('terrain', () => {
+    const calm = {
+      windDirection: 0,
+      windSpeed: 0,
+      diffusionRate: 0.05,
+      releaseRate: 0,
+      viscosity: 1.0,
+      decayFactor: 1.0,
+      simulationSpeed: 1.0,
+      boundaries: { left: 'wall', right: 'wall', top: 'wall', bottom: 'wall' } as const
+    };
+    // Bowl with its lowest point at (35, 25)
+    const bowl = Array.from({ length: TEST_GRID_SIZE }, (_, y) =>
+      Array.from({ length: TEST_GRID_SIZE }, (_, x) => Math.min(1, Math.hypot(x - 35, y - 25) / 20))
+    );
+    const basinShare = (density: number[][]) => {
+      let total = 0;
+      let basin = 0;
+      density.forEach((row, y) => row.forEach((val, x) => {
+        total += val;
+        if (Math.hypot(x - 35, y - 25) < 6) basin += val;
+      }));
+      return basin / total;
+    };
+    const releaseOnSlope = (species: 'RADON' | 'PM25') => {
+      const fd = new FluidDynamics(TEST_GRID_SIZE);
+      fd.setTerrain(bowl);
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) fd.addDensitySource(20 + dx, 25 + dy, 10, species);
+      }
+      for (let i = 0; i < 100; i++) fd.step(calm);
+      return fd;
+    };
+
+    test('should drain dense species downhill into hollows', () => {
+      const radon = releaseOnSlope('RADON').getDensity('RADON');
+      const pm25 = releaseOnSlope('PM25').getDensity('PM25');
+
+      expect(basinShare(radon)).toBeGreaterThan(0.5);
+      // Light particles barely feel the slope
+      expect(basinShare(pm25)).toBeLessThan(basinShare(radon) / 2);
+    });
+
+    test('should conserve mass while draining', () => {
+      const fd = releaseOnSlope('RADON');
+      const { cumulative } = fd.getMassBudget();
+      expect(Math.abs(cumulative.imbalance)).toBeLessThan(0.01 * 250);
+    });
+
+    test('should turn the wind around a hill', () => {
+      const hill = Array.from({ length: TEST_GRID_SIZE }, (_, y) =>
+        Array.from({ length: TEST_GRID_SIZE }, (_, x) => Math.exp(-((x - 25) ** 2 + (y - 25) ** 2) / 40))
+      );
+      fluidDynamics.setTerrain(hill);
+      for (let i = 0; i < 40; i++) {
+        fluidDynamics.step({ ...calm, windSpeed: 1.0, viscosity: 0, boundaries: undefined });
+      }
+
+      const u = fluidDynamics.getVelocityX();
+      const v = fluidDynamics.getVelocityY();
+      // Slower over the summit than beside it, and split to either side on the windward flank
+      expect(u[25][25]).toBeLessThan(u[10][25] * 0.9);
+      expect(v[20][19]).toBeLessThan(0);
+      expect(v[30][19]).toBeGreaterThan(0);
+    });
+  });
+
+  describe('vertical layers', () => {
+    const stagnant = {
+      windDirection: 0,
+      windSpeed: 0.2,
+      diffusionRate: 0.05,
+      releaseRate: 20,
+      viscosity: 1.0,
+      decayFactor: 1.0,
+      simulationSpeed: 1.0,
+      verticalLayers: 5
+    };
+    const source = { x: 15, y: 25, type: 'SO2' as const, active: true };
+    const run = (mixingHeight: number) => {
+      const fd = new FluidDynamics(TEST_GRID_SIZE);
+      for (let i = 0; i < 100; i++) fd.step({ ...stagnant, mixingHeight }, [source]);
+      return fd;
+    };
+    let open: FluidDynamics;
+    let capped: FluidDynamics;
+
+    beforeAll(() => {
+      open = run(1000);
+      capped = run(150);
+    });
+
+    test('should trap pollution in the ground layer under an inversion lid', () => {
+      const openProfile = open.getVerticalProfile();
+      const cappedProfile = capped.getVerticalProfile();
+
+      expect(openProfile).toHaveLength(5);
+      expect(openProfile[1].mean).toBeGreaterThan(0.2 * openProfile[0].mean);
+      expect(cappedProfile[0].mean).toBeGreaterThan(1.3 * openProfile[0].mean);
+      expect(cappedProfile[1].capped).toBe(true);
+      expect(cappedProfile[1].mean).toBeLessThan(0.05 * cappedProfile[0].mean);
+    });
+
+    test('should conserve mass across the layers', () => {
+      const hot = new FluidDynamics(TEST_GRID_SIZE);
+      const stack = { ...source, stackHeight: 120, releaseTemperature: 100 };
+      for (let i = 0; i < 100; i++) hot.step({ ...stagnant, mixingHeight: 1000 }, [stack]);
+
+      // The updraft bends the wind the upper layers ride, where the faster flow makes the advection less exact
+      const runs: [FluidDynamics, number][] = [[open, 0.01], [capped, 0.01], [hot, 0.02]];
+      runs.forEach(([fd, tolerance]) => {
+        const { cumulative } = fd.getMassBudget();
+        const emitted = cumulative.emitted.reduce((sum, amount) => sum + amount, 0);
+        expect(Math.abs(cumulative.imbalance)).toBeLessThan(tolerance * emitted);
+      });
+    });
+
+    test('should report ground level and each layer separately', () => {
+      expect(open.getLayerCount()).toBe(5);
+      expect(open.getLayerDensity(0)).toEqual(open.getDensity());
+      expect(open.getLayerDensity(2, 'SO2')[25][20]).toBeGreaterThan(0);
+      expect(() => open.getLayerDensity(5)).toThrow(RangeError);
+      // One well-mixed layer unless more are asked for
+      expect(fluidDynamics.getVerticalProfile()).toHaveLength(1);
+    });
+
+    test('should release a tall stack into the layer its plume rises to', () => {
+      const stack = { ...source, stackHeight: 250, releaseTemperature: 100 };
+      const fd = new FluidDynamics(TEST_GRID_SIZE);
+      for (let i = 0; i < 10; i++) fd.step({ ...stagnant, mixingHeight: 1000 }, [stack]);
+      const profile = fd.getVerticalProfile();
+
+      // Only what mixes down from aloft reaches the ground, so the ground next to the stack stays cleaner
+      expect(profile[0].mean).toBeLessThan(0.1 * run(1000).getVerticalProfile()[0].mean);
+      expect(Math.max(profile[2].mean, profile[3].mean)).toBeGreaterThan(profile[0].mean);
+      const { cumulative } = fd.getMassBudget();
+      expect(cumulative.emitted[0]).toBeCloseTo(10 * stagnant.releaseRate, 4);
+      expect(Math.abs(cumulative.imbalance)).toBeLessThan(0.01 * 10 * stagnant.releaseRate);
+    });
+
+    test('should mix upwards faster in unstable air', () => {
+      const upperShare = (stabilityClass: 'A' | 'F') => {
+        const fd = new FluidDynamics(TEST_GRID_SIZE);
+        for (let i = 0; i < 40; i++) fd.step({ ...stagnant, mixingHeight: 1000, stabilityClass }, [source]);
+        const profile = fd.getVerticalProfile();
+        return profile[1].mean / profile[0].mean;
+      };
+
+      expect(upperShare('A')).toBeGreaterThan(2 * upperShare('F'));
+    });
+  });
+
   test('should reset simulation', () => {
     fluidDynamics.addDensitySource(10, 10, 100);
     fluidDynamics.reset();
@@ -161,4 +947,80 @@ describe('FluidDynamics', () => {
     }
     expect(totalMass).toBeGreaterThan(0);
   });
+
+  describe('deposition', () => {
+    const params = {
+      windDirection: 0,
+      windSpeed: 0.5,
+      diffusionRate: 0.15,
+      releaseRate: 20,
+      viscosity: 1.0,
+      decayFactor: 1.0,
+      simulationSpeed: 1.0,
+      verticalLayers: 3
+    };
+    const sources = [
+      { x: 15, y: 15, type: 'SO2' as const, active: true },
+      { x: 15, y: 35, type: 'CO2' as const, active: true }
+    ];
+    const ground = (fd: FluidDynamics, species: 'SO2' | 'CO2') =>
+      fd.getDensity(species).flat().reduce((a, b) => a + b, 0);
+
+    test('should wash soluble species out of the air onto the ground', () => {
+      const wet = new FluidDynamics(TEST_GRID_SIZE);
+      for (let i = 0; i < 40; i++) {
+        fluidDynamics.step(params, sources);
+        wet.step({ ...params, rainIntensity: 20 }, sources);
+      }
+
+      // SO2 dissolves readily, CO2 hardly at all
+      expect(ground(wet, 'SO2')).toBeLessThan(ground(fluidDynamics, 'SO2') * 0.9);
+      expect(ground(wet, 'CO2')).toBeCloseTo(ground(fluidDynamics, 'CO2'), 3);
+
+      // Nothing lands without rain; with it, the deposit lies under the SO2 plume
+      expect(fluidDynamics.getDeposition(undefined, 'wet').flat().every(value => value === 0)).toBe(true);
+      const deposit = wet.getDeposition('SO2', 'wet');
+      expect(deposit[15][20]).toBeGreaterThan(0);
+      expect(deposit[35][20]).toBeLessThan(deposit[15][20] * 0.01);
+      expect(wet.getDeposition('CO2', 'wet').flat().every(value => value === 0)).toBe(true);
+    });
+
+    test('should put exactly the washed-out mass in the deposition map', () => {
+      let previous = 0;
+      for (let i = 0; i < 30; i++) {
+        fluidDynamics.step({ ...params, rainIntensity: 10 }, sources);
+        const { lastStep } = fluidDynamics.getMassBudget();
+        const emitted = lastStep.emitted.reduce((a, b) => a + b, 0);
+        const explained = previous + emitted + lastStep.chemistry -
+          lastStep.decay - lastStep.deposition - lastStep.washout - lastStep.outflow - lastStep.clampLoss;
+        expect(explained - lastStep.imbalance).toBeCloseTo(lastStep.total, 3);
+        previous = lastStep.total;
+      }
+
+      const { cumulative } = fluidDynamics.getMassBudget();
+      const deposited = fluidDynamics.getDeposition(undefined, 'wet').flat().reduce((a, b) => a + b, 0);
+      expect(cumulative.washout).toBeGreaterThan(0);
+      expect(deposited).toBeCloseTo(cumulative.washout, 2);
+
+      fluidDynamics.reset();
+      expect(fluidDynamics.getDeposition(undefined, 'wet').flat().every(value => value === 0)).toBe(true);
+    });
+
+    test('should keep what settles as a dry deposit, cleared apart from the air', () => {
+      for (let i = 0; i < 30; i++) fluidDynamics.step(params, sources);
+
+      // Dry deposition matches the budget's deposition term, for heavy CO2 as well as SO2
+      const { cumulative } = fluidDynamics.getMassBudget();
+      const dry = fluidDynamics.getDeposition(undefined, 'dry').flat().reduce((a, b) => a + b, 0);
+      expect(dry).toBeGreaterThan(0);
+      expect(dry).toBeCloseTo(cumulative.deposition, 1);
+      expect(fluidDynamics.getDepositionGrids().CO2[35][16]).toBeGreaterThan(0);
+      expect(fluidDynamics.getDeposition(undefined, 'wet').flat().every(value => value === 0)).toBe(true);
+
+      const air = fluidDynamics.getDensity();
+      fluidDynamics.clearDeposition();
+      expect(fluidDynamics.getDeposition().flat().every(value => value === 0)).toBe(true);
+      expect(fluidDynamics.getDensity()).toEqual(air);
+    });
+  });
 });
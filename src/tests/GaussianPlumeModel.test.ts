@@ -0,0 +1,86 @@
+import { GaussianPlumeModel, DOMAIN_EXTENT } from '../physics/GaussianPlumeModel';
+import { getDispersionCoefficients } from '../physics/stability';
+import { PollutionSource, SimulationParameters } from '../types';
+
+describe('GaussianPlumeModel', () => {
+  const GRID = 80;
+  const CELL = DOMAIN_EXTENT / GRID;
+  const parameters: SimulationParameters = {
+    windDirection: 0, // Blowing towards +x
+    windSpeed: 0.8,
+    diffusionRate: 0.1,
+    releaseRate: 0.001,
+    viscosity: 1.0,
+    decayFactor: 1.0,
+    simulationSpeed: 1.0,
+    stabilityClass: 'D'
+  };
+  const source: PollutionSource = { x: 10, y: 40, type: 'SO2', active: true, releaseTemperature: 0 };
+  let model: GaussianPlumeModel;
+
+  beforeEach(() => {
+    model = new GaussianPlumeModel(GRID);
+  });
+
+  test('should follow the Pasquill-Gifford spreads', () => {
+    const { sigmaY, sigmaZ } = getDispersionCoefficients('D', 1000);
+    expect(sigmaY).toBeCloseTo(76.3, 1);
+    expect(sigmaZ).toBeCloseTo(37.9, 1);
+
+    // Unstable air spreads the plume faster than stable air
+    expect(getDispersionCoefficients('A', 1000).sigmaZ).toBeGreaterThan(getDispersionCoefficients('F', 1000).sigmaZ * 10);
+  });
+
+  test('should shape the ground-level plume like the analytic solution', () => {
+    model.step(parameters, [source]);
+    const density = model.getDensity('SO2');
+
+    // Ratio to the centreline removes the emission scale: only the crosswind Gaussian is left
+    const { sigmaY } = getDispersionCoefficients('D', 20 * CELL);
+    expect(density[42][30] / density[40][30]).toBeCloseTo(Math.exp(-((2 * CELL) ** 2) / (2 * sigmaY ** 2)), 4);
+
+    // Along the centreline of a ground release C is proportional to 1 / (u sigmaY sigmaZ)
+    const near = getDispersionCoefficients('D', 10 * CELL);
+    const far = getDispersionCoefficients('D', 40 * CELL);
+    expect(density[40][50] / density[40][20]).toBeCloseTo((near.sigmaY * near.sigmaZ) / (far.sigmaY * far.sigmaZ), 4);
+
+    // Nothing upwind, and doubling the wind halves the concentration
+    expect(density[40][5]).toBe(0);
+    model.step({ ...parameters, windSpeed: 2 * parameters.windSpeed }, [source]);
+    expect(model.getDensity('SO2')[40][30]).toBeCloseTo(density[40][30] / 2, 6);
+  });
+
+  test('should lift the peak downwind for a tall stack', () => {
+    model.step(parameters, [source]);
+    const ground = model.getDensity('SO2')[40];
+    model.step(parameters, [{ ...source, stackHeight: 100 }]);
+    const stack = model.getDensity('SO2')[40];
+
+    const peak = (row: number[]) => row.indexOf(Math.max(...row));
+    expect(stack[12]).toBeLessThan(ground[12] * 0.01);
+    expect(peak(stack)).toBeGreaterThan(peak(ground) + 5);
+  });
+
+  test('should lower ground concentrations near a hot stack as its plume rises', () => {
+    const coldStack = { ...source, stackHeight: 30, exitVelocity: 2 };
+    model.step(parameters, [coldStack]);
+    const cold = model.getDensity('SO2')[40];
+    model.step(parameters, [{ ...coldStack, releaseTemperature: 150, exitVelocity: 15 }]);
+    const hot = model.getDensity('SO2')[40];
+
+    expect(hot[15]).toBeLessThan(cold[15] * 0.5);
+    expect(hot[15]).toBeGreaterThan(0);
+  });
+
+  test('should keep a plume released above the inversion lid off the ground', () => {
+    const capped = { ...parameters, verticalLayers: 4, mixingHeight: 80 };
+    model.step(capped, [{ ...source, stackHeight: 100 }]);
+    expect(Math.max(...Array.from(model.getDensityView().data))).toBe(0);
+
+    // Below the lid the plume is trapped, raising ground concentrations far downwind
+    model.step(parameters, [{ ...source, stackHeight: 50 }]);
+    const open = model.getDensity('SO2')[40][70];
+    model.step(capped, [{ ...source, stackHeight: 50 }]);
+    expect(model.getDensity('SO2')[40][70]).toBeGreaterThan(open * 1.3);
+  });
+});
@@ -0,0 +1,101 @@
+import { FluidDynamics } from '../physics/FluidDynamics';
+import { LagrangianParticleModel } from '../physics/LagrangianParticleModel';
+import { PollutionSource, SimulationParameters } from '../types';
+
+// Mock WebGLSimulationEngine to avoid GPU initialization in tests
+jest.mock('../physics/WebGLSimulationEngine', () => ({
+  WebGLSimulationEngine: {
+    isSupported: jest.fn().mockReturnValue(false),
+  },
+}));
+
+// Small deterministic generator so the random walks are repeatable
+const seeded = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+describe('LagrangianParticleModel', () => {
+  const GRID = 40;
+  const parameters: SimulationParameters = {
+    windDirection: 0, // Blowing towards +x
+    windSpeed: 0.8,
+    diffusionRate: 0.1,
+    releaseRate: 0.5,
+    viscosity: 1.0,
+    decayFactor: 1.0,
+    simulationSpeed: 1.0
+  };
+  const source: PollutionSource = { x: 8, y: 20, type: 'CO2', active: true, releaseTemperature: 0 };
+
+  const run = (model: LagrangianParticleModel, steps: number, params = parameters, sources = [source]) => {
+    for (let n = 0; n < steps; n++) model.step(params, sources);
+  };
+
+  test('should carry the released mass downwind and bin it onto the grid', () => {
+    const model = new LagrangianParticleModel(new FluidDynamics(GRID), seeded(1));
+    run(model, 20);
+
+    // Nothing has left yet, so every release is still carried by a particle, less a little deposition
+    expect(model.getParticles().count).toBe(80);
+    expect(model.getTotalMass()).toBeLessThan(20 * parameters.releaseRate);
+    expect(model.getTotalMass()).toBeGreaterThan(20 * parameters.releaseRate * 0.9);
+
+    // Cloud-in-cell binning keeps the mass of ground-level particles
+    const density = model.getDensity('CO2');
+    const binned = density.reduce((sum, row) => sum + row.reduce((a, b) => a + b, 0), 0);
+    expect(binned).toBeCloseTo(model.getTotalMass(), 3);
+
+    // The cloud's centre of mass has moved downwind of the source, not upwind
+    let moment = 0;
+    density.forEach(row => row.forEach((value, x) => { moment += value * x; }));
+    expect(moment / binned).toBeGreaterThan(source.x + 0.5);
+  });
+
+  test('should tag particles with their source', () => {
+    const model = new LagrangianParticleModel(new FluidDynamics(GRID), seeded(2));
+    const other: PollutionSource = { ...source, y: 10, type: 'SO2' };
+    run(model, 10, parameters, [source, other]);
+
+    const first = model.getSourceDensity(0);
+    const second = model.getSourceDensity(1);
+    expect(first[20].some(value => value > 0)).toBe(true);
+    expect(first[10].every(value => value === 0)).toBe(true);
+    expect(second[10].some(value => value > 0)).toBe(true);
+    expect(second[20].every(value => value === 0)).toBe(true);
+
+    // Particles of each species land in their own field
+    expect(model.getDensity('SO2')[10].some(value => value > 0)).toBe(true);
+    expect(model.getDensity('SO2')[20].every(value => value === 0)).toBe(true);
+  });
+
+  test('should keep particles below a mixing lid', () => {
+    const layered = { ...parameters, verticalLayers: 4, mixingHeight: 250 };
+    const capped = new LagrangianParticleModel(new FluidDynamics(GRID), seeded(3));
+    run(capped, 30, layered);
+    const open = new LagrangianParticleModel(new FluidDynamics(GRID), seeded(3));
+    run(open, 30, { ...layered, mixingHeight: 1000 });
+
+    const highest = (model: LagrangianParticleModel) => {
+      const { count, z } = model.getParticles();
+      return Math.max(...Array.from(z.subarray(0, count)));
+    };
+    expect(highest(capped)).toBeLessThanOrEqual(250);
+    expect(highest(open)).toBeGreaterThan(250);
+  });
+
+  test('should let particles leave through open edges and bounce off walls', () => {
+    const fast = { ...parameters, windSpeed: 3 };
+    const open = new LagrangianParticleModel(new FluidDynamics(GRID), seeded(4));
+    run(open, 60, fast);
+    const walled = new LagrangianParticleModel(new FluidDynamics(GRID), seeded(4));
+    run(walled, 60, { ...fast, boundaries: { left: 'wall', right: 'wall', top: 'wall', bottom: 'wall' } });
+
+    expect(open.getParticles().count).toBeLessThan(walled.getParticles().count);
+    expect(walled.getParticles().count).toBe(240);
+    expect(open.getTotalMass()).toBeLessThan(walled.getTotalMass() * 0.9);
+
+    walled.reset();
+    expect(walled.getParticles().count).toBe(0);
+  });
+});
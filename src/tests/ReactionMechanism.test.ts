@@ -0,0 +1,51 @@
+import { photostationaryMechanism, sulfateMechanism } from '../physics/ReactionMechanism';
+import { createSpeciesFields } from '../physics/fieldStorage';
+import { SpeciesFields } from '../types';
+
+describe('ReactionMechanism', () => {
+  const SIZE = 4;
+  let fields: SpeciesFields;
+  const cell = (x: number, y: number) => y * SIZE + x;
+
+  beforeEach(() => {
+    fields = createSpeciesFields({ width: SIZE, height: SIZE });
+  });
+
+  test('should photolyse NO2 into NO and O3 in sunlight', () => {
+    fields.NO2[cell(1, 1)] = 100;
+
+    photostationaryMechanism.react(fields, { sunIntensity: 1, dt: 0.1 });
+
+    expect(fields.NO2[cell(1, 1)]).toBeLessThan(100);
+    expect(fields.NO[cell(1, 1)]).toBeGreaterThan(0);
+    expect(fields.O3[cell(1, 1)]).toBeCloseTo(fields.NO[cell(1, 1)]);
+    // Nitrogen is conserved
+    expect(fields.NO2[cell(1, 1)] + fields.NO[cell(1, 1)]).toBeCloseTo(100);
+  });
+
+  test('should titrate ozone back to NO2 in the dark', () => {
+    fields.NO[cell(2, 2)] = 50;
+    fields.O3[cell(2, 2)] = 50;
+
+    photostationaryMechanism.react(fields, { sunIntensity: 0, dt: 0.1 });
+
+    expect(fields.O3[cell(2, 2)]).toBeLessThan(50);
+    expect(fields.NO2[cell(2, 2)]).toBeGreaterThan(0);
+    expect(fields.NO2[cell(2, 2)] + fields.NO[cell(2, 2)]).toBeCloseTo(50);
+  });
+
+  test('should oxidise SO2 into sulfate, faster in sunlight', () => {
+    fields.SO2[cell(0, 0)] = 100;
+    fields.SO2[cell(3, 3)] = 100;
+
+    sulfateMechanism.react(fields, { sunIntensity: 0, dt: 0.1 });
+    const darkSulfate = fields.SULFATE[cell(0, 0)];
+    fields.SO2[cell(0, 0)] = 100;
+    fields.SULFATE[cell(0, 0)] = 0;
+    sulfateMechanism.react(fields, { sunIntensity: 1, dt: 0.1 });
+
+    expect(darkSulfate).toBeGreaterThan(0);
+    expect(fields.SULFATE[cell(0, 0)]).toBeGreaterThan(darkSulfate);
+    expect(fields.SO2[cell(0, 0)] + fields.SULFATE[cell(0, 0)]).toBeCloseTo(100);
+  });
+});
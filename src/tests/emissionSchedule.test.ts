@@ -0,0 +1,66 @@
+import { RUSH_HOUR_PROFILE, createSchedule, formatClock, getScheduleFactor, getScheduledReleaseRate, parseScheduleCSV } from '../physics/emissionSchedule';
+import { EmissionSchedule, PollutionSource } from '../types';
+
+describe('emission schedules', () => {
+  test('should leave constant and unscheduled sources alone', () => {
+    expect(getScheduleFactor(undefined, 7)).toBe(1);
+    expect(getScheduleFactor({ kind: 'constant' }, 7)).toBe(1);
+  });
+
+  test('should repeat on/off cycles from their start', () => {
+    const shift: EmissionSchedule = { kind: 'onOff', onHours: 8, offHours: 16, startHour: 6 };
+    expect(getScheduleFactor(shift, 5.9)).toBe(0);
+    expect(getScheduleFactor(shift, 6)).toBe(1);
+    expect(getScheduleFactor(shift, 13.9)).toBe(1);
+    expect(getScheduleFactor(shift, 14)).toBe(0);
+    expect(getScheduleFactor(shift, 24 + 10)).toBe(1);
+  });
+
+  test('should blend the hourly diurnal profile and wrap past midnight', () => {
+    const traffic = createSchedule('diurnal');
+    // Each hour's value holds at its half hour
+    expect(getScheduleFactor(traffic, 8.5)).toBeCloseTo(RUSH_HOUR_PROFILE[8]);
+    expect(getScheduleFactor(traffic, 24 + 17.5)).toBeCloseTo(RUSH_HOUR_PROFILE[17]);
+    expect(getScheduleFactor(traffic, 9)).toBeCloseTo((RUSH_HOUR_PROFILE[8] + RUSH_HOUR_PROFILE[9]) / 2);
+    expect(getScheduleFactor(traffic, 0)).toBeCloseTo((RUSH_HOUR_PROFILE[23] + RUSH_HOUR_PROFILE[0]) / 2);
+    // Morning rush outweighs the small hours
+    expect(getScheduleFactor(traffic, 8)).toBeGreaterThan(4 * getScheduleFactor(traffic, 3));
+  });
+
+  test('should ramp linearly and hold at both ends', () => {
+    const ramp: EmissionSchedule = { kind: 'ramp', startHour: 2, endHour: 6, from: 1, to: 3 };
+    expect(getScheduleFactor(ramp, 0)).toBe(1);
+    expect(getScheduleFactor(ramp, 4)).toBe(2);
+    expect(getScheduleFactor(ramp, 10)).toBe(3);
+  });
+
+  test('should scale the source or global release rate', () => {
+    const source: PollutionSource = { x: 1, y: 1, type: 'NO2', active: true, schedule: { kind: 'onOff', onHours: 1, offHours: 1 } };
+    expect(getScheduledReleaseRate(source, 20, 0.5)).toBe(20);
+    expect(getScheduledReleaseRate(source, 20, 1.5)).toBe(0);
+    expect(getScheduledReleaseRate({ ...source, releaseRate: 50 }, 20, 2.5)).toBe(50);
+  });
+
+  test('should import a piecewise table from CSV', () => {
+    const schedule = parseScheduleCSV('hour,factor\n# overnight shutdown\n12,2\n0;0\n\n6\t1\n');
+    expect(schedule).toEqual({
+      kind: 'piecewise',
+      points: [{ hour: 0, factor: 0 }, { hour: 6, factor: 1 }, { hour: 12, factor: 2 }]
+    });
+    expect(getScheduleFactor(schedule, 3)).toBe(0.5);
+    expect(getScheduleFactor(schedule, 9)).toBe(1.5);
+    expect(getScheduleFactor(schedule, 30)).toBe(2);
+  });
+
+  test('should reject malformed CSV tables', () => {
+    expect(() => parseScheduleCSV('0,1\nnoon,2')).toThrow('Line 2');
+    expect(() => parseScheduleCSV('0,1\n3,-1')).toThrow('negative');
+    expect(() => parseScheduleCSV('hour,factor\n')).toThrow('No "hour,factor" rows');
+  });
+
+  test('should format the clock', () => {
+    expect(formatClock(0)).toBe('00:00');
+    expect(formatClock(8.25)).toBe('08:15');
+    expect(formatClock(24 + 17.5)).toBe('Day 2 17:30');
+  });
+});
@@ -0,0 +1,47 @@
+import { clampResolution, rescaleCell, resampleField, resampleMask } from '../physics/gridResampling';
+
+describe('gridResampling', () => {
+  test('should keep a uniform field uniform', () => {
+    const field = Array(4).fill(0).map(() => Array(4).fill(7));
+
+    const resampled = resampleField(field, { width: 10, height: 6 });
+
+    expect(resampled.length).toBe(6);
+    expect(resampled[0].length).toBe(10);
+    resampled.forEach(row => row.forEach(val => expect(val).toBeCloseTo(7)));
+  });
+
+  test('should interpolate between cells when refining', () => {
+    const field = [[0, 10]];
+
+    const resampled = resampleField(field, { width: 4, height: 1 });
+
+    expect(resampled[0][0]).toBeCloseTo(0);
+    expect(resampled[0][3]).toBeCloseTo(10);
+    expect(resampled[0][1]).toBeGreaterThan(0);
+    expect(resampled[0][1]).toBeLessThan(resampled[0][2]);
+  });
+
+  test('should keep obstacle masks solid', () => {
+    const mask = [
+      [false, false],
+      [false, true]
+    ];
+
+    const resampled = resampleMask(mask, { width: 4, height: 4 });
+
+    expect(resampled[3][3]).toBe(true);
+    expect(resampled[2][2]).toBe(true);
+    expect(resampled[0][0]).toBe(false);
+    expect(resampled[1][2]).toBe(false);
+  });
+
+  test('should move cells to the same point of the domain', () => {
+    expect(rescaleCell(40, 40, { width: 80, height: 80 }, { width: 40, height: 40 })).toEqual({ x: 20, y: 20 });
+    expect(rescaleCell(79, 0, { width: 80, height: 80 }, { width: 160, height: 80 })).toEqual({ x: 159, y: 0 });
+  });
+
+  test('should clamp resolutions to the supported range', () => {
+    expect(clampResolution({ width: 4, height: 1000 }, 16, 256)).toEqual({ width: 16, height: 256 });
+  });
+});
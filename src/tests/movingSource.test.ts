@@ -0,0 +1,68 @@
+import { MAX_TRAIL_POINTS, extendTrail, getRouteLength, getRoutePosition } from '../physics/movingSource';
+import { getEmissionFootprint, getFootprintWeight } from '../physics/sourceGeometry';
+import { PollutionSource, TrailPoint } from '../types';
+
+describe('moving sources', () => {
+  // An L-shaped route: 10 cells east, then 10 north, at 20 cells an hour from hour 1
+  const ship: PollutionSource = {
+    x: 10, y: 10, type: 'NO2', active: true, kind: 'moving',
+    waypoints: [{ x: 10, y: 10 }, { x: 20, y: 10 }, { x: 20, y: 20 }],
+    speed: 20, routeMode: 'oneWay', departureTime: 1
+  };
+  const loop: PollutionSource = { ...ship, routeMode: 'loop' };
+
+  test('should follow the waypoints at its speed', () => {
+    expect(getRouteLength(ship)).toBe(20);
+    expect(getRoutePosition(ship, 1)).toEqual({ x: 10, y: 10 });
+    expect(getRoutePosition(ship, 1.25)).toEqual({ x: 15, y: 10 });
+    expect(getRoutePosition(ship, 1.75)).toEqual({ x: 20, y: 15 });
+  });
+
+  test('should wait for departure and stop at the end of a one-way trip', () => {
+    expect(getRoutePosition(ship, 0.5)).toBeNull();
+    expect(getRoutePosition(ship, 2)).toEqual({ x: 20, y: 20 });
+    expect(getRoutePosition(ship, 2.1)).toBeNull();
+  });
+
+  test('should go round a loop, closing it back to the first waypoint', () => {
+    const lap = 20 + Math.hypot(10, 10);
+    expect(getRouteLength(loop)).toBeCloseTo(lap, 10);
+    const later = getRoutePosition(loop, 1 + (lap + 5) / 20)!;
+    expect(later.x).toBeCloseTo(15, 10);
+    expect(later.y).toBeCloseTo(10, 10);
+  });
+
+  test('should shuttle back along a two-waypoint loop instead of jumping to its start', () => {
+    const ferry: PollutionSource = { ...loop, waypoints: [{ x: 10, y: 10 }, { x: 20, y: 10 }] };
+    expect(getRouteLength(ferry)).toBe(20);
+    expect(getRoutePosition(ferry, 1.25)).toEqual({ x: 15, y: 10 });
+    // On the way back, then round again
+    expect(getRoutePosition(ferry, 1.75)).toEqual({ x: 15, y: 10 });
+    expect(getRoutePosition(ferry, 1.6)!.x).toBeCloseTo(18, 10);
+    expect(getRoutePosition(ferry, 2.1)!.x).toBeCloseTo(12, 10);
+  });
+
+  test('should share the emission between the cells around the position', () => {
+    // A quarter of the way from (10, 10) to (11, 10)
+    const cells = getEmissionFootprint(ship, { width: 40, height: 40 }, () => true, 1.0125);
+    expect(cells).toEqual([{ x: 10, y: 10, weight: 0.75 }, { x: 11, y: 10, weight: 0.25 }]);
+    // Half way along the diagonal closing leg of the loop, between four cells
+    const corner = getEmissionFootprint({ ...loop, waypoints: [{ x: 10, y: 10 }, { x: 20, y: 10 }, { x: 20.5, y: 10.5 }] },
+      { width: 40, height: 40 }, () => true, 1 + (10 + Math.SQRT1_2 + Math.hypot(10.5, 0.5) / 2) / 20);
+    expect(corner).toHaveLength(4);
+    expect(getFootprintWeight(corner)).toBeCloseTo(1, 10);
+    expect(getEmissionFootprint(ship, { width: 40, height: 40 }, () => true, 0)).toEqual([]);
+  });
+
+  test('should space trail points and cap the trail', () => {
+    const points: TrailPoint[] = [];
+    extendTrail(points, 0, 0, 0);
+    extendTrail(points, 0.2, 0, 0.1);
+    extendTrail(points, 1, 0, 0.2);
+    expect(points.map(point => point.x)).toEqual([0, 1]);
+
+    for (let n = 2; n < MAX_TRAIL_POINTS + 10; n++) extendTrail(points, n, 0, n);
+    expect(points).toHaveLength(MAX_TRAIL_POINTS);
+    expect(points[0].x).toBe(10);
+  });
+});
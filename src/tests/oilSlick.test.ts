@@ -0,0 +1,122 @@
+import {
+  getEvaporationRate, getSlickAppearance, getSlickBehavior, getSlickThickness, getWaterContent, isSlickSpecies, spreadSlick,
+  strandSlick
+} from '../physics/oilSlick';
+import { SLICK_SPECIES, SlickBehavior, WATER_SPECIES } from '../types';
+
+describe('oil slick', () => {
+  const oil = getSlickBehavior('OIL') as SlickBehavior;
+  const size = 41;
+  const centre = 20 * size + 20;
+
+  // Mean squared distance of the oil from the centre, in cells²
+  const spread = (field: Float32Array) => {
+    let mass = 0;
+    let moment = 0;
+    field.forEach((value, k) => {
+      mass += value;
+      moment += value * ((k % size) - 20) ** 2 + value * (Math.floor(k / size) - 20) ** 2;
+    });
+    return moment / mass;
+  };
+  const release = (amount: number, obstacles = new Uint8Array(size * size)) => {
+    const field = new Float32Array(size * size);
+    field[centre] = amount;
+    const scratch = new Float32Array(size * size);
+    return { field, run: (time: number) => spreadSlick(field, scratch, obstacles, size, size, oil.spreading, time) };
+  };
+  const total = (field: Float32Array) => field.reduce((sum, value) => sum + value, 0);
+
+  test('should float on water as the slick species', () => {
+    expect(SLICK_SPECIES).toEqual(['OIL']);
+    expect(WATER_SPECIES).toContain('OIL');
+    expect(isSlickSpecies('OIL')).toBe(true);
+    expect(isSlickSpecies('SEDIMENT')).toBe(false);
+  });
+
+  test('should spread faster the thicker it is, as Fay found, and conserve the oil', () => {
+    const thick = release(2000);
+    const thin = release(200);
+    thick.run(20);
+    thin.run(20);
+    expect(spread(thick.field)).toBeGreaterThan(2 * spread(thin.field));
+    expect(total(thick.field)).toBeCloseTo(2000, 1);
+
+    // Gravity-viscous spreading: the radius grows as t^1/4, so its square doubles for 4x the time
+    const slick = release(2000);
+    slick.run(100);
+    const early = spread(slick.field);
+    slick.run(300);
+    expect(spread(slick.field) / early).toBeGreaterThan(1.7);
+    expect(spread(slick.field) / early).toBeLessThan(2.3);
+  });
+
+  test('should not spread into solids', () => {
+    const obstacles = new Uint8Array(size * size);
+    for (let y = 0; y < size; y++) obstacles[y * size + 22] = 1;
+    const slick = release(2000, obstacles);
+    slick.run(100);
+    for (let y = 0; y < size; y++) {
+      expect(slick.field[y * size + 22]).toBe(0);
+      expect(slick.field[y * size + 25]).toBe(0);
+    }
+    expect(total(slick.field)).toBeCloseTo(2000, 1);
+  });
+
+  test('should spread as far across the domain on a finer grid', () => {
+    // The same patch of oil: one cell of the coarse grid, 2 x 2 cells of one with twice as many cells across
+    const coarse = release(2000);
+    coarse.run(100);
+    const fineSize = 2 * (size - 2) + 2;
+    const fine = new Float32Array(fineSize * fineSize);
+    [39, 40].forEach(y => [39, 40].forEach(x => { fine[y * fineSize + x] = 2000; }));
+    spreadSlick(fine, new Float32Array(fine.length), new Uint8Array(fine.length), fineSize, fineSize, oil.spreading, 100);
+
+    let mass = 0;
+    let moment = 0;
+    fine.forEach((value, k) => {
+      mass += value;
+      moment += value * (((k % fineSize) - 39.5) ** 2 + (Math.floor(k / fineSize) - 39.5) ** 2);
+    });
+    // Mean squared distance in coarse cells²
+    expect(moment / mass / 4).toBeCloseTo(spread(coarse.field), 0);
+  });
+
+  test('should evaporate ever more slowly and stop once the light ends are gone', () => {
+    expect(getEvaporationRate(oil, 0)).toBe(oil.evaporation);
+    expect(getEvaporationRate(oil, oil.volatileFraction / 2)).toBeCloseTo(oil.evaporation / 2, 6);
+    expect(getEvaporationRate(oil, oil.volatileFraction)).toBe(0);
+    expect(getEvaporationRate(oil, 0.9)).toBe(0);
+  });
+
+  test('should take up water towards mousse, faster in a strong current', () => {
+    const calm = getWaterContent(oil, 0, 0, 50);
+    const rough = getWaterContent(oil, 0, 1, 50);
+    expect(calm).toBeGreaterThan(0);
+    expect(rough).toBeGreaterThan(calm);
+    expect(getWaterContent(oil, 0, 1, 1e5)).toBeCloseTo(oil.maxWaterContent, 6);
+    // Mousse swells the slick
+    expect(getSlickThickness(10, 0.75)).toBeCloseTo(40, 6);
+  });
+
+  test('should strand oil only where it lies against a solid', () => {
+    const width = 5;
+    const obstacles = new Uint8Array(width * width);
+    for (let x = 0; x < width; x++) obstacles[3 * width + x] = 1;
+    const field = new Float32Array(width * width).fill(10);
+    const stranded = new Float32Array(width * width);
+
+    expect(strandSlick(field, obstacles, width, width, 0.1, stranded)).toBeCloseTo(3 * 1, 6);
+    expect(field[2 * width + 2]).toBeCloseTo(9, 6);
+    expect(stranded[2 * width + 2]).toBeCloseTo(1, 6);
+    expect(field[1 * width + 2]).toBe(10);
+  });
+
+  test('should look thicker through the appearance codes', () => {
+    expect(getSlickAppearance(0.01)).toBeNull();
+    expect(getSlickAppearance(0.1)?.name).toBe('Sheen');
+    expect(getSlickAppearance(1)?.name).toBe('Rainbow');
+    expect(getSlickAppearance(20)?.code).toBe(3);
+    expect(getSlickAppearance(500)?.code).toBe(5);
+  });
+});
@@ -0,0 +1,48 @@
+import { getBuoyancyFlux, getEffectiveStackHeight, getFinalPlumeRise, getPlumeRise } from '../physics/plumeRise';
+import { PollutionSource } from '../types';
+
+describe('plume rise', () => {
+  // A power-station stack: 10 m/s out of a 2 m stack at 100 K above the 293 K air
+  const stack: PollutionSource = {
+    x: 10, y: 10, type: 'SO2', active: true, stackHeight: 100, exitVelocity: 10, stackDiameter: 2, releaseTemperature: 100
+  };
+
+  test('should compute the buoyancy flux of a warm exhaust', () => {
+    expect(getBuoyancyFlux(stack)).toBeCloseTo((9.81 * 10 * 4 * 100) / (4 * 393), 6);
+    expect(getBuoyancyFlux({ ...stack, releaseTemperature: 0 })).toBe(0);
+    expect(getBuoyancyFlux({ ...stack, releaseTemperature: -20 })).toBe(0);
+  });
+
+  test('should rise less in a stronger wind and in stable air', () => {
+    const flux = getBuoyancyFlux(stack);
+    expect(getFinalPlumeRise(stack, 5, 'D')).toBeCloseTo((21.425 * Math.pow(flux, 0.75)) / 5, 6);
+    expect(getFinalPlumeRise(stack, 10, 'D')).toBeCloseTo(getFinalPlumeRise(stack, 5, 'D') / 2, 6);
+    // Stratification holds the plume down, the more so the more stable the air and the lighter the wind
+    expect(getFinalPlumeRise(stack, 2, 'F')).toBeLessThan(getFinalPlumeRise(stack, 2, 'E'));
+    expect(getFinalPlumeRise(stack, 2, 'E')).toBeLessThan(getFinalPlumeRise(stack, 2, 'D'));
+    expect(getFinalPlumeRise(stack, 5, 'F')).toBeLessThanOrEqual(getFinalPlumeRise(stack, 5, 'D'));
+  });
+
+  test('should lift a cold stack by its exit jet only', () => {
+    const cold = { ...stack, releaseTemperature: 0 };
+    expect(getFinalPlumeRise(cold, 5, 'D')).toBeCloseTo((3 * 2 * 10) / 5, 6);
+  });
+
+  test('should leave warm releases without a stack at their own height', () => {
+    const ground: PollutionSource = { x: 10, y: 10, type: 'CO2', active: true, releaseTemperature: 100 };
+    expect(getBuoyancyFlux(ground)).toBe(0);
+    expect(getEffectiveStackHeight(ground, 5, 'D')).toBe(0);
+    const field: PollutionSource = { ...ground, kind: 'area', path: [{ x: 5, y: 5 }, { x: 15, y: 5 }, { x: 15, y: 15 }] };
+    expect(getEffectiveStackHeight(field, 5, 'D')).toBe(0);
+    // A diameter or exit velocity alone declares a stack, even at ground level
+    expect(getFinalPlumeRise({ ...ground, stackDiameter: 2 }, 5, 'D')).toBeGreaterThan(0);
+  });
+
+  test('should climb downwind until it levels off', () => {
+    const final = getFinalPlumeRise(stack, 5, 'D');
+    expect(getPlumeRise(stack, 5, 'D', 50)).toBeLessThan(getPlumeRise(stack, 5, 'D', 200));
+    expect(getPlumeRise(stack, 5, 'D', 200)).toBeLessThan(final);
+    expect(getPlumeRise(stack, 5, 'D', 5000)).toBeCloseTo(final, 6);
+    expect(getEffectiveStackHeight(stack, 5, 'D')).toBeCloseTo(100 + final, 6);
+  });
+});
@@ -0,0 +1,57 @@
+import { createPuffReport, createPuffSource, getPuffFootprint, getPuffKey, isPuffDue, updatePuffReport } from '../physics/puffRelease';
+import { PollutionSource } from '../types';
+
+describe('puff releases', () => {
+  const resolution = { width: 40, height: 40 };
+  const puff: PollutionSource = { ...createPuffSource(20, 20, 'SO2', 0.5), active: true };
+
+  test('should spread the whole mass over open cells, peaking at the centre', () => {
+    const footprint = getPuffFootprint(puff, resolution, () => true);
+    expect(footprint.reduce((sum, cell) => sum + cell.share, 0)).toBeCloseTo(1, 10);
+    const centre = footprint.find(cell => cell.x === 20 && cell.y === 20)!;
+    expect(Math.max(...footprint.map(cell => cell.share))).toBe(centre.share);
+
+    // A wall through the middle keeps its cells clear, and the rest still take all the mass
+    const walled = getPuffFootprint(puff, resolution, (x) => x !== 20);
+    expect(walled.some(cell => cell.x === 20)).toBe(false);
+    expect(walled.reduce((sum, cell) => sum + cell.share, 0)).toBeCloseTo(1, 10);
+  });
+
+  test('should go off once, from its time on the clock', () => {
+    const released = new Set<string>();
+    expect(isPuffDue(puff, 0.4, released)).toBe(false);
+    expect(isPuffDue(puff, 0.6, released)).toBe(true);
+    released.add(getPuffKey(puff));
+    expect(isPuffDue(puff, 0.7, released)).toBe(false);
+    // Retiming it makes a fresh release; a switched-off or continuous source never goes off
+    expect(isPuffDue({ ...puff, puffTime: 0.65 }, 0.7, released)).toBe(true);
+    expect(isPuffDue({ ...puff, active: false }, 0.6, new Set())).toBe(false);
+    expect(isPuffDue({ x: 20, y: 20, type: 'SO2', active: true }, 0.6, new Set())).toBe(false);
+  });
+
+  test('should record first arrival and peak at receptors down the wind', () => {
+    // Wind towards +y: the 40-cell receptor would fall off the grid
+    const report = createPuffReport(puff, 2, 0.5, 90, resolution);
+    expect(report.receptors.map(({ x, y, distance }) => [x, y, distance])).toEqual([[20, 25, 5], [20, 30, 10]]);
+
+    const field = new Float32Array(resolution.width * resolution.height);
+    const at = (y: number) => y * resolution.width + 20;
+    field[at(25)] = 0.2;
+    updatePuffReport(report, field, resolution.width, 0.6);
+    expect(report.receptors[0].arrivalTime).toBeNull();
+
+    field[at(25)] = 3;
+    updatePuffReport(report, field, resolution.width, 0.7);
+    field[at(25)] = 5;
+    updatePuffReport(report, field, resolution.width, 0.8);
+    field[at(25)] = 1;
+    updatePuffReport(report, field, resolution.width, 0.9);
+
+    const [near, far] = report.receptors;
+    expect(near.arrivalTime).toBeCloseTo(0.2, 10);
+    expect(near.peak).toBe(5);
+    expect(near.peakTime).toBeCloseTo(0.3, 10);
+    expect(far.arrivalTime).toBeNull();
+    expect(far.peak).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  getEmissionFootprint, getFootprintWeight, getPathAnchor, getPathLength, getPolygonArea, isExtendedSource, rescaleSource
+} from '../physics/sourceGeometry';
+import { PollutionSource } from '../types';
+
+describe('line and area sources', () => {
+  const resolution = { width: 40, height: 40 };
+  const open = () => true;
+  const road: PollutionSource = {
+    x: 15, y: 10, type: 'NO2', active: true, kind: 'line',
+    path: [{ x: 5, y: 10 }, { x: 25, y: 10 }, { x: 25, y: 22 }]
+  };
+  const field: PollutionSource = {
+    x: 15, y: 15, type: 'PM25', active: true, kind: 'area',
+    path: [{ x: 10, y: 10 }, { x: 20, y: 10 }, { x: 20, y: 20 }, { x: 10, y: 20 }]
+  };
+
+  test('should measure lines and polygons', () => {
+    expect(getPathLength(road.path!)).toBeCloseTo(32, 10);
+    expect(getPolygonArea(field.path!)).toBe(100);
+    // Either way round
+    expect(getPolygonArea([...field.path!].reverse())).toBe(100);
+    expect(getPathAnchor(field.path!)).toEqual({ x: 15, y: 15 });
+  });
+
+  test('should spread a line over the cells it crosses, weighted by length', () => {
+    const cells = getEmissionFootprint(road, resolution, open);
+    expect(getFootprintWeight(cells)).toBeCloseTo(32, 6);
+    expect(cells.every(cell => (cell.y === 10 && cell.x >= 5 && cell.x <= 25) || (cell.x === 25 && cell.y >= 10))).toBe(true);
+    // A wall across the road takes its cell out
+    const blocked = getEmissionFootprint(road, resolution, (x) => x !== 12);
+    expect(blocked.some(cell => cell.x === 12)).toBe(false);
+    expect(getFootprintWeight(blocked)).toBeCloseTo(31, 6);
+  });
+
+  test('should fill an area with one unit of weight per cell inside it', () => {
+    const cells = getEmissionFootprint(field, resolution, open);
+    expect(cells.length).toBe(100);
+    expect(cells.every(cell => cell.weight === 1 && cell.x >= 10 && cell.x <= 20 && cell.y >= 10 && cell.y <= 20)).toBe(true);
+    // Clipped to the interior of the grid
+    const edge = { ...field, path: field.path!.map(({ x, y }) => ({ x: x - 10, y })) };
+    expect(getEmissionFootprint(edge, resolution, open).every(cell => cell.x >= 1)).toBe(true);
+  });
+
+  test('should treat sources without a usable outline as points', () => {
+    const stub: PollutionSource = { ...road, path: [{ x: 5, y: 10 }] };
+    expect(isExtendedSource(stub)).toBe(false);
+    expect(getEmissionFootprint(stub, resolution, open)).toEqual([{ x: 15, y: 10, weight: 1 }]);
+  });
+
+  test('should move the outline with the grid when it is resized', () => {
+    const moved = rescaleSource(field, resolution, { width: 80, height: 80 });
+    expect(moved.path).toEqual([{ x: 21, y: 21 }, { x: 41, y: 21 }, { x: 41, y: 41 }, { x: 21, y: 41 }]);
+    expect(getPolygonArea(moved.path!)).toBe(400);
+    expect({ x: moved.x, y: moved.y }).toEqual({ x: 31, y: 31 });
+  });
+});
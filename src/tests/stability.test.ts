@@ -0,0 +1,53 @@
+import { deriveStabilityClass, getEddyDiffusivityScale, getSunElevation, resolveStabilityClass } from '../physics/stability';
+import { SimulationParameters } from '../types';
+
+describe('stability', () => {
+  test('should follow the Pasquill-Turner key', () => {
+    // Sunny noon: light wind is very unstable, a strong wind is only slightly so
+    expect(deriveStabilityClass(1, 0, 12)).toBe('A');
+    expect(deriveStabilityClass(4, 0, 12)).toBe('B');
+    expect(deriveStabilityClass(7, 0, 12)).toBe('C');
+    // Broken cloud weakens the sun by one category
+    expect(deriveStabilityClass(1, 0.6, 12)).toBe('B');
+    // Clear and cloudy nights
+    expect(deriveStabilityClass(1, 0, 0)).toBe('F');
+    expect(deriveStabilityClass(1, 0.6, 0)).toBe('E');
+    expect(deriveStabilityClass(7, 0, 0)).toBe('D');
+    // Overcast is neutral day and night
+    expect(deriveStabilityClass(1, 1, 12)).toBe('D');
+    expect(deriveStabilityClass(1, 1, 0)).toBe('D');
+  });
+
+  test('should put the sun below the horizon at night', () => {
+    expect(getSunElevation(12)).toBeCloseTo(70);
+    expect(getSunElevation(6)).toBeCloseTo(0);
+    expect(getSunElevation(0)).toBeLessThan(0);
+  });
+
+  test('should resolve the chosen or derived class', () => {
+    const parameters: SimulationParameters = {
+      windDirection: 0,
+      windSpeed: 0.2, // 1 m/s
+      diffusionRate: 0.1,
+      releaseRate: 1,
+      viscosity: 1,
+      decayFactor: 1,
+      simulationSpeed: 1
+    };
+
+    expect(resolveStabilityClass(parameters)).toBe('D');
+    expect(resolveStabilityClass({ ...parameters, stabilityClass: 'E' })).toBe('E');
+    expect(resolveStabilityClass({ ...parameters, stabilityClass: 'E', autoStability: true, cloudCover: 0, timeOfDay: 23 })).toBe('F');
+  });
+
+  test('should scale mixing up in unstable air and down in stable air', () => {
+    expect(getEddyDiffusivityScale('D')).toEqual({ horizontal: 1, vertical: 1 });
+
+    const unstable = getEddyDiffusivityScale('A');
+    const stable = getEddyDiffusivityScale('F');
+    expect(unstable.horizontal).toBeGreaterThan(1);
+    expect(unstable.vertical).toBeGreaterThan(unstable.horizontal);
+    expect(stable.horizontal).toBeLessThan(1);
+    expect(stable.vertical).toBeLessThan(stable.horizontal);
+  });
+});
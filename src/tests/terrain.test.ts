@@ -0,0 +1,50 @@
+import { applyTerrainBrush, computeSlope, hasRelief, heightmapFromImage } from '../physics/terrain';
+import { createGrid } from '../physics/gridResampling';
+import { gridToField } from '../physics/fieldStorage';
+
+describe('terrain', () => {
+  test('should raise a smooth mound under the brush and leave the rest flat', () => {
+    const terrain = applyTerrainBrush(createGrid({ width: 20, height: 20 }), 10, 10, 1, 4, 0.5);
+
+    expect(terrain[10][10]).toBeCloseTo(0.5);
+    expect(terrain[10][12]).toBeGreaterThan(0);
+    expect(terrain[10][12]).toBeLessThan(terrain[10][11]);
+    expect(terrain[10][15]).toBe(0);
+    expect(terrain[0][0]).toBe(0);
+  });
+
+  test('should keep elevations within 0 and 1', () => {
+    let terrain = createGrid({ width: 10, height: 10 });
+    for (let i = 0; i < 5; i++) terrain = applyTerrainBrush(terrain, 5, 5, 1, 3, 0.4);
+    expect(terrain[5][5]).toBe(1);
+
+    for (let i = 0; i < 5; i++) terrain = applyTerrainBrush(terrain, 5, 5, -1, 3, 0.4);
+    expect(terrain[5][5]).toBe(0);
+  });
+
+  test('should read a grayscale image as elevation', () => {
+    // 2 x 1 RGBA image: black then white
+    const image = { width: 2, height: 1, data: [0, 0, 0, 255, 255, 255, 255, 255] };
+
+    const terrain = heightmapFromImage(image, { width: 2, height: 1 });
+
+    expect(terrain[0][0]).toBeCloseTo(0);
+    expect(terrain[0][1]).toBeCloseTo(1);
+    expect(heightmapFromImage(image, { width: 8, height: 4 })[2].length).toBe(8);
+  });
+
+  test('should measure slope per domain length', () => {
+    const resolution = { width: 10, height: 10 };
+    // Ramp rising by 0.1 per cell along x
+    const ramp = gridToField(createGrid(resolution).map(row => row.map((_, x) => x * 0.1)), resolution);
+    const slopeX = new Float32Array(100);
+    const slopeY = new Float32Array(100);
+
+    computeSlope(ramp, 10, 10, 10, slopeX, slopeY);
+
+    expect(hasRelief(ramp)).toBe(true);
+    expect(slopeX[55]).toBeCloseTo(1);
+    expect(slopeX[50]).toBeCloseTo(1); // One-sided at the edge
+    expect(slopeY[55]).toBeCloseTo(0);
+  });
+});
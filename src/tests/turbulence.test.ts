@@ -0,0 +1,108 @@
+import { FluidDynamics } from '../physics/FluidDynamics';
+import { applyVorticityConfinement, computeEddyViscosity, diffuseWithEddyViscosity } from '../physics/turbulence';
+import { SimulationParameters } from '../types';
+
+// Mock WebGLSimulationEngine to avoid GPU initialization in tests
+jest.mock('../physics/WebGLSimulationEngine', () => ({
+  WebGLSimulationEngine: {
+    isSupported: jest.fn().mockReturnValue(false),
+  },
+}));
+
+describe('turbulence', () => {
+  const N = 20;
+  const cells = N - 2;
+  const open = new Uint8Array(N * N);
+  const field = (value: (i: number, j: number) => number) => {
+    const data = new Float32Array(N * N);
+    for (let i = 0; i < N; i++) {
+      for (let j = 0; j < N; j++) data[i * N + j] = value(i, j);
+    }
+    return data;
+  };
+  const sum = (data: Float32Array) => data.reduce((total, value) => total + value, 0);
+
+  test('should only add eddy viscosity where the wind shears', () => {
+    const eddy = new Float32Array(N * N);
+    const uniform = computeEddyViscosity(field(() => 0.5), field(() => 0.2), open, N, N, cells, 0.17, 0.1, eddy);
+    expect(uniform).toBe(0);
+    expect(eddy.every(value => value === 0)).toBe(true);
+
+    // A shear layer along the middle row
+    const u = field(i => (i < N / 2 ? 0 : 0.5));
+    const v = field(() => 0);
+    const weak = computeEddyViscosity(u, v, open, N, N, cells, 0.1, 0.1, eddy);
+    expect(eddy[N / 2 * N + 5]).toBeGreaterThan(0);
+    expect(eddy[3 * N + 5]).toBe(0);
+    const strong = computeEddyViscosity(u, v, open, N, N, cells, 0.2, 0.1, eddy);
+    expect(strong / weak).toBeCloseTo(4, 5);
+  });
+
+  test('should smooth momentum across a shear layer without creating any', () => {
+    const u = field(i => (i < N / 2 ? 0 : 0.5));
+    const v = field(() => 0);
+    const eddy = new Float32Array(N * N);
+    computeEddyViscosity(u, v, open, N, N, cells, 0.2, 0.1, eddy);
+
+    const before = sum(u);
+    const jump = u[(N / 2) * N + 5] - u[(N / 2 - 1) * N + 5];
+    diffuseWithEddyViscosity(u, new Float32Array(N * N), eddy, open, N, N);
+
+    expect(u[(N / 2) * N + 5] - u[(N / 2 - 1) * N + 5]).toBeLessThan(jump);
+    expect(sum(u)).toBeCloseTo(before, 4);
+  });
+
+  test('should spin a vortex up with confinement', () => {
+    // Solid-body vortex with a Gaussian envelope around the centre
+    const envelope = (i: number, j: number) => Math.exp(-((i - N / 2) ** 2 + (j - N / 2) ** 2) / 8);
+    const u = field((i, j) => -(i - N / 2) * envelope(i, j) * 0.1);
+    const v = field((i, j) => (j - N / 2) * envelope(i, j) * 0.1);
+    const speed = () => sum(field((i, j) => Math.hypot(u[i * N + j], v[i * N + j])));
+
+    const centre = (N / 2) * N + N / 2;
+    const coreCurl = () => v[centre + 1] - v[centre - 1] - (u[centre + N] - u[centre - N]);
+
+    const before = { speed: speed(), curl: coreCurl() };
+    applyVorticityConfinement(u, v, open, N, N, cells, 2, 0.1, new Float32Array(N * N));
+    expect(speed()).toBeGreaterThan(before.speed);
+    // The eddy is drawn in on its core, turning faster there
+    expect(coreCurl()).toBeGreaterThan(before.curl);
+  });
+
+  describe('in the solver', () => {
+    const GRID = 50;
+    const parameters: SimulationParameters = {
+      windDirection: 0,
+      windSpeed: 1.0,
+      diffusionRate: 0.1,
+      releaseRate: 0,
+      viscosity: 1.0,
+      decayFactor: 1.0,
+      simulationSpeed: 1.0,
+      buoyancy: 0
+    };
+    const wall = Array.from({ length: GRID }, (_, y) => Array.from({ length: GRID }, (_, x) => x === 15 && y >= 18 && y <= 32));
+
+    // Mean |curl| over the wake behind the wall
+    const wakeVorticity = (extra: Partial<SimulationParameters>) => {
+      const fd = new FluidDynamics(GRID);
+      fd.setObstacles(wall);
+      for (let n = 0; n < 40; n++) fd.step({ ...parameters, ...extra }, []);
+      const u = fd.getVelocityX();
+      const v = fd.getVelocityY();
+      let total = 0;
+      for (let y = 15; y < 35; y++) {
+        for (let x = 17; x < 35; x++) {
+          total += Math.abs(v[y][x + 1] - v[y][x - 1] - (u[y + 1][x] - u[y - 1][x]));
+        }
+      }
+      return total;
+    };
+
+    test('should damp the wake with eddy viscosity and sharpen it with confinement', () => {
+      const laminar = wakeVorticity({});
+      expect(wakeVorticity({ turbulenceModel: 'smagorinsky', smagorinskyConstant: 0.3 })).toBeLessThan(laminar);
+      expect(wakeVorticity({ vorticityConfinement: 4 })).toBeGreaterThan(laminar);
+    });
+  });
+});
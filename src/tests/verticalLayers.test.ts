@@ -0,0 +1,28 @@
+import { createColumnMixer, getInterfaceExchange, getLayerCount, mixColumn } from '../physics/verticalLayers';
+
+describe('vertical layers', () => {
+  test('should mix a column towards uniform without losing mass', () => {
+    const mixer = createColumnMixer(getInterfaceExchange(4, 1000), 0.1);
+    const column = new Float64Array([100, 0, 0, 0]);
+
+    for (let i = 0; i < 500; i++) mixColumn(mixer, column);
+
+    expect(column.reduce((sum, value) => sum + value, 0)).toBeCloseTo(100, 6);
+    column.forEach(value => expect(value).toBeCloseTo(25, 1));
+  });
+
+  test('should throttle exchange across interfaces at or above the mixing height', () => {
+    const exchange = getInterfaceExchange(4, 400);
+
+    expect(exchange).toHaveLength(3);
+    expect(exchange[1]).toBeLessThan(0.05 * exchange[0]);
+    expect(exchange[2]).toBe(exchange[1]);
+  });
+
+  test('should clamp the layer count', () => {
+    expect(getLayerCount()).toBe(1);
+    expect(getLayerCount(0)).toBe(1);
+    expect(getLayerCount(3.4)).toBe(3);
+    expect(getLayerCount(50)).toBe(8);
+  });
+});
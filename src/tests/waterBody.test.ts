@@ -0,0 +1,68 @@
+import {
+  WATER_PRESETS, computeChannelShape, getAmbientCurrent, getMediumSpecies, getTidalCurrent, isCurrentAlongX
+} from '../physics/waterBody';
+import { getAmbientWind } from '../physics/boundaryConditions';
+import { AIR_SPECIES, POLLUTANT_TYPES, SimulationParameters, WATER_SPECIES } from '../types';
+
+describe('water body', () => {
+  const river: SimulationParameters = {
+    windDirection: 0, windSpeed: 0.5, diffusionRate: 0.05, releaseRate: 1, viscosity: 2, decayFactor: 1, simulationSpeed: 1,
+    medium: 'water', tidalAmplitude: 0.8, tidalPeriod: 12
+  };
+
+  test('should shape the current across each channel, still at the banks', () => {
+    const width = 6;
+    const height = 12;
+    // Banks along the top three and bottom two rows
+    const obstacles = new Uint8Array(width * height);
+    for (let x = 0; x < width; x++) [0, 1, 2, 10, 11].forEach(y => { obstacles[y * width + x] = 1; });
+    const shape = new Float32Array(width * height);
+
+    computeChannelShape(obstacles, width, height, true, 'parabolic', shape);
+    const column = Array.from({ length: height }, (_, y) => shape[y * width + 2]);
+    expect(column.slice(3, 10).reduce((sum, value) => sum + value, 0) / 7).toBeCloseTo(1, 6);
+    expect(column[6]).toBeCloseTo(Math.max(...column), 6);
+    expect(column[3]).toBeLessThan(column[6]);
+    [0, 1, 2, 10, 11].forEach(y => expect(column[y]).toBe(0));
+
+    computeChannelShape(obstacles, width, height, true, 'uniform', shape);
+    expect(shape[3 * width + 2]).toBe(1);
+    expect(shape[1 * width + 2]).toBe(0);
+  });
+
+  test('should flood and ebb with the tide in water only', () => {
+    expect(getTidalCurrent(river, 0)).toBeCloseTo(0, 6);
+    expect(getTidalCurrent(river, 3)).toBeCloseTo(0.8, 6);
+    expect(getTidalCurrent(river, 9)).toBeCloseTo(-0.8, 6);
+    expect(getTidalCurrent({ ...river, medium: 'air' }, 3)).toBe(0);
+    // At ebb the tide outruns the river and the current turns upstream
+    expect(getAmbientCurrent(river, 3).x).toBeCloseTo(getAmbientWind(1.3, 0).x, 5);
+    expect(getAmbientCurrent(river, 9).x).toBeLessThan(0);
+    expect(isCurrentAlongX(0)).toBe(true);
+    expect(isCurrentAlongX(80)).toBe(false);
+  });
+
+  test('should lay out banks and water settings for each preset', () => {
+    const resolution = { width: 40, height: 20 };
+    Object.values(WATER_PRESETS).forEach(preset => {
+      const banks = preset.banks(resolution);
+      expect(banks).toHaveLength(20);
+      expect(banks[0]).toHaveLength(40);
+      expect(preset.parameters.medium).toBe('water');
+      // Some water and some land in every preset
+      expect(banks.flat().some(Boolean)).toBe(true);
+      expect(banks.flat().some(land => !land)).toBe(true);
+    });
+    const banks = WATER_PRESETS.river.banks(resolution);
+    expect(banks[10][20]).toBe(false);
+    expect(banks[1][20]).toBe(true);
+  });
+
+  test('should offer each medium its own pollutants', () => {
+    expect(getMediumSpecies('water')).toEqual(WATER_SPECIES);
+    expect(getMediumSpecies('air')).toEqual(AIR_SPECIES);
+    WATER_SPECIES.forEach(species => expect(POLLUTANT_TYPES[species]).toHaveProperty('medium', 'water'));
+    expect(AIR_SPECIES).toContain('CO2');
+    expect(AIR_SPECIES).not.toContain('SEDIMENT');
+  });
+});
@@ -12,8 +12,59 @@ export interface SimulationParameters {
   viscosity: number;
   decayFactor: number;
   simulationSpeed: number;
+  sunIntensity?: number; // 0 (night) to 1 (midday sun), drives photochemistry
+  buoyancy?: number; // Strength of thermal buoyancy (0 disables it)
+  solverTolerance?: number; // Relative residual at which the pressure/diffusion solves stop
+  solverMaxIterations?: number; // Iteration cap for each linear solve
+  boundaries?: BoundaryConditions; // Per-edge domain boundaries (all outflow when omitted)
+  advectionScheme?: AdvectionScheme; // Transport scheme for density and velocity (semi-Lagrangian when omitted)
+  turbulenceModel?: TurbulenceModel; // Subgrid closure for the wind (the constant viscosity alone when omitted)
+  smagorinskyConstant?: number; // Cs of the Smagorinsky model, typically 0.1-0.2
+  vorticityConfinement?: number; // Strength of the force that keeps small eddies spinning (0 disables it)
+  verticalLayers?: number; // Stacked air layers from the ground up (1, a single well-mixed layer, when omitted)
+  mixingHeight?: number; // m; top of the mixed layer, above which an inversion lid traps pollution
+  dispersionModel?: DispersionModel; // Engine that computes the concentrations (Navier-Stokes when omitted)
+  stabilityClass?: StabilityClass; // Pasquill-Gifford class of the atmosphere (neutral D when omitted)
+  autoStability?: boolean; // Derive the class from wind, cloud cover and time of day instead
+  cloudCover?: number; // Fraction of the sky covered, 0 (clear) to 1 (overcast)
+  timeOfDay?: number; // Local solar time in hours, 0-24
+  rainIntensity?: number; // mm/h of rain washing soluble species out of the air (dry when omitted)
+  medium?: Medium; // Fluid filling the domain (air when omitted); in water windSpeed and windDirection set the current
+  riverProfile?: RiverProfile; // Water: shape of the current across the channel between its banks
+  tidalAmplitude?: number; // Water: peak tidal current, in windSpeed units, added to and against the mean flow
+  tidalPeriod?: number; // Water: hours from one high tide to the next
 }
 
+// The domain is a layer of air over the ground, or a river, lake or stretch of coast seen from above
+export type Medium = 'air' | 'water';
+
+// Current across a channel: the same from bank to bank, or fastest mid-stream and slowing towards the banks
+export type RiverProfile = 'uniform' | 'parabolic';
+
+// Starting layouts for the water domain, each with its banks, current and tide
+export type WaterPresetId = 'river' | 'lake' | 'estuary' | 'coast';
+
+// Navier-Stokes transport on the grid, or the steady-state analytic Gaussian plume
+export type DispersionModel = 'navierStokes' | 'gaussianPlume' | 'lagrangianParticles';
+
+// Pasquill-Gifford atmospheric stability: A very unstable (strong sun, light wind) to F moderately stable (clear night)
+export type StabilityClass = 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+
+// Advection on the CPU solver: first-order semi-Lagrangian, or a second-order error-corrected
+// scheme (MacCormack / BFECC) whose result is limited to the values it was interpolated from
+export type AdvectionScheme = 'semiLagrangian' | 'maccormack' | 'bfecc';
+
+// Momentum diffusion: the constant viscosity only, or with a Smagorinsky eddy viscosity that grows with the local strain
+export type TurbulenceModel = 'laminar' | 'smagorinsky';
+
+// Domain edge treatment: reflective wall, zero-gradient outflow, wrap-around periodic,
+// or clean air entering at the ambient wind velocity
+export type BoundaryType = 'wall' | 'outflow' | 'periodic' | 'inflow';
+
+// Edges by grid axis: left/right are x = 0 / x = width - 1, top/bottom are y = 0 / y = height - 1
+export type BoundaryEdge = 'left' | 'right' | 'top' | 'bottom';
+export type BoundaryConditions = Record<BoundaryEdge, BoundaryType>;
+
 export interface PollutantType {
   id: string;
   name: string;
@@ -24,32 +75,215 @@ export interface PollutantType {
     sinkRate: number;
     reactivity: number;
     viscosity: number;
-    tempGradient?: number;
+    tempGradient?: number; // Default release temperature anomaly (K above ambient)
+    scavenging?: number; // Rain washout efficiency, 0 (insoluble) to 1 (readily dissolved or captured by drops)
     organicGrowth?: number;
   };
-  effects: string[];
+  effects: readonly string[];
+  secondary?: boolean; // Formed only by chemistry, never emitted directly
+  medium?: Medium; // Fluid the pollutant is released into (air when omitted)
+  slick?: SlickBehavior; // Floats as a surface slick that spreads and weathers instead of mixing
+}
+
+// How a floating slick (oil) spreads and weathers; its concentration is read as thickness in µm
+export interface SlickBehavior {
+  spreading: number; // Fay gravity-viscous spreading: diffusivity (domain²/time) per µm of thickness
+  volatileFraction: number; // Share of the oil light enough to evaporate
+  evaporation: number; // Evaporation rate (1/time) of fresh oil, slowing as the volatile share is used up
+  emulsification: number; // Water uptake rate (1/time) in still water, growing with (1 + current speed)²
+  maxWaterContent: number; // Water share of fully formed mousse
+  stranding: number; // Rate (1/time) at which oil lying against a bank or shore strands on it
+}
+
+// Weathering of the slick species since the last reset
+export interface SlickWeathering {
+  afloat: number; // Mass on the water now
+  evaporated: number; // Mass lost to the air
+  stranded: number; // Mass left on banks and shorelines
+  waterContent: number; // Water share of the emulsified slick (0-1)
 }
 
 export interface PollutionSource {
   x: number;
   y: number;
-  type: keyof typeof POLLUTANT_TYPES;
+  type: SpeciesId;
   active: boolean;
   releaseRate?: number; // Individual release rate (0.0 to 1.0)
+  releaseTemperature?: number; // Exit temperature anomaly (K above ambient, negative for cold releases)
+  stackHeight?: number; // m above the ground (0, a ground-level release, when omitted)
+  exitVelocity?: number; // m/s leaving the stack; with the exit temperature it sets the plume rise
+  stackDiameter?: number; // m across the top of the stack
+  schedule?: EmissionSchedule; // Variation of the release rate over the simulation clock (constant when omitted)
+  kind?: SourceKind; // Continuous point emission (when omitted), a single instantaneous puff, a line or area, or moving
+  path?: GridPoint[]; // Line sources: polyline vertices; area sources: polygon corners (cells). x, y is its anchor
+  waypoints?: GridPoint[]; // Moving sources: the route they travel (cells); x, y is where they set off
+  speed?: number; // Moving sources: cells per hour of simulation clock
+  routeMode?: RouteMode; // Moving sources: round and round the route, or along it once
+  departureTime?: number; // Moving sources: hour on the simulation clock at which they set off
+  puffId?: string; // Tells puffs apart so each goes off only once
+  puffMass?: number; // Total mass a puff releases (concentration units x cells)
+  puffTime?: number; // Hour on the simulation clock at which a puff goes off
+  puffRadius?: number; // Cells; a puff starts as a Gaussian blob of about this radius
+}
+
+// Line sources (roads) emit their release rate per cell of length, area sources (fields, fires) per cell of area;
+// moving sources (ships, convoys) emit as a point travelling along their waypoints
+export type SourceKind = 'continuous' | 'puff' | 'line' | 'area' | 'moving';
+
+// A loop runs from the last waypoint back to the first and round again; a one-way trip ends at the last waypoint
+export type RouteMode = 'loop' | 'oneWay';
+
+export interface GridPoint {
+  x: number;
+  y: number;
+}
+
+export interface SourceDrawing {
+  kind: 'line' | 'area' | 'route';
+  path: GridPoint[];
+}
+
+// Where a moving source has been while emitting: fractional cells and hours on the simulation clock
+export interface TrailPoint {
+  x: number;
+  y: number;
+  time: number;
+}
+
+export interface SourceTrail {
+  source: number; // Index in the sources list
+  species: SpeciesId;
+  points: TrailPoint[];
+}
+
+// Emission schedules scale a source's release rate by a factor over the simulation clock (hours since reset)
+export type EmissionSchedule =
+  | { kind: 'constant' }
+  | { kind: 'onOff'; onHours: number; offHours: number; startHour?: number } // Repeating cycle, on first
+  | { kind: 'diurnal'; profile: number[] } // 24 hourly factors, repeated every day
+  | { kind: 'ramp'; startHour: number; endHour: number; from: number; to: number } // Linear, then held
+  | { kind: 'piecewise'; points: { hour: number; factor: number }[] }; // Interpolated table (CSV import)
+export type EmissionScheduleKind = EmissionSchedule['kind'];
+
+// Pollutant species, one concentration field each
+export type SpeciesId = keyof typeof POLLUTANT_TYPES;
+export type SpeciesGrids = Record<SpeciesId, number[][]>;
+
+// Flat row-major field storage: cell (x, y) lives at data[y * width + x]
+export type SpeciesFields = Record<SpeciesId, Float32Array>;
+
+// Read-only window onto a live solver field; only valid until the next simulation step
+export interface FieldView {
+  readonly width: number;
+  readonly height: number;
+  readonly data: ArrayLike<number>;
+}
+
+// Convergence of the linear solves in the last simulation step
+export interface SolverReport {
+  iterations: number;
+  residual: number; // Relative residual (max-norm) at exit
+  converged: boolean;
+}
+
+export interface SolverDiagnostics {
+  pressure: SolverReport;
+  diffusion: SolverReport; // Worst of the step's diffusion solves
+}
+
+// Mass carried out of the domain through outflow edges (concentration x cells), per species
+export interface BoundaryOutflow {
+  lastStep: Record<SpeciesId, number>;
+  cumulative: Record<SpeciesId, number>;
+}
+
+// Where the pollutant mass went over one step (or since the last reset), in concentration x cells summed
+// over every species. total - previous total = sum(emitted) + chemistry - decay - deposition - outflow
+// - clampLoss - imbalance, where the imbalance is the transport schemes' own conservation error.
+export interface MassBalance {
+  emitted: number[]; // Per source, indexed like the sources passed to the step
+  decay: number; // Ambient decay and first-order chemical loss
+  deposition: number; // Settling and dry deposition onto surfaces
+  washout: number; // Scavenged by rain onto the ground (wet deposition)
+  outflow: number; // Carried out through the open edges
+  clampLoss: number; // Removed by the 0-255 concentration clamp (negative when it fills undershoots)
+  chemistry: number; // Net change from the reaction mechanisms, which convert between species
+  imbalance: number;
+  total: number; // Mass in the domain at the end of the step
+}
+
+// Arrival of the most recent puff at receptor cells downwind of it; times are hours after the release
+export interface PuffReceptor {
+  x: number;
+  y: number;
+  distance: number; // Cells from the puff's centre along the wind
+  arrivalTime: number | null; // First time the concentration reached the arrival threshold
+  peak: number; // Highest concentration so far
+  peakTime: number | null;
+}
+
+export interface PuffReport {
+  source: number; // Index of the puff in the source list
+  species: SpeciesId;
+  releaseTime: number; // Hour on the simulation clock
+  receptors: PuffReceptor[];
+}
+
+export interface MassBudget {
+  lastStep: MassBalance;
+  cumulative: MassBalance; // Running sums since the last reset; total is the current total
+}
+
+// Concentration (summed over species) in one vertical layer, heights in metres above the ground
+export interface LayerConcentration {
+  base: number;
+  top: number;
+  mean: number; // Average over the fluid cells
+  peak: number;
+  capped: boolean; // Above the inversion lid
+}
+
+// Pollution laid on the ground: settled and dry-deposited, washed out by rain, or both
+export type DepositionKind = 'dry' | 'wet' | 'total';
+
+export type TerrainBrush = 'raise' | 'lower';
+
+// Grid dimensions in cells; cells are square, so width/height also sets the domain aspect
+export interface GridResolution {
+  width: number;
+  height: number;
 }
 
 export interface SimulationState {
   isRunning: boolean;
-  grid: number[][];
+  resolution: GridResolution;
+  grid: number[][]; // Total concentration across all species, [y][x]
+  speciesGrids: SpeciesGrids;
   obstacles: boolean[][];
+  terrain: number[][]; // Ground elevation, [y][x], from 0 (lowest) to 1 (highest)
   sources: PollutionSource[];
   parameters: SimulationParameters;
   fps: number;
   gpuEnabled: boolean;
   scientistMode: boolean;
   isDrawingObstacles: boolean;
+  terrainBrush: TerrainBrush | null; // Active sculpting tool, null when not sculpting
+  isPlacingPuff: boolean; // The next click on the ground releases a puff there
+  sourceDrawing: SourceDrawing | null; // Line or area source being drawn, vertex by vertex
   dynamicWeather: boolean;
   resetTrigger: number;
+  solverDiagnostics: SolverDiagnostics | null;
+  boundaryOutflow: BoundaryOutflow | null;
+  massBudget: MassBudget | null;
+  verticalProfile: LayerConcentration[] | null; // Ground layer first
+  deposition: SpeciesGrids | null; // Mass deposited (dry and wet) onto each cell since it was last cleared
+  showDeposition: boolean; // Draw the deposit on the ground in the 3D view
+  depositionSpecies: SpeciesId | null; // Species the deposit layer shows, null for all of them
+  depositionResetTrigger: number; // Bumped to clear the solver's deposit without resetting the air
+  simulationTime: number; // Hours on the simulation clock since the last reset (emission schedules follow it)
+  puffReport: PuffReport | null; // Arrival downwind of the latest puff
+  sourceTrails: SourceTrail[]; // Recorded tracks of the moving sources since the last reset
+  slickWeathering: SlickWeathering | null; // Evaporation, emulsification and stranding of the oil since the last reset
 }
 
 // UI types
@@ -80,16 +314,52 @@ export interface SimulationStore extends SimulationState {
     toggleScientistMode: () => void;
     toggleDrawingObstacles: () => void;
     toggleDynamicWeather: () => void;
-    setGrid: (grid: number[][]) => void;
+    setGrid: (grid: number[][], speciesGrids?: SpeciesGrids) => void;
     setObstacles: (obstacles: boolean[][]) => void;
     addObstacle: (x: number, y: number) => void;
     removeObstacle: (x: number, y: number) => void;
+    setTerrain: (terrain: number[][]) => void;
+    sculptTerrain: (x: number, y: number) => void;
+    setTerrainBrush: (brush: TerrainBrush | null) => void;
     setFPS: (fps: number) => void;
+    setResolution: (resolution: GridResolution) => void;
+    setSolverDiagnostics: (diagnostics: SolverDiagnostics) => void;
+    setBoundaryOutflow: (outflow: BoundaryOutflow) => void;
+    setMassBudget: (budget: MassBudget) => void;
+    setSimulationTime: (hours: number) => void;
+    setPuffReport: (report: PuffReport | null) => void;
+    setSourceTrails: (trails: SourceTrail[]) => void;
+    setSlickWeathering: (weathering: SlickWeathering | null) => void;
+    setMedium: (medium: Medium, preset?: WaterPresetId) => void;
+    togglePuffPlacement: () => void;
+    placePuff: (x: number, y: number) => void;
+    startSourceDrawing: (kind: SourceDrawing['kind']) => void;
+    addDrawingVertex: (x: number, y: number) => void;
+    finishSourceDrawing: () => void;
+    cancelSourceDrawing: () => void;
+    setVerticalProfile: (profile: LayerConcentration[]) => void;
+    setDeposition: (deposition: SpeciesGrids) => void;
+    toggleDepositionLayer: () => void;
+    setDepositionSpecies: (species: SpeciesId | null) => void;
+    clearDeposition: () => void;
   };
 }
 
 // Constants
-export const GRID_SIZE = 80;
+export const DEFAULT_RESOLUTION: GridResolution = { width: 80, height: 80 };
+export const BOUNDARY_EDGES: readonly BoundaryEdge[] = ['left', 'right', 'top', 'bottom'];
+export const DEFAULT_BOUNDARIES: BoundaryConditions = { left: 'outflow', right: 'outflow', top: 'outflow', bottom: 'outflow' };
+export const DEFAULT_ADVECTION_SCHEME: AdvectionScheme = 'semiLagrangian';
+export const DEFAULT_TURBULENCE_MODEL: TurbulenceModel = 'laminar';
+export const DEFAULT_DISPERSION_MODEL: DispersionModel = 'navierStokes';
+export const DEFAULT_MEDIUM: Medium = 'air';
+export const DEFAULT_RIVER_PROFILE: RiverProfile = 'parabolic';
+export const DEFAULT_STABILITY_CLASS: StabilityClass = 'D';
+export const STABILITY_CLASSES: readonly StabilityClass[] = ['A', 'B', 'C', 'D', 'E', 'F'];
+export const DEFAULT_CLOUD_COVER = 0.25;
+export const DEFAULT_TIME_OF_DAY = 12;
+export const MIN_GRID_DIMENSION = 16;
+export const MAX_GRID_DIMENSION = 256;
 export const POLLUTANT_TYPES = {
   CO2: {
     id: 'co2',
@@ -101,6 +371,7 @@ export const POLLUTANT_TYPES = {
       sinkRate: 0.15, // Sinks (Heavy gas)
       reactivity: 0.0,
       viscosity: 0.9,
+      scavenging: 0.0, // Barely soluble
     },
     effects: ['asphyxiation', 'acidification']
   },
@@ -114,6 +385,7 @@ export const POLLUTANT_TYPES = {
       sinkRate: 0.02, // Lofts/Suspends
       reactivity: 0.1,
       viscosity: 1.1,
+      scavenging: 0.5, // Captured by falling drops
     },
     effects: ['respiratory', 'cardiovascular']
   },
@@ -125,8 +397,9 @@ export const POLLUTANT_TYPES = {
     diffusionModifier: 1.1,
     behavior: {
       sinkRate: 0.05, // Slightly heavier than air
-      reactivity: 0.8, // Highly reactive (Ozone precursor)
+      reactivity: 0.0, // Converted by the NOx-O3 mechanism (photolysis), not by generic decay
       viscosity: 1.0,
+      scavenging: 0.1,
     },
     effects: ['lungIrritation', 'smog']
   },
@@ -140,6 +413,7 @@ export const POLLUTANT_TYPES = {
       sinkRate: 0.08,
       reactivity: 0.6,
       viscosity: 1.0,
+      scavenging: 0.8, // Highly soluble: acid rain
     },
     effects: ['acidRain', 'respiratory']
   },
@@ -153,7 +427,146 @@ export const POLLUTANT_TYPES = {
       sinkRate: 0.4, // Very heavy
       reactivity: 0.01,
       viscosity: 1.5,
+      scavenging: 0.0, // Noble gas
     },
     effects: ['cancer', 'radiation']
+  },
+  NO: {
+    id: 'no',
+    name: 'Nitric Oxide (NO)',
+    description: 'Colorless gas emitted directly by combustion. Oxidises to NO2 by scavenging ozone.',
+    baseColor: { r: 214, g: 160, b: 110 }, // Pale tan (precursor of brown NO2)
+    diffusionModifier: 1.1,
+    behavior: {
+      sinkRate: 0.03,
+      reactivity: 0.1, // Main chemistry handled by the NOx-O3 mechanism
+      viscosity: 1.0,
+      scavenging: 0.02,
+    },
+    effects: ['lungIrritation', 'smog']
+  },
+  O3: {
+    id: 'o3',
+    name: 'Ground-level Ozone (O3)',
+    description: 'Secondary pollutant formed when sunlight splits NO2. Main ingredient of summer smog.',
+    baseColor: { r: 56, g: 189, b: 248 }, // Sky blue
+    diffusionModifier: 1.0,
+    behavior: {
+      sinkRate: 0.03, // Dry deposition onto surfaces
+      reactivity: 0.05,
+      viscosity: 1.0,
+      scavenging: 0.05,
+    },
+    effects: ['lungIrritation', 'cropDamage'],
+    secondary: true
+  },
+  SULFATE: {
+    id: 'sulfate',
+    name: 'Sulfate Aerosol (Secondary PM2.5)',
+    description: 'Fine particles formed by oxidation of SO2. A major share of regional PM2.5 haze.',
+    baseColor: { r: 226, g: 232, b: 240 }, // Whitish haze
+    diffusionModifier: 0.6, // Suspended like primary PM2.5
+    behavior: {
+      sinkRate: 0.02,
+      reactivity: 0.0,
+      viscosity: 1.1,
+      scavenging: 0.7, // Hygroscopic, forms cloud droplets
+    },
+    effects: ['respiratory', 'acidRain'],
+    secondary: true
+  },
+  ORGANIC: {
+    id: 'organic',
+    name: 'Organic Waste (BOD)',
+    description: 'Sewage and food-processing effluent. Bacteria break it down, using up the oxygen fish need.',
+    baseColor: { r: 132, g: 204, b: 22 }, // Algal green
+    diffusionModifier: 1.0,
+    behavior: {
+      sinkRate: 0.03, // Some settles as sludge
+      reactivity: 0.3, // Biodegrades
+      viscosity: 1.0,
+      scavenging: 0.0,
+    },
+    effects: ['oxygenDepletion', 'pathogens'],
+    medium: 'water'
+  },
+  NUTRIENT: {
+    id: 'nutrient',
+    name: 'Nutrients (N, P)',
+    description: 'Nitrate and phosphate from farm runoff and treated sewage. Feeds algal blooms far downstream.',
+    baseColor: { r: 20, g: 184, b: 166 }, // Teal
+    diffusionModifier: 1.2, // Dissolved
+    behavior: {
+      sinkRate: 0.0,
+      reactivity: 0.02, // Taken up slowly by plants
+      viscosity: 1.0,
+      scavenging: 0.0,
+    },
+    effects: ['algalBloom', 'oxygenDepletion'],
+    medium: 'water'
+  },
+  THERMAL: {
+    id: 'thermal',
+    name: 'Thermal Effluent',
+    description: 'Heated cooling water from power stations. Floats on the surface and cools as it spreads.',
+    baseColor: { r: 249, g: 115, b: 22 }, // Orange
+    diffusionModifier: 1.0,
+    behavior: {
+      sinkRate: 0.0, // Warm water floats
+      reactivity: 0.15, // Heat lost to the air
+      viscosity: 1.0,
+      tempGradient: 10,
+      scavenging: 0.0,
+    },
+    effects: ['oxygenDepletion', 'habitatLoss'],
+    medium: 'water'
+  },
+  SEDIMENT: {
+    id: 'sediment',
+    name: 'Suspended Sediment',
+    description: 'Silt from dredging, construction and eroding banks. Clouds the water and settles on the bed.',
+    baseColor: { r: 161, g: 98, b: 7 }, // Muddy brown
+    diffusionModifier: 0.5,
+    behavior: {
+      sinkRate: 0.35, // Settles out
+      reactivity: 0.0,
+      viscosity: 1.3,
+      scavenging: 0.0,
+    },
+    effects: ['turbidity', 'habitatLoss'],
+    medium: 'water'
+  },
+  OIL: {
+    id: 'oil',
+    name: 'Crude Oil Slick',
+    description: 'Floats as a film that spreads across the surface, loses its light ends to the air and strands on shorelines.',
+    baseColor: { r: 68, g: 52, b: 36 }, // Dark brown
+    diffusionModifier: 0.1, // Spreads under gravity rather than mixing
+    behavior: {
+      sinkRate: 0.0, // Floats
+      reactivity: 0.0, // Weathering is modelled by the slick itself
+      viscosity: 3.0,
+      scavenging: 0.0,
+    },
+    slick: {
+      spreading: 8e-7,
+      volatileFraction: 0.35, // A medium crude
+      evaporation: 0.02,
+      emulsification: 0.002,
+      maxWaterContent: 0.8,
+      stranding: 0.05
+    },
+    effects: ['wildlifeOiling', 'shorelineOiling'],
+    medium: 'water'
   }
-} as const;
\ No newline at end of file
+} as const;
+
+export const SPECIES_IDS = Object.keys(POLLUTANT_TYPES) as SpeciesId[];
+// Species that sources may emit (secondary pollutants only form through chemistry)
+export const EMITTED_SPECIES = SPECIES_IDS.filter(species => !('secondary' in POLLUTANT_TYPES[species]));
+export const SECONDARY_SPECIES = SPECIES_IDS.filter(species => 'secondary' in POLLUTANT_TYPES[species]);
+// Species released into water rather than air
+export const WATER_SPECIES = EMITTED_SPECIES.filter(species => 'medium' in POLLUTANT_TYPES[species]);
+export const AIR_SPECIES = EMITTED_SPECIES.filter(species => !WATER_SPECIES.includes(species));
+// Species that float as a slick
+export const SLICK_SPECIES = SPECIES_IDS.filter(species => 'slick' in POLLUTANT_TYPES[species]);
\ No newline at end of file